@@ -0,0 +1,21 @@
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { analysisReport } from './analysis-report';
+import { DEFAULT_TUNING } from './tuning';
+
+const file = (path: string) => resolve(dirname(fileURLToPath(import.meta.url)), '..', path);
+
+describe('analysisReport', () => {
+  // The recordings are synthesized from the scores with a few notes out of tune, plus a wrong
+  // note in Mary. The expected output is what `npm run -s analyze` prints for them.
+  it.each(['twinkle-twinkle', 'mary-lamb'])('reports the %s recording as the checked-in output', async name => {
+    const report = await analysisReport({
+      recording: file(`fixtures/${name}.wav`),
+      score: file(`public/scores/${name}.xml`),
+      tuning: DEFAULT_TUNING
+    });
+    expect(JSON.parse(JSON.stringify(report))).toEqual(JSON.parse(readFileSync(file(`fixtures/${name}.json`), 'utf8')));
+  });
+});
@@ -0,0 +1,98 @@
+// The JSON report of the command-line analyzer: a WAV file run through the app's pitch pipeline
+// and, given a MusicXML score, followed through the score the way practice mode does.
+
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { analyzeRecording } from './audio-analysis';
+import { decodeWav } from './wav';
+import { DEFAULT_DETECTION } from './detection';
+import { TuningSettings } from './tuning';
+import { decodeScore } from './score-import';
+import { readMusicXml, extractPracticeSteps } from './musicxml';
+import { defaultPartIndex } from './score-notes';
+import { followScore } from './score-following';
+
+export interface ReportOptions {
+  recording: string;
+  score?: string;
+  part?: string;
+  voice?: number;
+  tuning: TuningSettings;
+}
+
+function round(value: number, digits = 0): number {
+  const scale = Math.pow(10, digits);
+  return Math.round(value * scale) / scale;
+}
+
+async function readScore(path: string, partChoice: string | undefined, voice: number | undefined) {
+  const bytes = await readFile(path);
+  const score = readMusicXml(await decodeScore(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)));
+  const names = score.parts.map(part => part.name);
+
+  // A part is chosen by its 1-based number or (part of) its name
+  let partIndex = defaultPartIndex(names);
+  if (partChoice !== undefined) {
+    const number = parseInt(partChoice, 10);
+    partIndex = String(number) === partChoice
+      ? number - 1
+      : names.findIndex(name => name.toLowerCase().includes(partChoice.toLowerCase()));
+  }
+  const part = score.parts[partIndex];
+  if (!part) {
+    throw new Error(`No part "${partChoice}". The score has: ${names.join(', ')}`);
+  }
+  return { title: score.title, part, steps: extractPracticeSteps(part, voice ?? null) };
+}
+
+export async function analysisReport(options: ReportOptions) {
+  const audio = decodeWav(await readFile(options.recording));
+  const analysis = await analyzeRecording(audio, DEFAULT_DETECTION, options.tuning);
+  const notes = analysis.notes.map(note => ({
+    note: note.note,
+    start: round(note.start),
+    end: round(note.end),
+    frequency: round(note.frequency, 2),
+    cents: round(note.cents, 1)
+  }));
+
+  let score = null;
+  if (options.score) {
+    const { title, part, steps } = await readScore(options.score, options.part, options.voice);
+    const following = followScore(steps, analysis.notes.map(note => ({ time: note.start, note: note.note })));
+    score = {
+      file: basename(options.score),
+      title,
+      part: part.name,
+      voice: options.voice ?? null,
+      steps: steps.length,
+      matched: following.matched,
+      wrongNotes: following.wrongNotes,
+      alignment: following.steps.map(followed => {
+        const step = steps[followed.stepIndex];
+        const played = analysis.notes.find(note => note.start === followed.time);
+        return {
+          step: followed.stepIndex,
+          measure: step?.measureNumber,
+          beat: round(step?.measureBeat ?? 0, 3),
+          expected: step?.pitches ?? [],
+          time: followed.time === null ? null : round(followed.time),
+          cents: played ? round(played.cents, 1) : null,
+          wrongNotes: followed.wrongNotes
+        };
+      })
+    };
+  }
+
+  return {
+    recording: {
+      file: basename(options.recording),
+      duration: round(analysis.duration),
+      sampleRate: audio.sampleRate,
+      channels: audio.numberOfChannels
+    },
+    tuning: options.tuning,
+    notes,
+    score
+  };
+}
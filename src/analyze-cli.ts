@@ -0,0 +1,66 @@
+// Command-line analysis of a recording, for Node. Runs a WAV file through the app's pitch
+// pipeline and, given a MusicXML score, follows it through the score the way practice mode
+// does. Prints the detected notes, their cents deviations and the alignment as JSON.
+//
+//   npm run -s analyze -- recording.wav [score.musicxml] [--part Violin] [--voice 1]
+//     [--a4 442] [--temperament just --key D]
+
+import { Temperament, DEFAULT_TUNING, normalizeTuning } from './tuning';
+import { ReportOptions, analysisReport } from './analysis-report';
+
+const USAGE = `Usage: npm run -s analyze -- <recording.wav> [score.musicxml|score.mxl] [options]
+
+Options:
+  --part <name|number>   Part to follow (default: the violin part, else the first)
+  --voice <number>       Only follow this voice of the part
+  --a4 <Hz>              Reference pitch (default ${DEFAULT_TUNING.referenceA})
+  --temperament <name>   equal, pythagorean or just (default ${DEFAULT_TUNING.temperament})
+  --key <note>           Key of the pythagorean and just temperaments (default ${DEFAULT_TUNING.key})`;
+
+function parseArgs(args: string[]): ReportOptions | null {
+  const files: string[] = [];
+  const tuning = { ...DEFAULT_TUNING };
+  let part: string | undefined;
+  let voice: number | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+    if (!arg.startsWith('--')) {
+      files.push(arg);
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) return null;
+    switch (arg) {
+      case '--part': part = value; break;
+      case '--voice': voice = parseInt(value, 10); break;
+      case '--a4': tuning.referenceA = parseFloat(value); break;
+      case '--temperament': tuning.temperament = value as Temperament; break;
+      case '--key': tuning.key = value; break;
+      default: return null;
+    }
+  }
+
+  const [recording, score] = files;
+  if (!recording || files.length > 2) return null;
+  return { recording, score, part, voice, tuning: normalizeTuning(tuning) };
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  console.log(JSON.stringify(await analysisReport(options), null, 2));
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,111 @@
+// Offline analysis of a recording: decode an audio file and run it through the same pitch
+// pipeline the microphone uses, producing a timeline of detected notes.
+
+import { PitchPipeline, FRAME_SIZE } from './pitch-pipeline';
+import { DetectionSettings } from './detection';
+import { TuningSettings } from './tuning';
+import { checkTuning } from './intonation';
+import { t } from './locale';
+
+export interface DetectedNote {
+  note: string;
+  start: number; // ms from the start of the recording
+  end: number;
+  frequency: number; // Frequency at the onset, in Hz
+  cents: number; // Average deviation from the note while it was held; positive is sharp
+}
+
+// Decoded audio: an AudioBuffer in the browser, or a decoded WAV file elsewhere
+export type AudioSamples = Pick<AudioBuffer, 'sampleRate' | 'length' | 'numberOfChannels' | 'duration' | 'getChannelData'>;
+
+export interface RecordingAnalysis {
+  duration: number; // ms
+  notes: DetectedNote[];
+}
+
+// Decoding resamples to this rate, so analysis behaves the same for every file
+const ANALYSIS_SAMPLE_RATE = 44100;
+// Frames are spaced like the live loop, which runs once per display frame, so smoothing and
+// octave correction (counted in frames) behave the same as with the microphone
+const FRAMES_PER_SECOND = 60;
+// A held note ends once its pitch has been gone for this long
+const NOTE_RELEASE_MS = 100;
+// Frames analyzed between yields to the browser, so the page stays responsive
+const FRAMES_PER_CHUNK = 200;
+
+export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(t('recording.undecodable', { file: file.name }));
+  }
+}
+
+// Average all channels into one
+function mixDown(audio: AudioSamples): Float32Array {
+  const samples = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] = (samples[i] ?? 0) + (data[i] ?? 0) / audio.numberOfChannels;
+    }
+  }
+  return samples;
+}
+
+/**
+ * Run a decoded recording through the pitch pipeline.
+ * @param onProgress called now and then with the share (0-1) of the recording analyzed
+ */
+export async function analyzeRecording(
+  audio: AudioSamples,
+  detection: DetectionSettings,
+  tuning: TuningSettings,
+  onProgress?: (progress: number) => void
+): Promise<RecordingAnalysis> {
+  const samples = mixDown(audio);
+  // Input gain applies to recordings too, so quiet recordings can be boosted
+  const gain = Math.pow(10, detection.inputGainDb / 20);
+  const pipeline = new PitchPipeline(detection, tuning);
+  const hop = Math.round(audio.sampleRate / FRAMES_PER_SECOND);
+  const frame = new Float32Array(FRAME_SIZE);
+
+  const notes: DetectedNote[] = [];
+  let open: DetectedNote | null = null;
+  let centsTotal = 0;
+  let centsFrames = 0;
+  let frames = 0;
+
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += hop) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      frame[i] = (samples[start + i] ?? 0) * gain;
+    }
+    // Like the live analyser, a frame is stamped with the time of its newest sample
+    const time = (start + FRAME_SIZE) / audio.sampleRate * 1000;
+    const result = pipeline.process(frame, audio.sampleRate, time);
+
+    if (result.onset) {
+      open = { note: result.onset.note, start: result.onset.time, end: time, frequency: result.onset.frequency, cents: 0 };
+      notes.push(open);
+      centsTotal = 0;
+      centsFrames = 0;
+    } else if (open && result.isClear && result.note === open.note) {
+      open.end = time;
+    } else if (open && time - open.end > NOTE_RELEASE_MS) {
+      open = null;
+    }
+    if (open && result.isClear && result.note === open.note) {
+      centsTotal += checkTuning(result.frequency, open.note, tuning)?.cents ?? 0;
+      open.cents = centsTotal / ++centsFrames;
+    }
+
+    if (++frames % FRAMES_PER_CHUNK === 0) {
+      onProgress?.(start / samples.length);
+      await new Promise(resolve => setTimeout(resolve));
+    }
+  }
+  onProgress?.(1);
+
+  return { duration: audio.duration * 1000, notes };
+}
@@ -0,0 +1,70 @@
+// Named bookmarks per score, anchored to a measure and beat so they survive changes to how
+// notes are extracted from the score.
+
+import { t } from './locale';
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  measureNumber: number; // Measure number as written in the score
+  beat: number; // 1-based beat within the measure, may be fractional (2.5 = the "and" of 2)
+  createdAt: number; // ms since epoch
+}
+
+const STORAGE_KEY = 'violin-companion-bookmarks';
+// Single note index used before bookmarks were kept per score; it can't be mapped to a score
+const LEGACY_STORAGE_KEY = 'violin-companion-bookmark';
+
+type BookmarkStore = { [scoreId: string]: Bookmark[] };
+
+function readStore(): BookmarkStore {
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) as BookmarkStore : {};
+  } catch (error) {
+    console.warn('Ignoring invalid bookmarks:', error);
+    return {};
+  }
+}
+
+export function loadBookmarks(scoreId: string): Bookmark[] {
+  return readStore()[scoreId] ?? [];
+}
+
+export function saveBookmarks(scoreId: string, bookmarks: Bookmark[]): void {
+  const store = readStore();
+  if (bookmarks.length > 0) {
+    store[scoreId] = bookmarks;
+  } else {
+    delete store[scoreId];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+export function createBookmark(name: string, measureNumber: number, beat: number): Bookmark {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || t('bookmark.default', { measure: measureNumber }),
+    measureNumber,
+    beat,
+    createdAt: Date.now()
+  };
+}
+
+/**
+ * Identity of a score loaded from a file: a hash of its content, so the same file dropped
+ * again (under any name) finds its bookmarks. cyrb53, a fast non-cryptographic 53-bit hash.
+ */
+export function hashScoreContent(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `content:${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)}`;
+}
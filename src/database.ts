@@ -0,0 +1,43 @@
+// The app's IndexedDB database, shared by the score library and the practice history.
+
+const DB_NAME = 'violin-companion';
+const DB_VERSION = 2;
+
+export const SCORES_STORE = 'scores';
+export const SESSIONS_STORE = 'sessions';
+
+let database: Promise<IDBDatabase> | undefined;
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    // Stores added in later versions are created when an older database is opened
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(SCORES_STORE)) {
+        db.createObjectStore(SCORES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      database = undefined;
+      reject(open.error);
+    };
+  });
+  return database;
+}
+
+export async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
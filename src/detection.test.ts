@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DETECTION,
+  NoteSmoother,
+  OctaveCorrector,
+  calibrateNoiseFloor,
+  normalizeDetection
+} from './detection';
+
+const feed = (smoother: NoteSmoother, frames: (number | null)[]) => frames.map(frame => smoother.process(frame));
+
+describe('NoteSmoother', () => {
+  it('passes frames through when off', () => {
+    expect(feed(new NoteSmoother('off', 5), [69, null, 70])).toEqual([69, null, 70]);
+  });
+
+  it('drops a single stray frame with the median filter', () => {
+    expect(feed(new NoteSmoother('median', 3), [69, 69, 81, 69, 69])).toEqual([69, 69, 69, 69, 69]);
+  });
+
+  it('reports nothing while most frames are unclear', () => {
+    expect(feed(new NoteSmoother('median', 3), [69, null, null])).toEqual([69, 69, null]);
+  });
+
+  it('holds the current note until a new one has lasted with hysteresis', () => {
+    const smoother = new NoteSmoother('hysteresis', 3);
+    expect(feed(smoother, [69, 71, 71, 71, 71])).toEqual([69, 69, 69, 71, 71]);
+  });
+
+  it('accepts the first note after silence at once with hysteresis', () => {
+    expect(feed(new NoteSmoother('hysteresis', 3), [null, 62])).toEqual([null, 62]);
+  });
+});
+
+describe('OctaveCorrector', () => {
+  it('raises pitches below the lowest note by octaves', () => {
+    expect(new OctaveCorrector(196).correct(98)).toBe(196);
+  });
+
+  it('folds back a short octave jump', () => {
+    const corrector = new OctaveCorrector(196);
+    corrector.correct(440);
+    expect(corrector.correct(880)).toBe(440);
+  });
+
+  it('accepts an octave leap that lasts', () => {
+    const corrector = new OctaveCorrector(196);
+    corrector.correct(440);
+    const frames = Array.from({ length: 6 }, () => corrector.correct(880));
+    expect(frames[frames.length - 1]).toBe(880);
+  });
+
+  it('leaves other intervals alone', () => {
+    const corrector = new OctaveCorrector(196);
+    corrector.correct(440);
+    expect(corrector.correct(660)).toBe(660);
+  });
+});
+
+describe('settings', () => {
+  it('clamps values and falls back on unknown ones', () => {
+    const settings = normalizeDetection({
+      ...DEFAULT_DETECTION,
+      minClarity: 2,
+      smoothing: 'kalman' as never,
+      smoothingFrames: 4.6
+    });
+    expect(settings.minClarity).toBe(0.99);
+    expect(settings.smoothing).toBe('off');
+    expect(settings.smoothingFrames).toBe(5);
+  });
+
+  it('calibrates the threshold above the loud end of the room noise', () => {
+    const levels = [-60, -58, -57, -56, -55, -54, -53, -52, -50, -20];
+    const settings = calibrateNoiseFloor(DEFAULT_DETECTION, levels);
+    expect(settings.noiseFloorDb).toBe(-20);
+    expect(calibrateNoiseFloor(DEFAULT_DETECTION, levels.slice(0, 9)).noiseFloorDb).toBe(-50);
+    expect(calibrateNoiseFloor(DEFAULT_DETECTION, levels.slice(0, 9)).minVolumeDb).toBe(-40);
+  });
+
+  it('keeps the settings when nothing was measured', () => {
+    expect(calibrateNoiseFloor(DEFAULT_DETECTION, [-Infinity])).toBe(DEFAULT_DETECTION);
+  });
+});
@@ -0,0 +1,210 @@
+// Microphone pitch-detection settings, plus the smoothing and octave-error correction applied
+// to the raw output of the pitch detector.
+
+export type NoteSmoothing = 'off' | 'median' | 'hysteresis';
+
+export interface DetectionSettings {
+  inputGainDb: number; // Boost applied to the microphone before detection
+  minVolumeDb: number; // Quieter frames are not pitch-detected at all
+  minClarity: number; // Pitch detector clarity (0-1) a frame needs to count
+  noiseFloorDb: number; // Level of the room with nobody playing, from calibration
+  smoothing: NoteSmoothing;
+  smoothingFrames: number; // Window of the median filter, or frames a new note must hold
+  octaveCorrection: boolean;
+}
+
+export const DEFAULT_DETECTION: DetectionSettings = {
+  inputGainDb: 0,
+  minVolumeDb: -30,
+  minClarity: 0.9,
+  noiseFloorDb: -51,
+  smoothing: 'off',
+  smoothingFrames: 5,
+  octaveCorrection: true
+};
+
+export const INPUT_GAIN_RANGE = { min: 0, max: 24 };
+export const MIN_VOLUME_RANGE = { min: -70, max: -10 };
+export const CLARITY_RANGE = { min: 0.5, max: 0.99 };
+export const SMOOTHING_FRAMES_RANGE = { min: 2, max: 15 };
+
+// Named smoothing.<name> in the locale catalog
+export const SMOOTHINGS: NoteSmoothing[] = ['off', 'median', 'hysteresis'];
+
+// The bow counts as lifted this far above the noise floor
+export const SILENCE_MARGIN_DB = 6;
+// Calibration puts the detection threshold this far above the noise floor
+const CALIBRATION_MARGIN_DB = 10;
+export const CALIBRATION_MS = 3000;
+
+const STORAGE_KEY = 'violin-companion-detection';
+
+export function loadDetectionSettings(): DetectionSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return { ...DEFAULT_DETECTION };
+    const parsed = JSON.parse(saved) as Partial<DetectionSettings>;
+    return normalizeDetection({ ...DEFAULT_DETECTION, ...parsed });
+  } catch (error) {
+    console.warn('Ignoring invalid detection settings:', error);
+    return { ...DEFAULT_DETECTION };
+  }
+}
+
+export function saveDetectionSettings(settings: DetectionSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(normalizeDetection(settings)));
+}
+
+function clamp(value: number, range: { min: number; max: number }, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(range.max, Math.max(range.min, number)) : fallback;
+}
+
+export function normalizeDetection(settings: DetectionSettings): DetectionSettings {
+  return {
+    inputGainDb: clamp(settings.inputGainDb, INPUT_GAIN_RANGE, DEFAULT_DETECTION.inputGainDb),
+    minVolumeDb: clamp(settings.minVolumeDb, MIN_VOLUME_RANGE, DEFAULT_DETECTION.minVolumeDb),
+    minClarity: clamp(settings.minClarity, CLARITY_RANGE, DEFAULT_DETECTION.minClarity),
+    noiseFloorDb: clamp(settings.noiseFloorDb, { min: -120, max: 0 }, DEFAULT_DETECTION.noiseFloorDb),
+    smoothing: SMOOTHINGS.includes(settings.smoothing) ? settings.smoothing : DEFAULT_DETECTION.smoothing,
+    smoothingFrames: Math.round(clamp(settings.smoothingFrames, SMOOTHING_FRAMES_RANGE, DEFAULT_DETECTION.smoothingFrames)),
+    octaveCorrection: Boolean(settings.octaveCorrection)
+  };
+}
+
+/**
+ * Settings after a quiet calibration. The noise floor is taken as the 90th percentile of the
+ * frame levels, so a single cough doesn't raise it much, and the detection threshold is put
+ * a margin above it.
+ */
+export function calibrateNoiseFloor(settings: DetectionSettings, levelsDb: number[]): DetectionSettings {
+  const levels = levelsDb.filter(Number.isFinite).sort((a, b) => a - b);
+  if (levels.length === 0) return settings;
+  const noiseFloorDb = levels[Math.min(levels.length - 1, Math.floor(levels.length * 0.9))]!;
+  return normalizeDetection({
+    ...settings,
+    noiseFloorDb,
+    minVolumeDb: noiseFloorDb + CALIBRATION_MARGIN_DB
+  });
+}
+
+/**
+ * Steadies the detected note. The median filter reports the middle pitch of the last few
+ * frames; hysteresis keeps the current note until a new one has held for a few frames.
+ * Frames without a clear pitch are passed as null.
+ */
+export class NoteSmoother {
+  private mode: NoteSmoothing;
+  private frames: number;
+  private history: (number | null)[] = [];
+  private current: number | null = null;
+  private pending: number | null = null;
+  private pendingFrames = 0;
+
+  constructor(mode: NoteSmoothing, frames: number) {
+    this.mode = mode;
+    this.frames = frames;
+  }
+
+  configure(mode: NoteSmoothing, frames: number): void {
+    this.mode = mode;
+    this.frames = frames;
+    this.reset();
+  }
+
+  reset(): void {
+    this.history = [];
+    this.current = null;
+    this.pending = null;
+    this.pendingFrames = 0;
+  }
+
+  /** Feed one frame's MIDI note number; returns the smoothed one. */
+  process(midi: number | null): number | null {
+    if (this.mode === 'median') {
+      this.history.push(midi);
+      if (this.history.length > this.frames) {
+        this.history.shift();
+      }
+      const notes = this.history.filter((note): note is number => note !== null).sort((a, b) => a - b);
+      // Mostly unclear frames: nothing is sounding
+      if (notes.length * 2 < this.history.length) return null;
+      return notes[Math.floor(notes.length / 2)] ?? null;
+    }
+
+    if (this.mode === 'hysteresis') {
+      if (midi === null || midi === this.current) {
+        this.current = midi;
+        this.pending = null;
+        this.pendingFrames = 0;
+        return midi;
+      }
+      if (midi !== this.pending) {
+        this.pending = midi;
+        this.pendingFrames = 0;
+      }
+      this.pendingFrames++;
+      // The first note after silence needs no confirmation
+      if (this.current === null || this.pendingFrames >= this.frames) {
+        this.current = midi;
+        this.pending = null;
+        this.pendingFrames = 0;
+      }
+      return this.current;
+    }
+
+    return midi;
+  }
+}
+
+// Frequency ratios within this many cents of an octave count as octave jumps
+const OCTAVE_TOLERANCE_CENTS = 40;
+// An octave jump that lasts this many frames is a real leap, not a detector error
+const OCTAVE_CONFIRM_FRAMES = 6;
+
+/**
+ * Corrects octave errors of the pitch detector. Pitches below the instrument's lowest note are
+ * raised by octaves, and a sudden jump of exactly an octave is folded back until it has lasted
+ * long enough to be a real leap.
+ */
+export class OctaveCorrector {
+  private lowestFrequency: number;
+  // Last accepted frequency that jumps are measured from
+  private reference = 0;
+  private jumpFrames = 0;
+
+  constructor(lowestFrequency: number) {
+    this.lowestFrequency = lowestFrequency;
+  }
+
+  setLowestFrequency(frequency: number): void {
+    this.lowestFrequency = frequency;
+  }
+
+  reset(): void {
+    this.reference = 0;
+    this.jumpFrames = 0;
+  }
+
+  correct(frequency: number): number {
+    if (frequency <= 0) return frequency;
+
+    // Allow a quarter tone of slack below the lowest note before calling it an error
+    while (frequency < this.lowestFrequency * 0.97) {
+      frequency *= 2;
+    }
+
+    if (this.reference > 0) {
+      const octaves = Math.log2(frequency / this.reference);
+      const rounded = Math.round(octaves);
+      const isOctaveJump = rounded !== 0 && Math.abs(octaves - rounded) * 1200 < OCTAVE_TOLERANCE_CENTS;
+      if (isOctaveJump && ++this.jumpFrames < OCTAVE_CONFIRM_FRAMES) {
+        return frequency / Math.pow(2, rounded);
+      }
+    }
+
+    this.jumpFrames = 0;
+    this.reference = frequency;
+    return frequency;
+  }
+}
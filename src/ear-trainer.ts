@@ -0,0 +1,241 @@
+import { LitElement, html } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import { synthesizer } from './synth';
+import { TuningSettings, DEFAULT_TUNING, noteToFrequency } from './tuning';
+import { checkTuning } from './intonation';
+import { LocaleController, t, formatNote } from './locale';
+import {
+  EAR_LEVELS,
+  EarProgress,
+  EarRound,
+  advanceProgress,
+  generatePhrase,
+  isInTune,
+  loadEarProgress,
+  saveEarProgress
+} from './ear-training';
+
+// Length of each phrase note when it is played to the child
+const PHRASE_NOTE_SECONDS = 0.8;
+// Input is ignored this long after the phrase ends, so its last note dying away in the room
+// isn't taken for the answer
+const LISTEN_DELAY_MS = 400;
+
+type EarStatus = 'idle' | 'playing' | 'listening' | 'done';
+
+/**
+ * Ear training: plays a short phrase and compares what the child plays back with it, note by
+ * note and in pitch. The app feeds detected note onsets and pitches in while listening.
+ */
+export class EarTrainer extends LitElement {
+  @property({ attribute: false })
+  tuning: TuningSettings = DEFAULT_TUNING;
+
+  // Whether the microphone is on
+  @property({ type: Boolean })
+  listening = false;
+
+  @state()
+  private progress: EarProgress = loadEarProgress();
+
+  @state()
+  private round: EarRound | null = null;
+
+  @state()
+  private status: EarStatus = 'idle';
+
+  // Round whose first full answer has counted towards the level
+  private scoredRound: EarRound | null = null;
+
+  private listenTimer?: number;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stopPhrase();
+  }
+
+  /** Feed a detected note onset. */
+  checkNote(note: string) {
+    if (this.status !== 'listening' || !this.round) return;
+    this.round.answer(note);
+    if (this.round.done) {
+      this.finishRound(this.round);
+    }
+    this.requestUpdate();
+  }
+
+  /** Feed a clear pitch, used for the intonation of the note being played back. */
+  recordPitch(frequency: number) {
+    if (this.status !== 'listening' || !this.round) return;
+    const latest = this.round.results[this.round.results.length - 1];
+    const check = latest ? checkTuning(frequency, latest.expected, this.tuning) : null;
+    if (check) {
+      this.round.addCents(check.cents);
+      this.requestUpdate();
+    }
+  }
+
+  // Only the first full answer counts; answers after hearing a finished phrase again are practice
+  private finishRound(round: EarRound) {
+    this.status = 'done';
+    if (this.scoredRound === round) return;
+    this.scoredRound = round;
+    this.progress = advanceProgress(this.progress, round);
+    saveEarProgress(this.progress);
+  }
+
+  private newPhrase() {
+    const level = EAR_LEVELS[this.progress.level] ?? EAR_LEVELS[0]!;
+    this.round = new EarRound(generatePhrase(level));
+    this.playPhrase();
+  }
+
+  // Hearing the phrase again is the hint: the answer starts over and the round counts as helped
+  private hearAgain() {
+    if (!this.round) return;
+    this.round.hints++;
+    this.round.restart();
+    this.playPhrase();
+  }
+
+  private async playPhrase() {
+    if (!this.round) return;
+    this.stopPhrase();
+    this.status = 'playing';
+    await synthesizer.playSequence(
+      this.round.phrase.map((note, index) => ({
+        frequencies: [noteToFrequency(note, this.tuning)],
+        start: index * PHRASE_NOTE_SECONDS,
+        duration: PHRASE_NOTE_SECONDS
+      })),
+      () => {},
+      () => {
+        this.listenTimer = window.setTimeout(() => this.status = 'listening', LISTEN_DELAY_MS);
+      }
+    );
+  }
+
+  private stopPhrase() {
+    synthesizer.stopSequence();
+    clearTimeout(this.listenTimer);
+  }
+
+  private setLevel(level: number) {
+    this.stopPhrase();
+    this.progress = { level, streak: 0 };
+    saveEarProgress(this.progress);
+    this.round = null;
+    this.status = 'idle';
+  }
+
+  private renderStatus() {
+    if (!this.round) {
+      return html`<p class="text-lg text-base-content/70">${t('ear.intro')}</p>`;
+    }
+    switch (this.status) {
+      case 'playing':
+        return html`<p class="text-lg font-bold"><span class="icon-[mdi--ear-hearing]"></span> ${t('ear.listen')}</p>`;
+      case 'listening':
+        return this.listening
+          ? html`<p class="text-lg font-bold text-primary"><span class="icon-[mdi--violin]"></span> ${t('ear.yourTurn')}</p>`
+          : html`<p class="text-lg text-warning">${t('ear.micOff')}</p>`;
+      case 'done':
+        return this.round.passed
+          ? html`<p class="text-xl text-success font-bold"><span class="icon-[mdi--party-popper]"></span> ${t('ear.wellDone')}</p>`
+          : html`<p class="text-lg text-error font-bold">${t('ear.notQuite')}</p>`;
+      default:
+        return '';
+    }
+  }
+
+  private renderResults(round: EarRound) {
+    return html`
+      <div class="flex flex-wrap justify-center gap-3 my-6">
+        ${round.phrase.map((expected, index) => {
+          const result = round.results[index];
+          // Expected notes stay hidden until the child has answered them
+          const show = result || this.status === 'done';
+          return html`
+            <div class="rounded-xl p-3 min-w-20 text-center border-2 ${
+              !result ? 'border-base-300 bg-base-100'
+                : result.correct ? 'border-success bg-success/10' : 'border-error bg-error/10'
+            }">
+              <div class="text-2xl font-bold">
+                ${show ? formatNote(expected) : '?'}
+                ${result ? html`<span class="${result.correct ? 'icon-[mdi--check-circle] text-success' : 'icon-[mdi--close-circle] text-error'} text-xl"></span>` : ''}
+              </div>
+              ${result && !result.correct ? html`<div class="text-xs text-base-content/60">${t('ear.youPlayed', { note: formatNote(result.played) })}</div>` : ''}
+              ${result && result.cents !== null ? html`
+                <div class="text-xs ${isInTune(result) ? 'text-success' : 'text-warning'}">
+                  ${isInTune(result) ? t('ear.inTune') : t('ear.cents', { cents: `${result.cents > 0 ? '+' : ''}${Math.round(result.cents)}` })}
+                </div>
+              ` : ''}
+            </div>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  render() {
+    const level = EAR_LEVELS[this.progress.level] ?? EAR_LEVELS[0]!;
+    const busy = this.status === 'playing';
+
+    return html`
+      <div class="bg-base-200 rounded-2xl p-6">
+        <div class="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <h2 class="text-2xl font-bold text-base-content/80">${t('ear.title')}</h2>
+          <label class="flex items-center gap-2 text-sm">
+            ${t('ear.level')}
+            <select
+              class="select select-bordered select-sm"
+              @change=${(e: Event) => this.setLevel(Number((e.target as HTMLSelectElement).value))}>
+              ${EAR_LEVELS.map((option, index) => html`
+                <option value=${index} ?selected=${index === this.progress.level}>${index + 1}. ${t(`ear.level.${option.id}`)}</option>
+              `)}
+            </select>
+          </label>
+        </div>
+
+        <p class="text-sm text-base-content/60">
+          ${t(level.length === 1 ? 'ear.oneNote' : 'ear.notes', {
+            count: level.length,
+            lowest: formatNote(level.notes[0] ?? ''),
+            highest: formatNote(level.notes[level.notes.length - 1] ?? '')
+          })}
+          ${this.progress.streak > 0 ? t('ear.streak', { count: this.progress.streak }) : ''}
+        </p>
+
+        ${this.round ? this.renderResults(this.round) : html`<div class="my-6"></div>`}
+
+        <div class="text-center mb-4">${this.renderStatus()}</div>
+
+        <div class="flex flex-wrap justify-center gap-2">
+          <button class="btn btn-primary" ?disabled=${busy} @click=${this.newPhrase}>
+            <span class="icon-[mdi--play]"></span>
+            ${this.round ? t('ear.newPhrase') : t('ear.start')}
+          </button>
+          <button class="btn" ?disabled=${!this.round || busy} @click=${this.hearAgain}>
+            <span class="icon-[mdi--replay]"></span>
+            ${t('ear.hearAgain')}
+          </button>
+        </div>
+        ${this.round && this.round.hints > 0 ? html`
+          <p class="text-xs text-center text-base-content/60 mt-2">${t('ear.hintNote')}</p>
+        ` : ''}
+      </div>
+    `;
+  }
+}
+
+customElements.define('ear-trainer', EarTrainer);
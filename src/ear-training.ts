@@ -0,0 +1,156 @@
+// Ear training: short phrases to hear and play back, with levels that get harder as the
+// child keeps getting them right.
+
+import { noteToMidi, midiToNote, samePitch } from './tuning';
+import { IN_TUNE_CENTS } from './intonation';
+
+export type EarLevelId = 'open-strings' | 'single-notes' | 'steps' | 'intervals' | 'three-notes' | 'four-notes' | 'five-notes';
+
+export interface EarLevel {
+  id: EarLevelId;
+  length: number; // Notes per phrase
+  notes: string[]; // Notes phrases are made of
+  maxLeap: number; // Largest interval between neighbouring notes, in semitones
+}
+
+// Pitch classes of D major, the key most beginner violin music starts in
+const D_MAJOR = [2, 4, 6, 7, 9, 11, 1];
+
+// Notes from lowest to highest, optionally only those of a key
+function noteRange(lowest: string, highest: string, pitchClasses: number[] | null = null): string[] {
+  const notes: string[] = [];
+  for (let midi = noteToMidi(lowest) ?? 0; midi <= (noteToMidi(highest) ?? 0); midi++) {
+    if (!pitchClasses || pitchClasses.includes(midi % 12)) {
+      notes.push(midiToNote(midi));
+    }
+  }
+  return notes;
+}
+
+export const EAR_LEVELS: EarLevel[] = [
+  { id: 'open-strings', length: 1, notes: ['G3', 'D4', 'A4', 'E5'], maxLeap: Infinity },
+  { id: 'single-notes', length: 1, notes: noteRange('D4', 'D5', D_MAJOR), maxLeap: Infinity },
+  { id: 'steps', length: 2, notes: noteRange('D4', 'D5', D_MAJOR), maxLeap: 2 },
+  { id: 'intervals', length: 2, notes: noteRange('G3', 'A5', D_MAJOR), maxLeap: 7 },
+  { id: 'three-notes', length: 3, notes: noteRange('D4', 'D5', D_MAJOR), maxLeap: 4 },
+  { id: 'four-notes', length: 4, notes: noteRange('G3', 'B5', D_MAJOR), maxLeap: 7 },
+  { id: 'five-notes', length: 5, notes: noteRange('G3', 'E5'), maxLeap: 7 }
+];
+
+// Clean rounds in a row (without hints) that move up a level, and failed rounds that move down
+const ROUNDS_TO_ADVANCE = 3;
+const ROUNDS_TO_RETREAT = 2;
+
+/**
+ * A random phrase for a level. Neighbouring notes differ, so every note needs a new bow
+ * stroke the onset detector can hear.
+ */
+export function generatePhrase(level: EarLevel, random: () => number = Math.random): string[] {
+  const pick = (notes: string[]) => notes[Math.floor(random() * notes.length)] ?? notes[0] ?? 'A4';
+  const phrase = [pick(level.notes)];
+  while (phrase.length < level.length) {
+    const previous = noteToMidi(phrase[phrase.length - 1] ?? '') ?? 0;
+    const candidates = level.notes.filter(note => {
+      const leap = Math.abs((noteToMidi(note) ?? 0) - previous);
+      return leap > 0 && leap <= level.maxLeap;
+    });
+    phrase.push(pick(candidates.length > 0 ? candidates : level.notes));
+  }
+  return phrase;
+}
+
+export interface PhraseNoteResult {
+  expected: string;
+  played: string;
+  correct: boolean;
+  cents: number | null; // Average deviation from the expected note while it was held
+}
+
+/** One phrase and the child's answer to it, compared note by note. */
+export class EarRound {
+  readonly phrase: string[];
+  readonly results: PhraseNoteResult[] = [];
+  hints = 0; // Times the phrase was replayed
+  private centsTotal = 0;
+  private centsFrames = 0;
+
+  constructor(phrase: string[]) {
+    this.phrase = phrase;
+  }
+
+  get done(): boolean {
+    return this.results.length >= this.phrase.length;
+  }
+
+  get passed(): boolean {
+    return this.done && this.results.every(result => result.correct);
+  }
+
+  /** Compare a played note with the next note of the phrase. */
+  answer(note: string): PhraseNoteResult | null {
+    const expected = this.phrase[this.results.length];
+    if (!expected) return null;
+    const result = { expected, played: note, correct: samePitch(note, expected), cents: null };
+    this.results.push(result);
+    this.centsTotal = 0;
+    this.centsFrames = 0;
+    return result;
+  }
+
+  /** Record how far a pitch frame of the latest correct note is from it. */
+  addCents(cents: number): void {
+    const result = this.results[this.results.length - 1];
+    if (!result?.correct) return;
+    this.centsTotal += cents;
+    result.cents = this.centsTotal / ++this.centsFrames;
+  }
+
+  /** Start the answer over, e.g. after hearing the phrase again. */
+  restart(): void {
+    this.results.length = 0;
+  }
+}
+
+export function isInTune(result: PhraseNoteResult): boolean {
+  return result.cents !== null && Math.abs(result.cents) < IN_TUNE_CENTS;
+}
+
+export interface EarProgress {
+  level: number; // Index into EAR_LEVELS
+  streak: number; // Clean rounds in a row when positive, failed rounds in a row when negative
+}
+
+/** Progress after a round: moves up after clean rounds in a row, down after failed ones. */
+export function advanceProgress(progress: EarProgress, round: EarRound): EarProgress {
+  if (!round.passed) {
+    const streak = Math.min(progress.streak, 0) - 1;
+    return streak <= -ROUNDS_TO_RETREAT
+      ? { level: Math.max(0, progress.level - 1), streak: 0 }
+      : { level: progress.level, streak };
+  }
+  // A round passed after hearing it again doesn't count towards the next level
+  if (round.hints > 0) return { level: progress.level, streak: Math.max(progress.streak, 0) };
+  const streak = Math.max(progress.streak, 0) + 1;
+  return streak >= ROUNDS_TO_ADVANCE
+    ? { level: Math.min(EAR_LEVELS.length - 1, progress.level + 1), streak: 0 }
+    : { level: progress.level, streak };
+}
+
+const STORAGE_KEY = 'violin-companion-ear-training';
+
+export function loadEarProgress(): EarProgress {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<EarProgress>;
+    const level = Number(saved.level);
+    return {
+      level: Number.isInteger(level) ? Math.min(EAR_LEVELS.length - 1, Math.max(0, level)) : 0,
+      streak: 0
+    };
+  } catch {
+    return { level: 0, streak: 0 };
+  }
+}
+
+export function saveEarProgress(progress: EarProgress): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+}
@@ -0,0 +1,130 @@
+import { LitElement, html } from 'lit';
+import { state } from 'lit/decorators.js';
+import {
+  ExerciseKind,
+  Tonality,
+  RhythmPattern,
+  Bowing,
+  EXERCISE_KINDS,
+  TONALITIES,
+  RHYTHM_PATTERNS,
+  BOWINGS,
+  EXERCISE_TONICS,
+  startingPositions,
+  maxOctaves,
+  exerciseTitle,
+  generateExercise
+} from './exercises';
+import { LocaleController, t, formatNote } from './locale';
+
+/**
+ * Set up a scale or arpeggio exercise. The panel only writes the MusicXML; loading it is
+ * requested with an 'exercise-create' event carrying the xml and a title.
+ */
+export class ExercisePanel extends LitElement {
+  @state()
+  private kind: ExerciseKind = 'scale';
+
+  @state()
+  private tonality: Tonality = 'major';
+
+  @state()
+  private tonic = 'D';
+
+  // Starting note, e.g. "D4"; chosen through the string and position it is played in
+  @state()
+  private start = 'D4';
+
+  @state()
+  private octaves = 1;
+
+  @state()
+  private rhythm: RhythmPattern = 'quarters';
+
+  @state()
+  private bowing: Bowing = 'separate';
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  // Keep the tonic, start and octaves valid when the choices they depend on change
+  private setTonality(tonality: Tonality) {
+    this.tonality = tonality;
+    const tonics = EXERCISE_TONICS[tonality === 'major' ? 'major' : 'minor'];
+    if (!tonics.includes(this.tonic)) {
+      this.setTonic(tonics[0] ?? 'C');
+    }
+  }
+
+  private setTonic(tonic: string) {
+    this.tonic = tonic;
+    this.setStart(startingPositions(tonic)[0]?.note ?? `${tonic}4`);
+  }
+
+  private setStart(start: string) {
+    this.start = start;
+    this.octaves = Math.max(1, Math.min(this.octaves, maxOctaves(start)));
+  }
+
+  private create() {
+    const options = {
+      kind: this.kind,
+      tonality: this.tonality,
+      start: this.start,
+      octaves: this.octaves,
+      rhythm: this.rhythm,
+      bowing: this.bowing
+    };
+    this.dispatchEvent(new CustomEvent('exercise-create', {
+      detail: { xml: generateExercise(options), title: exerciseTitle(options) },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  render() {
+    const tonics = EXERCISE_TONICS[this.tonality === 'major' ? 'major' : 'minor'];
+    const starts = startingPositions(this.tonic);
+    const octaveChoices = Array.from({ length: maxOctaves(this.start) }, (_, i) => i + 1);
+    const select = (label: string, value: string, options: [string, string][], onChange: (value: string) => void) => html`
+      <label class="form-control">
+        <span class="label-text text-sm mb-1">${label}</span>
+        <select
+          class="select select-bordered select-sm"
+          @change=${(e: Event) => onChange((e.target as HTMLSelectElement).value)}>
+          ${options.map(([optionValue, optionLabel]) => html`
+            <option value=${optionValue} ?selected=${optionValue === value}>${optionLabel}</option>
+          `)}
+        </select>
+      </label>
+    `;
+
+    return html`
+      <div class="bg-base-200 rounded-xl p-4 mb-4">
+        <div class="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          ${select(t('exercise.kind'), this.kind, EXERCISE_KINDS.map(kind => [kind, t(`exercise.kind.${kind}`)]), value => this.kind = value as ExerciseKind)}
+          ${select(t('exercise.tonality'), this.tonality, TONALITIES.map(tonality => [tonality, t(`exercise.tonality.${tonality}`)]), value => this.setTonality(value as Tonality))}
+          ${select(t('exercise.key'), this.tonic, tonics.map(tonic => [tonic, formatNote(`${tonic}4`, false)]), value => this.setTonic(value))}
+          ${select(t('exercise.start'), this.start, starts.map(({ note, label }) => [note, `${formatNote(note)} · ${label}`]), value => this.setStart(value))}
+          ${select(t('exercise.octaves'), String(this.octaves), octaveChoices.map(octaves => [String(octaves), String(octaves)]), value => this.octaves = Number(value))}
+          ${select(t('exercise.rhythm'), this.rhythm, RHYTHM_PATTERNS.map(rhythm => [rhythm, t(`exercise.rhythm.${rhythm}`)]), value => this.rhythm = value as RhythmPattern)}
+          ${select(t('exercise.bowing'), this.bowing, BOWINGS.map(bowing => [bowing, t(`exercise.bowing.${bowing}`)]), value => this.bowing = value as Bowing)}
+        </div>
+        <button class="btn btn-sm btn-primary" @click=${this.create}>
+          <span class="icon-[mdi--music-clef-treble]"></span>
+          ${t('exercise.create', { title: exerciseTitle({ kind: this.kind, tonality: this.tonality, start: this.start, octaves: this.octaves, rhythm: this.rhythm, bowing: this.bowing }) })}
+        </button>
+        <p class="text-xs text-base-content/60 mt-2">${t('exercise.opens')}</p>
+      </div>
+    `;
+  }
+}
+
+customElements.define('exercise-panel', ExercisePanel);
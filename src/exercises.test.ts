@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseOptions, exerciseTitle, generateExercise, maxOctaves, startingPositions } from './exercises';
+import { extractPracticeSteps, readMusicXml } from './musicxml';
+
+const D_MAJOR: ExerciseOptions = {
+  kind: 'scale',
+  tonality: 'major',
+  start: 'D4',
+  octaves: 1,
+  rhythm: 'quarters',
+  bowing: 'separate'
+};
+
+// The exercise as played: pitches and lengths in quarter notes
+function played(options: Partial<ExerciseOptions>) {
+  const part = readMusicXml(generateExercise({ ...D_MAJOR, ...options })).parts[0]!;
+  return extractPracticeSteps(part).map(step => ({ pitch: step.pitches[0], length: step.duration, measure: step.measureNumber }));
+}
+
+const pitches = (options: Partial<ExerciseOptions>) => played(options).map(note => note.pitch);
+
+describe('generateExercise', () => {
+  it('writes a scale up and down, ending on a note held to the bar line', () => {
+    const notes = played({});
+    expect(notes.map(note => note.pitch)).toEqual([
+      'D4', 'E4', 'F#4', 'G4', 'A4', 'B4', 'C#5', 'D5', 'C#5', 'B4', 'A4', 'G4', 'F#4', 'E4', 'D4'
+    ]);
+    expect(notes[notes.length - 1]).toEqual({ pitch: 'D4', length: 2, measure: 4 });
+  });
+
+  it('spells the notes of the key', () => {
+    expect(pitches({ start: 'Bb3' }).slice(0, 8)).toEqual(['Bb3', 'C4', 'D4', 'Eb4', 'F4', 'G4', 'A4', 'Bb4']);
+    expect(pitches({ start: 'F#4', tonality: 'harmonic-minor' }).slice(0, 8))
+      .toEqual(['F#4', 'G#4', 'A4', 'B4', 'C#5', 'D5', 'E#5', 'F#5']);
+  });
+
+  it('raises the 6th and 7th of the melodic minor only going up', () => {
+    expect(pitches({ start: 'A4', tonality: 'melodic-minor' })).toEqual([
+      'A4', 'B4', 'C5', 'D5', 'E5', 'F#5', 'G#5', 'A5', 'G5', 'F5', 'E5', 'D5', 'C5', 'B4', 'A4'
+    ]);
+  });
+
+  it('writes arpeggios over several octaves', () => {
+    expect(pitches({ kind: 'arpeggio', start: 'G3', octaves: 2 })).toEqual([
+      'G3', 'B3', 'D4', 'G4', 'B4', 'D5', 'G5', 'D5', 'B4', 'G4', 'D4', 'B3', 'G3'
+    ]);
+  });
+
+  it('plays the rhythm patterns', () => {
+    expect(played({ rhythm: 'dotted' }).slice(0, 2).map(note => note.length)).toEqual([0.75, 0.25]);
+    expect(pitches({ rhythm: 'repeated-eighths' }).slice(0, 4)).toEqual(['D4', 'D4', 'E4', 'E4']);
+  });
+
+  it('marks bowings', () => {
+    const xml = generateExercise({ ...D_MAJOR, bowing: 'slur-4' });
+    expect(xml.match(/<slur type="start"/g)).toHaveLength(4);
+    expect(xml.match(/<slur type="stop"/g)).toHaveLength(4);
+    expect(xml.match(/<down-bow\/>/g)).toHaveLength(1);
+    expect(generateExercise({ ...D_MAJOR, bowing: 'staccato' }).match(/<staccato\/>/g)).toHaveLength(14);
+  });
+
+  it('writes the key signature of the relative major for minor keys', () => {
+    expect(generateExercise({ ...D_MAJOR, start: 'B3', tonality: 'natural-minor' })).toContain('<fifths>2</fifths><mode>minor</mode>');
+  });
+});
+
+describe('exercise ranges', () => {
+  it('keeps exercises within the violin\'s range', () => {
+    expect(maxOctaves('G3')).toBe(3);
+    expect(maxOctaves('D5')).toBe(2);
+    expect(maxOctaves('E6')).toBe(1);
+  });
+
+  it('offers the tonic on each string up to 5th position', () => {
+    expect(startingPositions('A').map(position => position.note)).toEqual(['A3', 'A4', 'A4', 'A5']);
+    expect(startingPositions('A')[1]?.label).toBe('D string, 4th position');
+  });
+
+  it('names the exercise', () => {
+    expect(exerciseTitle({ ...D_MAJOR, octaves: 2 })).toBe('D Major Scale, 2 octaves');
+    expect(exerciseTitle({ ...D_MAJOR, kind: 'arpeggio', tonality: 'harmonic-minor' })).toBe('D Minor Arpeggio, 1 octave');
+  });
+});
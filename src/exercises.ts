@@ -0,0 +1,268 @@
+// Scale and arpeggio exercises, written out as MusicXML so they load like any other score.
+
+import { ParsedNote, parseNote, noteToMidi } from './tuning';
+import { t, formatNote } from './locale';
+
+export type ExerciseKind = 'scale' | 'arpeggio';
+export type Tonality = 'major' | 'natural-minor' | 'harmonic-minor' | 'melodic-minor';
+export type RhythmPattern = 'quarters' | 'eighths' | 'repeated-eighths' | 'dotted' | 'halves';
+export type Bowing = 'separate' | 'slur-2' | 'slur-4' | 'staccato';
+
+export interface ExerciseOptions {
+  kind: ExerciseKind;
+  tonality: Tonality;
+  start: string; // Tonic the exercise starts on, e.g. "Bb3"
+  octaves: number;
+  rhythm: RhythmPattern;
+  bowing: Bowing;
+}
+
+// The choices in the order offered; named exercise.<choice>.<value> in the locale catalog
+export const EXERCISE_KINDS: ExerciseKind[] = ['scale', 'arpeggio'];
+export const TONALITIES: Tonality[] = ['major', 'natural-minor', 'harmonic-minor', 'melodic-minor'];
+export const RHYTHM_PATTERNS: RhythmPattern[] = ['quarters', 'eighths', 'repeated-eighths', 'dotted', 'halves'];
+export const BOWINGS: Bowing[] = ['separate', 'slur-2', 'slur-4', 'staccato'];
+
+// Tonics offered per tonality; keys needing double sharps or flats are left out
+export const EXERCISE_TONICS: { [key in 'major' | 'minor']: string[] } = {
+  major: ['C', 'G', 'D', 'A', 'E', 'B', 'F', 'Bb', 'Eb', 'Ab', 'Db'],
+  minor: ['A', 'E', 'B', 'F#', 'C#', 'D', 'G', 'C', 'F', 'Bb']
+};
+
+export const MAX_OCTAVES = 3;
+
+// Same compass as the tuner: the open G string up to E7
+const LOWEST_NOTE = 'G3';
+const HIGHEST_NOTE = 'E7';
+
+const VIOLIN_STRINGS = ['G3', 'D4', 'A4', 'E5'];
+
+// Where the first finger is, by semitones above the open string
+const POSITIONS = [
+  'open', 'half', 'first', 'second', 'second', 'third', 'third', 'fourth', 'fifth', 'fifth'
+] as const;
+
+const TEMPO_BPM = 72;
+const DIVISIONS = 4; // Per quarter note, so sixteenths are whole numbers
+
+const LETTERS = 'CDEFGAB';
+const LETTER_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+// Semitones above the tonic of each degree within one octave, ascending
+const SCALE_SEMITONES: { [key in Tonality]: number[] } = {
+  'major': [0, 2, 4, 5, 7, 9, 11],
+  'natural-minor': [0, 2, 3, 5, 7, 8, 10],
+  'harmonic-minor': [0, 2, 3, 5, 7, 8, 11],
+  'melodic-minor': [0, 2, 3, 5, 7, 9, 11]
+};
+
+// Key signatures (sharps positive, flats negative) of the major keys; minor keys use their relative major
+const MAJOR_FIFTHS: { [tonic: string]: number } = {
+  'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5, 'F#': 6, 'C#': 7,
+  'F': -1, 'Bb': -2, 'Eb': -3, 'Ab': -4, 'Db': -5, 'Gb': -6, 'Cb': -7
+};
+
+// Note values by length in quarter notes
+const NOTE_TYPES: { [length: number]: { type: string; dot: boolean } } = {
+  0.25: { type: '16th', dot: false },
+  0.5: { type: 'eighth', dot: false },
+  0.75: { type: 'eighth', dot: true },
+  1: { type: 'quarter', dot: false },
+  2: { type: 'half', dot: false },
+  3: { type: 'half', dot: true },
+  4: { type: 'whole', dot: false }
+};
+
+// Note lengths in quarter notes, taken in turn, and how often each pitch is played
+const RHYTHMS: { [key in RhythmPattern]: { lengths: number[]; repeat: number } } = {
+  'quarters': { lengths: [1], repeat: 1 },
+  'eighths': { lengths: [0.5], repeat: 1 },
+  'repeated-eighths': { lengths: [0.5], repeat: 2 },
+  'dotted': { lengths: [0.75, 0.25], repeat: 1 },
+  'halves': { lengths: [2], repeat: 1 }
+};
+
+function isMinor(tonality: Tonality): boolean {
+  return tonality !== 'major';
+}
+
+/** The written note a number of letter steps and semitones above another, e.g. D4 + (2, 4) = F#4. */
+function transpose(note: ParsedNote, steps: number, semitones: number): ParsedNote {
+  const from = LETTERS.indexOf(note.letter);
+  const index = from + steps;
+  const letter = LETTERS[((index % 7) + 7) % 7] ?? 'C';
+  const octave = note.octave + Math.floor(index / 7);
+  const target = note.octave * 12 + (LETTER_SEMITONES[from] ?? 0) + note.alter + semitones;
+  return { letter, alter: target - (octave * 12 + (LETTER_SEMITONES[LETTERS.indexOf(letter)] ?? 0)), octave };
+}
+
+function noteName(note: ParsedNote): string {
+  return note.letter + (note.alter > 0 ? '#'.repeat(note.alter) : 'b'.repeat(-note.alter)) + note.octave;
+}
+
+function keyFifths(tonic: string, tonality: Tonality): number {
+  if (!isMinor(tonality)) return MAJOR_FIFTHS[tonic] ?? 0;
+  const relative = transpose(parseNote(`${tonic}4`) ?? { letter: 'C', alter: 0, octave: 4 }, 2, 3);
+  return MAJOR_FIFTHS[noteName(relative).slice(0, -1)] ?? 0;
+}
+
+/** Most octaves an exercise starting on this note can span without leaving the violin's range. */
+export function maxOctaves(start: string): number {
+  const midi = noteToMidi(start) ?? 0;
+  return Math.min(MAX_OCTAVES, Math.floor(((noteToMidi(HIGHEST_NOTE) ?? 0) - midi) / 12));
+}
+
+/**
+ * Where an exercise on a tonic can start: the tonic on each string, from the open string up
+ * to 5th position, labelled with the string and position.
+ */
+export function startingPositions(tonic: string): { note: string; label: string }[] {
+  const lowest = noteToMidi(LOWEST_NOTE) ?? 0;
+  const positions: { note: string; label: string }[] = [];
+  for (const string of VIOLIN_STRINGS) {
+    const open = noteToMidi(string) ?? 0;
+    for (let octave = 3; octave <= 6; octave++) {
+      const note = `${tonic}${octave}`;
+      const above = (noteToMidi(note) ?? 0) - open;
+      const position = POSITIONS[above];
+      if (position && (noteToMidi(note) ?? 0) >= lowest && maxOctaves(note) >= 1) {
+        const label = `${t('fingering.string', { string: formatNote(string, false) })}, ${t(`position.${position}`)}`;
+        positions.push({ note, label });
+      }
+    }
+  }
+  return positions;
+}
+
+// Written notes of the exercise from the bottom up and back, tonic to tonic
+function exerciseNotes(options: ExerciseOptions): ParsedNote[] {
+  const tonic = parseNote(options.start);
+  if (!tonic) throw new Error(`Invalid starting note "${options.start}"`);
+
+  const scale = SCALE_SEMITONES[options.tonality];
+  // Arpeggios play the 1st, 3rd and 5th degree
+  const degrees = options.kind === 'arpeggio' ? [0, 2, 4] : [0, 1, 2, 3, 4, 5, 6];
+  const octaveNotes = (semitones: number[]) => (octave: number) =>
+    degrees.map(degree => transpose(tonic, octave * 7 + degree, octave * 12 + (semitones[degree] ?? 0)));
+
+  const octaves = Array.from({ length: options.octaves }, (_, octave) => octave);
+  const top = transpose(tonic, options.octaves * 7, options.octaves * 12);
+  const ascending = octaves.flatMap(octaveNotes(scale));
+  // The melodic minor comes down as the natural minor
+  const downScale = options.tonality === 'melodic-minor' ? SCALE_SEMITONES['natural-minor'] : scale;
+  const descending = octaves.flatMap(octaveNotes(downScale)).reverse();
+  return [...ascending, top, ...descending];
+}
+
+interface WrittenNote {
+  note: ParsedNote;
+  length: number; // In quarter notes
+  notations: string[];
+  beam?: string; // Beam of an eighth or shorter within its beat
+  hook?: boolean; // Sixteenth beamed to the note before it
+}
+
+function noteXml({ note, length, notations, beam, hook }: WrittenNote): string {
+  const value = NOTE_TYPES[length] ?? { type: 'quarter', dot: false };
+  return `      <note>
+        <pitch><step>${note.letter}</step>${note.alter ? `<alter>${note.alter}</alter>` : ''}<octave>${note.octave}</octave></pitch>
+        <duration>${length * DIVISIONS}</duration>
+        <voice>1</voice>
+        <type>${value.type}</type>${value.dot ? '\n        <dot/>' : ''}${beam ? `
+        <beam number="1">${beam}</beam>` : ''}${hook ? `
+        <beam number="2">backward hook</beam>` : ''}${notations.length > 0 ? `
+        <notations>${notations.join('')}</notations>` : ''}
+      </note>\n`;
+}
+
+/** A title for the exercise, e.g. "D Major Scale, 2 octaves". */
+export function exerciseTitle(options: ExerciseOptions): string {
+  const count = options.octaves;
+  // Arpeggios are the same for every kind of minor
+  const tonality = options.kind === 'arpeggio' && isMinor(options.tonality) ? 'minor' : options.tonality;
+  return t(`exercise.title.${options.kind}`, {
+    tonic: formatNote(options.start, false),
+    tonality: t(`exercise.titleTonality.${tonality}`),
+    octaves: t(count === 1 ? 'exercise.oneOctave' : 'exercise.octaveCount', { count })
+  });
+}
+
+/** Write the exercise as a one-part MusicXML score in 4/4. */
+export function generateExercise(options: ExerciseOptions): string {
+  const { lengths, repeat } = RHYTHMS[options.rhythm];
+  const pitches = exerciseNotes(options);
+  const last = pitches.pop();
+  const played = pitches.flatMap(note => Array.from({ length: repeat }, () => note));
+
+  const written: WrittenNote[] = played.map((note, i) => ({ note, length: lengths[i % lengths.length] ?? 1, notations: [] }));
+  // Every pattern fills whole beats, so the last note starts on a beat and is held to the bar line
+  const filled = written.reduce((total, note) => total + note.length, 0) % 4;
+  if (last) {
+    written.push({ note: last, length: 4 - filled, notations: [] });
+  }
+
+  const slurLength = options.bowing === 'slur-2' ? 2 : options.bowing === 'slur-4' ? 4 : 1;
+  written.forEach((note, i) => {
+    const isLast = i === written.length - 1;
+    if (i === 0) note.notations.push('<technical><down-bow/></technical>');
+    if (options.bowing === 'staccato' && !isLast) note.notations.push('<articulations><staccato/></articulations>');
+    // The last note always gets a bow of its own
+    if (slurLength > 1 && !isLast) {
+      const inGroup = i % slurLength;
+      const groupEnd = Math.min(i - inGroup + slurLength, written.length - 1) - 1;
+      if (inGroup === 0 && groupEnd > i) note.notations.push('<slur type="start" number="1"/>');
+      if (i === groupEnd && inGroup > 0) note.notations.push('<slur type="stop" number="1"/>');
+    }
+  });
+
+  // Beam the short notes of each beat together and split the notes into measures
+  const measures: WrittenNote[][] = [[]];
+  let position = 0;
+  for (let i = 0; i < written.length; i++) {
+    const note = written[i]!;
+    if (position > 0 && position % 4 === 0) measures.push([]);
+    measures[measures.length - 1]!.push(note);
+
+    const beat = Math.floor(position);
+    if (note.length < 1) {
+      const previous = written[i - 1];
+      const next = written[i + 1];
+      const beamedBefore = !!previous && previous.length < 1 && Math.floor(position - previous.length) === beat;
+      const beamedAfter = !!next && next.length < 1 && Math.floor(position + note.length) === beat;
+      note.beam = beamedBefore && beamedAfter ? 'continue' : beamedBefore ? 'end' : beamedAfter ? 'begin' : undefined;
+      note.hook = note.length === 0.25 && beamedBefore;
+    }
+    position += note.length;
+  }
+
+  const title = exerciseTitle(options);
+  const mode = isMinor(options.tonality) ? 'minor' : 'major';
+  const fifths = keyFifths(options.start.replace(/-?\d+$/, ''), options.tonality);
+
+  const measureXml = measures.map((notes, i) => `    <measure number="${i + 1}">
+${i === 0 ? `      <attributes>
+        <divisions>${DIVISIONS}</divisions>
+        <key><fifths>${fifths}</fifths><mode>${mode}</mode></key>
+        <time><beats>4</beats><beat-type>4</beat-type></time>
+        <clef><sign>G</sign><line>2</line></clef>
+      </attributes>
+      <direction placement="above">
+        <direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${TEMPO_BPM}</per-minute></metronome></direction-type>
+        <sound tempo="${TEMPO_BPM}"/>
+      </direction>
+` : ''}${notes.map(noteXml).join('')}${i === measures.length - 1 ? `      <barline location="right"><bar-style>light-heavy</bar-style></barline>
+` : ''}    </measure>
+`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+  <work><work-title>${title}</work-title></work>
+  <part-list>
+    <score-part id="P1"><part-name>Violin</part-name></score-part>
+  </part-list>
+  <part id="P1">
+${measureXml}  </part>
+</score-partwise>
+`;
+}
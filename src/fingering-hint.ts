@@ -0,0 +1,125 @@
+import { LitElement, html, svg } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import { OPEN_STRINGS } from './open-strings';
+import { LocaleController, t, formatNote } from './locale';
+import {
+  FingeringHint as Hint,
+  FingeringMarks,
+  FingeringSettings,
+  HandPosition,
+  HAND_POSITIONS,
+  loadFingeringSettings,
+  saveFingeringSettings,
+  suggestFingering
+} from './fingering';
+
+// Fingerboard diagram layout: strings G to E from left to right, the nut at the top
+const STRING_X = [20, 45, 70, 95];
+const NUT_Y = 24;
+const SEMITONE_HEIGHT = 14;
+const SEMITONES_SHOWN = 11;
+// Where beginners' tapes usually go: 1st finger, high 2nd, 3rd and 4th finger in first position
+const TAPES = [2, 4, 5, 7];
+
+/** Where to play the given notes: string and finger, with an optional fingerboard diagram. */
+export class FingeringHint extends LitElement {
+  // The notes to show, e.g. both notes of a double stop, with any marks written in the score.
+  // Compared by value, as parents build the list on every render.
+  @property({ attribute: false, hasChanged: (value, old) => JSON.stringify(value) !== JSON.stringify(old) })
+  notes: { pitch: string; marks?: FingeringMarks }[] = [];
+
+  @state()
+  private settings: FingeringSettings = loadFingeringSettings();
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  private updateSettings(changes: Partial<FingeringSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    saveFingeringSettings(this.settings);
+  }
+
+  // e.g. "A string, 2nd finger (3rd position)"
+  private describe(hint: Hint): string {
+    const string = t('fingering.string', { string: formatNote(hint.string, false) });
+    if (hint.finger === 0) return t('fingering.open', { string });
+    if (hint.finger === null) return t('fingering.higher', { string });
+    const finger = t(`finger.${hint.finger as 1 | 2 | 3 | 4}`);
+    return hint.position
+      ? t('fingering.stoppedIn', { string, finger, position: t(`position.${hint.position}`) })
+      : t('fingering.stopped', { string, finger });
+  }
+
+  private renderDiagram(hints: Hint[]) {
+    const bottom = NUT_Y + SEMITONES_SHOWN * SEMITONE_HEIGHT;
+    return html`
+      <svg viewBox="0 0 115 ${bottom + 8}" class="w-28 mx-auto mt-2" aria-hidden="true">
+        ${TAPES.map(semitones => svg`
+          <line x1="10" x2="105" y1=${NUT_Y + semitones * SEMITONE_HEIGHT} y2=${NUT_Y + semitones * SEMITONE_HEIGHT}
+            stroke="currentColor" stroke-opacity="0.15" stroke-width="3" />
+        `)}
+        <line x1="10" x2="105" y1=${NUT_Y} y2=${NUT_Y} stroke="currentColor" stroke-width="4" />
+        ${OPEN_STRINGS.map((string, i) => svg`
+          <line x1=${STRING_X[i]} x2=${STRING_X[i]} y1=${NUT_Y} y2=${bottom} stroke="currentColor" stroke-opacity="0.6" />
+          <text x=${STRING_X[i]} y="10" font-size="9" text-anchor="middle" fill="currentColor" fill-opacity="0.6">${formatNote(string, false)}</text>
+        `)}
+        ${hints.filter(hint => hint.semitones <= SEMITONES_SHOWN).map(hint => {
+          const x = STRING_X[OPEN_STRINGS.indexOf(hint.string)] ?? 0;
+          // Open strings are marked just above the nut, fingers just behind the note's spot
+          const y = hint.finger === 0 ? NUT_Y - 7 : NUT_Y + (hint.semitones - 0.5) * SEMITONE_HEIGHT;
+          return svg`
+            <circle cx=${x} cy=${y} r="6" fill=${hint.finger === 0 ? 'none' : '#4f46e5'} stroke="#4f46e5" stroke-width="1.5" />
+            <text x=${x} y=${y + 3} font-size="8" text-anchor="middle" fill=${hint.finger === 0 ? '#4f46e5' : 'white'}>${hint.finger ?? ''}</text>
+          `;
+        })}
+      </svg>
+    `;
+  }
+
+  render() {
+    const hints = this.notes.map(({ pitch, marks }) => ({
+      pitch,
+      hint: suggestFingering(pitch, this.settings.position, marks)
+    }));
+    const shown = hints.flatMap(({ hint }) => hint ? [hint] : []);
+
+    return html`
+      <div class="text-sm">
+        ${hints.map(({ pitch, hint }) => html`
+          <div>
+            ${hints.length > 1 ? html`<span class="font-bold">${formatNote(pitch)}:</span>` : ''}
+            ${hint ? this.describe(hint) : t('fingering.beyond')}
+            ${hint?.fromScore ? html`<span class="badge badge-ghost badge-sm">${t('fingering.fromScore')}</span>` : ''}
+          </div>
+        `)}
+        <div class="flex justify-center items-center gap-2 mt-2">
+          <select
+            class="select select-bordered select-xs"
+            title=${t('fingering.positionTitle')}
+            @change=${(e: Event) => this.updateSettings({ position: (e.target as HTMLSelectElement).value as HandPosition })}>
+            ${HAND_POSITIONS.map(position => html`
+              <option value=${position} ?selected=${position === this.settings.position}>${t(`position.${position}`)}</option>
+            `)}
+          </select>
+          <button
+            class="btn btn-xs ${this.settings.showDiagram ? 'btn-active' : 'btn-ghost'}"
+            title=${t('fingering.diagramTitle')}
+            @click=${() => this.updateSettings({ showDiagram: !this.settings.showDiagram })}>
+            <span class="icon-[mdi--violin]"></span>
+            ${t('fingering.diagram')}
+          </button>
+        </div>
+        ${this.settings.showDiagram && shown.length > 0 ? this.renderDiagram(shown) : ''}
+      </div>
+    `;
+  }
+}
+
+customElements.define('fingering-hint', FingeringHint);
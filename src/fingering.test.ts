@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { FingeringHint, parseFingeringMarks, suggestFingering } from './fingering';
+
+// String and finger of a suggestion, e.g. "A4 2"
+const where = (hint: FingeringHint | null) => hint && `${hint.string} ${hint.finger ?? '-'}`;
+
+describe('suggestFingering', () => {
+  it('uses open strings in first position', () => {
+    expect(suggestFingering('A4', 'first')).toEqual({ string: 'A4', finger: 0, semitones: 0, position: null, fromScore: false });
+    expect(where(suggestFingering('E5', 'first'))).toBe('E5 0');
+  });
+
+  it('picks the finger for each note in first position', () => {
+    expect(['B4', 'C5', 'C#5', 'D5'].map(note => where(suggestFingering(note, 'first'))))
+      .toEqual(['A4 1', 'A4 2', 'A4 2', 'A4 3']);
+    expect(where(suggestFingering('G#3', 'first'))).toBe('G3 1');
+    expect(suggestFingering('C#5', 'first')?.semitones).toBe(4);
+  });
+
+  it('prefers a stopped note over an open string in third position', () => {
+    const hint = suggestFingering('A4', 'third');
+    expect(hint).toEqual({ string: 'D4', finger: 2, semitones: 7, position: 'third', fromScore: false });
+    expect(where(suggestFingering('D5', 'third'))).toBe('A4 1');
+  });
+
+  it('reaches notes too high for first position from third position', () => {
+    const hint = suggestFingering('C6', 'first');
+    expect(where(hint)).toBe('E5 3');
+    expect(hint?.position).toBe('third');
+  });
+
+  it('finds nothing below the G string or beyond third position', () => {
+    expect(suggestFingering('F3', 'first')).toBeNull();
+    expect(suggestFingering('E6', 'third')).toBeNull();
+  });
+
+  it('follows a string marked in the score', () => {
+    const hint = suggestFingering('E5', 'first', { finger: null, string: 'A4' });
+    expect(hint).toEqual({ string: 'A4', finger: 4, semitones: 7, position: 'first', fromScore: true });
+  });
+
+  it('picks the string a marked finger fits on', () => {
+    expect(where(suggestFingering('A4', 'first', { finger: 4, string: null }))).toBe('D4 4');
+    // A marked finger that fits no string is still shown
+    expect(suggestFingering('A4', 'first', { finger: 2, string: null })).toMatchObject({ string: 'A4', finger: 2, fromScore: true });
+  });
+});
+
+describe('parseFingeringMarks', () => {
+  it('reads fingers and MusicXML string numbers', () => {
+    expect(parseFingeringMarks(' 3 ', '2')).toEqual({ finger: 3, string: 'A4' });
+    expect(parseFingeringMarks('0', '4')).toEqual({ finger: 0, string: 'G3' });
+  });
+
+  it('ignores marks it can\'t use', () => {
+    expect(parseFingeringMarks('5', '7')).toEqual({ finger: null, string: null });
+    expect(parseFingeringMarks(undefined, 'I')).toEqual({ finger: null, string: null });
+  });
+});
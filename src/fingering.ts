@@ -0,0 +1,123 @@
+// Fingering hints: which string and finger to play a note with, in first or third position,
+// taking fingering and string marks written in the score into account.
+
+import { noteToMidi } from './tuning';
+import { OPEN_STRINGS, OpenString } from './open-strings';
+
+export type HandPosition = 'first' | 'third';
+
+export const HAND_POSITIONS: HandPosition[] = ['first', 'third'];
+
+// Semitones above the open string where the 1st finger sits in each position
+const FIRST_FINGER: { [key in HandPosition]: number } = {
+  first: 2,
+  third: 5
+};
+
+// Finger for each semitone from a half step below the 1st finger up to the 4th finger, e.g. in
+// first position on the A string: Bb B C C# D D# E
+const FINGERS = [1, 1, 2, 2, 3, 3, 4];
+
+// MusicXML numbers strings from the highest: 1 is the E string
+const STRING_NUMBERS: { [key: number]: OpenString } = { 1: 'E5', 2: 'A4', 3: 'D4', 4: 'G3' };
+
+export interface FingeringMarks {
+  finger: number | null; // 0 for an open string
+  string: OpenString | null;
+}
+
+export interface FingeringHint {
+  string: OpenString;
+  finger: number | null; // 0 for an open string; null when the note is out of reach of the position
+  semitones: number; // Above the open string, where the finger goes on the fingerboard
+  position: HandPosition | null; // Position the finger belongs to; null for open strings or out of reach
+  fromScore: boolean; // Whether a mark in the score chose the string or finger
+}
+
+/** Fingering and string marks of a note read from MusicXML text, ignoring anything unreadable. */
+export function parseFingeringMarks(finger: string | undefined, string: string | undefined): FingeringMarks {
+  const fingerNumber = Number.parseInt(finger?.trim() ?? '', 10);
+  return {
+    finger: fingerNumber >= 0 && fingerNumber <= 4 ? fingerNumber : null,
+    string: STRING_NUMBERS[Number.parseInt(string?.trim() ?? '', 10)] ?? null
+  };
+}
+
+// Finger for a stopped note in a position, or null if the hand can't reach it from there
+function fingerIn(semitones: number, position: HandPosition): number | null {
+  return FINGERS[semitones - FIRST_FINGER[position] + 1] ?? null;
+}
+
+function hintOn(string: OpenString, semitones: number, position: HandPosition): FingeringHint | null {
+  if (semitones < 0) return null;
+  if (semitones === 0) {
+    return { string, finger: 0, semitones, position: null, fromScore: false };
+  }
+  // Reach the note from the chosen position, or from the other one if only that works
+  for (const candidate of [position, position === 'first' ? 'third' : 'first'] as HandPosition[]) {
+    const finger = fingerIn(semitones, candidate);
+    if (finger !== null) {
+      return { string, finger, semitones, position: candidate, fromScore: false };
+    }
+  }
+  return { string, finger: null, semitones, position: null, fromScore: false };
+}
+
+// Semitones of a note above each open string, lowest string first
+function semitonesAbove(note: string): { string: OpenString; semitones: number }[] {
+  const midi = noteToMidi(note);
+  if (midi === null) return [];
+  return OPEN_STRINGS.map(string => ({ string, semitones: midi - (noteToMidi(string) ?? 0) }));
+}
+
+/**
+ * Suggest how to play a note. In first position the highest string that reaches the note is
+ * used, so open strings win over 4th fingers. In third position a stopped note is preferred
+ * over an open string. A string marked in the score is always used; a marked finger picks the
+ * string it fits on. Returns null for notes below the G string or too high for third position.
+ */
+export function suggestFingering(note: string, position: HandPosition, marks?: FingeringMarks): FingeringHint | null {
+  const strings = semitonesAbove(note);
+  const markedFinger = marks?.finger ?? null;
+
+  if (marks?.string) {
+    const semitones = strings.find(({ string }) => string === marks.string)?.semitones ?? -1;
+    const hint = hintOn(marks.string, semitones, position);
+    return hint && { ...hint, finger: markedFinger ?? hint.finger, fromScore: true };
+  }
+
+  const hints = strings
+    .map(({ string, semitones }) => hintOn(string, semitones, position))
+    .filter((hint): hint is FingeringHint => hint !== null && hint.finger !== null)
+    .reverse();
+
+  if (markedFinger !== null) {
+    const marked = hints.find(hint => hint.finger === markedFinger);
+    if (marked) return { ...marked, fromScore: true };
+  }
+
+  const stopped = hints.filter(hint => hint.position === position);
+  const open = hints.find(hint => hint.finger === 0);
+  const hint = (position === 'third' ? stopped[0] ?? open : open ?? stopped[0]) ?? hints[0] ?? null;
+  return hint && markedFinger !== null ? { ...hint, finger: markedFinger, fromScore: true } : hint;
+}
+
+export interface FingeringSettings {
+  position: HandPosition;
+  showDiagram: boolean; // Whether the fingerboard diagram is shown with the hint
+}
+
+const STORAGE_KEY = 'violin-companion-fingering';
+
+export function loadFingeringSettings(): FingeringSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<FingeringSettings>;
+    return { position: saved.position === 'third' ? 'third' : 'first', showDiagram: saved.showDiagram === true };
+  } catch {
+    return { position: 'first', showDiagram: false };
+  }
+}
+
+export function saveFingeringSettings(settings: FingeringSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,99 @@
+// Per-note intonation statistics for practice mode.
+
+import { TuningSettings, noteToFrequency, centsBetween } from './tuning';
+
+export type IntonationQuality = 'good' | 'fair' | 'poor';
+
+export interface NoteIntonation {
+  noteIndex: number;
+  samples: number; // Pitch frames recorded while the note sounded
+  attempts: number; // Onsets detected while this note was the one to play
+  averageCents: number; // Signed: positive is sharp, negative is flat
+  stabilityCents: number; // Standard deviation of the cents samples
+}
+
+// Within this many cents a note is considered in tune
+export const IN_TUNE_CENTS = 10;
+
+export interface TuningCheck {
+  cents: number; // Signed: positive is sharp, negative is flat
+  inTune: boolean;
+}
+
+/** How far a frequency is from a note in the given tuning, or null if the note can't be named. */
+export function checkTuning(frequency: number, note: string, tuning: TuningSettings): TuningCheck | null {
+  const target = noteToFrequency(note, tuning);
+  if (!target) return null;
+  const cents = centsBetween(frequency, target);
+  return { cents, inTune: Math.abs(cents) < IN_TUNE_CENTS };
+}
+
+// Average deviation limit for the middle quality band
+const FAIR_CENTS = 25;
+
+export function intonationQuality(stats: NoteIntonation): IntonationQuality {
+  const deviation = Math.abs(stats.averageCents);
+  if (deviation < IN_TUNE_CENTS) return 'good';
+  if (deviation < FAIR_CENTS) return 'fair';
+  return 'poor';
+}
+
+interface RunningStats {
+  samples: number;
+  attempts: number;
+  mean: number;
+  m2: number; // Sum of squared differences from the mean (Welford's algorithm)
+}
+
+export class IntonationTracker {
+  private stats = new Map<number, RunningStats>();
+
+  reset(): void {
+    this.stats.clear();
+  }
+
+  addAttempt(noteIndex: number): void {
+    this.get(noteIndex).attempts++;
+  }
+
+  addSample(noteIndex: number, cents: number): void {
+    const stats = this.get(noteIndex);
+    stats.samples++;
+    const delta = cents - stats.mean;
+    stats.mean += delta / stats.samples;
+    stats.m2 += delta * (cents - stats.mean);
+  }
+
+  /** Results for every note that has at least one pitch sample, in score order. */
+  getResults(): NoteIntonation[] {
+    return [...this.stats.entries()]
+      .filter(([, stats]) => stats.samples > 0)
+      .sort(([a], [b]) => a - b)
+      .map(([noteIndex, stats]) => ({
+        noteIndex,
+        samples: stats.samples,
+        attempts: stats.attempts,
+        averageCents: stats.mean,
+        stabilityCents: stats.samples > 1 ? Math.sqrt(stats.m2 / (stats.samples - 1)) : 0
+      }));
+  }
+
+  /** Notes ordered from hardest to easiest to play in tune. */
+  getHardestNotes(count: number): NoteIntonation[] {
+    const difficulty = (result: NoteIntonation) =>
+      Math.abs(result.averageCents) + result.stabilityCents + (result.attempts - 1) * 5;
+    return this.getResults()
+      .filter(result => intonationQuality(result) !== 'good' || result.attempts > 1)
+      .sort((a, b) => difficulty(b) - difficulty(a))
+      .slice(0, count);
+  }
+
+  private get(noteIndex: number): RunningStats {
+    let stats = this.stats.get(noteIndex);
+    if (!stats) {
+      stats = { samples: 0, attempts: 0, mean: 0, m2: 0 };
+      this.stats.set(noteIndex, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,1448 @@
+// Language of the interface and how note names are written: English letters, fixed-do
+// solfège or German names (H for B, B for B flat).
+
+import { ReactiveController, ReactiveControllerHost } from 'lit';
+import { parseNote } from './tuning';
+
+export type Language = 'en' | 'de' | 'fr' | 'es';
+
+export type NoteNaming = 'english' | 'solfege' | 'german';
+
+export interface LocaleSettings {
+  language: Language;
+  naming: NoteNaming;
+}
+
+export const LANGUAGE_LABELS: { [key in Language]: string } = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español'
+};
+
+// Note names most families using each language learned
+const DEFAULT_NAMING: { [key in Language]: NoteNaming } = {
+  en: 'english',
+  de: 'german',
+  fr: 'solfege',
+  es: 'solfege'
+};
+
+const en = {
+  'mode.tuner': 'Tuner Mode',
+  'mode.strings': 'String Tuning',
+  'mode.practice': 'Practice Mode',
+  'mode.ear': 'Ear Training',
+  'listen.start': 'Start Listening',
+  'listen.stop': 'Stop',
+  'listen.on': 'Listening...',
+  'listen.off': 'Not listening',
+  'listen.prompt': 'Play a note on your violin',
+  'listen.clarity': 'Clarity: {value}%',
+  'tuner.target': 'Target Note: {note}',
+  'tuner.hear': 'Hear the target note',
+  'drone.label': 'Drone',
+  'drone.start': 'Start drone',
+  'drone.stop': 'Stop drone',
+  'settings.language': 'Language',
+  'settings.naming': 'Note names',
+  'naming.english': 'C D E',
+  'naming.solfege': 'Do Re Mi',
+  'naming.german': 'C D E … H (German)',
+  'section.recording': 'Analyze a recording',
+  'section.history': 'Practice history',
+  'sheet.currentNote': 'Current Note:',
+  'sheet.noteOf': 'Note {index} of {total}',
+  'strings.title': 'Tune Your Strings',
+  'strings.startOver': 'Start over',
+  'strings.prompt': 'Bow one open string at a time',
+  'strings.inTune': 'The {string} string is in tune. Keep bowing!',
+  'strings.peg': 'Use the peg: turn it a tiny bit and push it in',
+  'strings.fineTuner': 'Use the fine tuner',
+  'strings.tighten': 'Tighten it, the string is too low',
+  'strings.loosen': 'Loosen it, the string is too high',
+  'strings.advice': '{string} string: {direction}',
+  'strings.allDone': 'All four strings are in tune!',
+  'ear.title': 'Ear Training',
+  'ear.level': 'Level',
+  'ear.level.open-strings': 'Open strings',
+  'ear.level.single-notes': 'Single notes',
+  'ear.level.steps': 'Steps',
+  'ear.level.intervals': 'Intervals',
+  'ear.level.three-notes': 'Three-note motifs',
+  'ear.level.four-notes': 'Four-note motifs',
+  'ear.level.five-notes': 'Five-note motifs',
+  'ear.oneNote': 'One note from {lowest} to {highest}.',
+  'ear.notes': '{count} notes from {lowest} to {highest}.',
+  'ear.streak': '{count} right in a row.',
+  'ear.start': 'Start',
+  'ear.newPhrase': 'New phrase',
+  'ear.hearAgain': 'Hear again',
+  'ear.intro': 'Press New phrase, listen, then play it back on your violin',
+  'ear.listen': 'Listen…',
+  'ear.yourTurn': 'Your turn: play it back',
+  'ear.micOff': 'Turn on the microphone to play it back',
+  'ear.wellDone': 'Well done!',
+  'ear.notQuite': 'Not quite. Hear it again or try a new phrase.',
+  'ear.youPlayed': 'You played {note}',
+  'ear.inTune': 'In tune',
+  'ear.cents': '{cents} cents',
+  'ear.hintNote': 'Phrases solved after hearing them again don\'t count towards the next level',
+  'fingering.string': '{string} string',
+  'fingering.open': '{string}, open',
+  'fingering.stopped': '{string}, {finger}',
+  'fingering.stoppedIn': '{string}, {finger} ({position})',
+  'fingering.higher': '{string}, higher position',
+  'fingering.beyond': 'Beyond 3rd position',
+  'fingering.fromScore': 'from the score',
+  'fingering.positionTitle': 'Hand position used for suggestions',
+  'fingering.diagram': 'Fingerboard',
+  'fingering.diagramTitle': 'Show where the finger goes on the fingerboard',
+  'finger.1': '1st finger',
+  'finger.2': '2nd finger',
+  'finger.3': '3rd finger',
+  'finger.4': '4th finger',
+  'position.first': '1st position',
+  'position.third': '3rd position',
+  'detection.summary': 'Detection: above {volume} dB · clarity {clarity}%',
+  'detection.calibrate': 'Calibrate noise',
+  'detection.stayQuiet': 'Stay quiet…',
+  'detection.calibrating': 'Stay quiet for {seconds} seconds while the room noise is measured.',
+  'detection.calibrated': 'Noise floor {floor} dB; notes are detected above {volume} dB.',
+  'detection.noiseFloor': 'Noise floor {floor} dB',
+  'detection.inputGain': 'Input gain: +{value} dB',
+  'detection.volume': 'Volume threshold: {value} dB',
+  'detection.clarity': 'Clarity threshold: {value}%',
+  'detection.smoothing': 'Note smoothing',
+  'detection.frames': 'Frames',
+  'detection.octaveCorrection': 'Correct octave jumps',
+  'detection.reset': 'Reset',
+  'smoothing.off': 'Off',
+  'smoothing.median': 'Median filter',
+  'smoothing.hysteresis': 'Hold before switching',
+  'input.device': 'Microphone',
+  'input.default': 'Default microphone',
+  'input.numbered': 'Microphone {number}',
+  'input.level': 'Input level',
+  'input.threshold': 'Detection threshold',
+  'input.retry': 'Try again',
+  'microphone.denied': 'Microphone access was blocked. Allow the microphone for this site in the browser\'s address bar, then try again.',
+  'microphone.no-device': 'No microphone was found. Plug one in and listening will start by itself.',
+  'microphone.device-lost': 'The microphone was disconnected. Listening will resume when it is plugged back in.',
+  'microphone.unavailable': 'The microphone could not be started. It may be in use by another app.',
+  'tuning.summary': 'Tuning: A4 = {frequency} Hz · {temperament}',
+  'tuning.inKey': 'in {key}',
+  'tuning.reference': 'Reference A4 (Hz)',
+  'tuning.temperament': 'Temperament',
+  'tuning.key': 'Key',
+  'temperament.equal': 'Equal temperament',
+  'temperament.pythagorean': 'Pythagorean (pure fifths)',
+  'temperament.just': 'Just intonation',
+  'help.title': 'How to use:',
+  'help.start': 'Click "{button}" to allow microphone access',
+  'help.target': 'Select a target note you want to practice',
+  'help.play': 'Play that note on your violin',
+  'help.result': 'The app will show you the detected pitch and if you\'re in tune (green = in tune)',
+  'help.gauge': 'The needle and the graph show how many cents sharp or flat you are, and which way to move',
+  'help.hear': 'Press the speaker to hear the target note, or start a drone to play along with',
+  'section.followsScore': 'follows the loaded score',
+  'exercise.kind': 'Exercise',
+  'exercise.tonality': 'Tonality',
+  'exercise.key': 'Key',
+  'exercise.start': 'Start on',
+  'exercise.octaves': 'Octaves',
+  'exercise.rhythm': 'Rhythm',
+  'exercise.bowing': 'Bowing',
+  'exercise.create': 'Create {title}',
+  'exercise.opens': 'The exercise opens in the sheet below and is saved to your library.',
+  'exercise.kind.scale': 'Scale',
+  'exercise.kind.arpeggio': 'Arpeggio',
+  'exercise.tonality.major': 'Major',
+  'exercise.tonality.natural-minor': 'Natural minor',
+  'exercise.tonality.harmonic-minor': 'Harmonic minor',
+  'exercise.tonality.melodic-minor': 'Melodic minor',
+  'exercise.rhythm.quarters': 'Quarter notes',
+  'exercise.rhythm.eighths': 'Eighth notes',
+  'exercise.rhythm.repeated-eighths': 'Each note twice (eighths)',
+  'exercise.rhythm.dotted': 'Dotted (long-short)',
+  'exercise.rhythm.halves': 'Half notes (long bows)',
+  'exercise.bowing.separate': 'Separate bows',
+  'exercise.bowing.slur-2': 'Two notes per bow',
+  'exercise.bowing.slur-4': 'Four notes per bow',
+  'exercise.bowing.staccato': 'Staccato',
+  'exercise.title.scale': '{tonic} {tonality} Scale, {octaves}',
+  'exercise.title.arpeggio': '{tonic} {tonality} Arpeggio, {octaves}',
+  'exercise.titleTonality.major': 'Major',
+  'exercise.titleTonality.natural-minor': 'Natural minor',
+  'exercise.titleTonality.harmonic-minor': 'Harmonic minor',
+  'exercise.titleTonality.melodic-minor': 'Melodic minor',
+  'exercise.titleTonality.minor': 'Minor',
+  'exercise.oneOctave': '{count} octave',
+  'exercise.octaveCount': '{count} octaves',
+  'position.open': 'open',
+  'position.half': 'half position',
+  'position.second': '2nd position',
+  'position.fourth': '4th position',
+  'position.fifth': '5th position',
+  'dialog.cancel': 'Cancel',
+  'dialog.delete': 'Delete',
+  'duration.underMinute': '<1 min',
+  'duration.minutes': '{minutes} min',
+  'duration.hours': '{hours} h {minutes} min',
+  'history.mode.tuner': 'Tuner',
+  'history.mode.strings': 'String tuning',
+  'history.mode.practice': 'Practice',
+  'history.mode.ear': 'Ear training',
+  'history.empty': 'No practice recorded yet. A session is saved each time you stop listening.',
+  'history.today': 'Today',
+  'history.week': 'Last 7 days',
+  'history.streak': 'Streak',
+  'history.oneDay': '{count} day',
+  'history.days': '{count} days',
+  'history.longest': 'Longest: {days}',
+  'history.sessions': 'Sessions',
+  'history.daily': 'Daily practice, last {days} days',
+  'history.pieces': 'Pieces',
+  'history.noPieces': 'Practice a score in Practice Mode to track it here.',
+  'history.piece': 'Piece',
+  'history.time': 'Time',
+  'history.completion': 'Completion',
+  'history.best': 'Best',
+  'history.completionTitle': 'Share of the piece reached in each session',
+  'history.outOfTuneNotes': 'Notes most often out of tune',
+  'history.notEnoughNotes': 'Not enough notes heard yet.',
+  'history.frames': '{count} pitch frames heard',
+  'history.outOfTune': '{share}% out of tune, {cents}¢',
+  'history.recent': 'Recent sessions',
+  'history.notesPlayed': '{title}: {count} notes played',
+  'history.stoppedAt': 'stopped at measure {measure}, beat {beat}',
+  'history.export': 'Export',
+  'history.clear': 'Clear history',
+  'history.clearConfirm': 'Delete the whole practice history? This cannot be undone. Export it first to keep a copy.',
+  'history.local': 'The history is stored only in this browser.',
+  'metronome.start': 'Metronome',
+  'metronome.stop': 'Stop',
+  'metronome.beats': 'Beats',
+  'metronome.subdivision.1': 'Beats',
+  'metronome.subdivision.2': 'Eighths',
+  'metronome.subdivision.3': 'Triplets',
+  'metronome.subdivision.4': 'Sixteenths',
+  'metronome.accent': 'Accent beat 1',
+  'recording.open': 'Open recording',
+  'recording.failed': 'The recording could not be analyzed.',
+  'recording.undecodable': '"{file}" could not be decoded. Use a WAV, OGG or MP3 file.',
+  'recording.detected': '{count} notes detected in {seconds} s',
+  'recording.followed': 'followed {matched} of {total} score notes with {wrong} wrong',
+  'recording.noteTitle': '{note} at {seconds} s, {cents} cents',
+  'library.sort.title': 'Title',
+  'library.sort.composer': 'Composer',
+  'library.sort.difficulty': 'Difficulty',
+  'library.sort.lastPracticed': 'Last practiced',
+  'library.sort.added': 'Recently added',
+  'library.search': 'Search title, composer or tag',
+  'library.noMatch': 'No scores match your search',
+  'library.tags': 'Tags',
+  'library.addTags': 'Add tags',
+  'library.never': 'Never',
+  'library.builtIn': 'built-in',
+  'library.difficultyLevel': 'Difficulty {level}',
+  'library.rename': 'Rename',
+  'library.delete': 'Delete score',
+  'library.deleteConfirm': 'Remove "{title}" from the library? Its bookmarks are deleted too.',
+  'sheet.title': 'Music Sheet',
+  'sheet.untitled': 'Untitled',
+  'sheet.by': 'by {composer}',
+  'sheet.library': 'Library',
+  'sheet.exercises': 'Exercises',
+  'sheet.openFile': 'Open file',
+  'sheet.import': 'Import',
+  'sheet.drop': 'Drop MusicXML file here',
+  'sheet.empty': 'Drag and drop a MusicXML file here',
+  'sheet.emptyHint': 'or open a file, import from a URL, or select a sample song above',
+  'sheet.loadFailed': 'Failed to load music sheet. Please try another file.',
+  'sheet.readFailed': 'Failed to read the score.',
+  'sheet.unsupported': 'OpenSheetMusicDisplay could not read "{file}". The MusicXML may use features it does not support.',
+  'sheet.noNotes': '"{file}" has no playable notes.',
+  'sheet.practice': 'Practice',
+  'sheet.part': 'Part {number}',
+  'sheet.allVoices': 'All voices',
+  'sheet.voice': 'Voice {number}',
+  'sheet.prev': 'Prev Note',
+  'sheet.next': 'Next Note',
+  'sheet.reset': 'Reset',
+  'sheet.listen': 'Listen',
+  'sheet.stopPlayback': 'Stop Playback',
+  'sheet.measure': 'Measure',
+  'sheet.average': 'Average',
+  'bookmark.name': 'Bookmark name',
+  'bookmark.add': 'Bookmark',
+  'bookmark.list': 'Bookmarks ({count})',
+  'bookmark.position': 'm. {measure}, beat {beat}',
+  'bookmark.delete': 'Delete bookmark',
+  'bookmark.default': 'Measure {measure}',
+  'loop.title': 'Section Loop',
+  'loop.from': 'From measure',
+  'loop.to': 'To measure',
+  'loop.repeats': 'Repeats',
+  'loop.startTempo': 'Start tempo %',
+  'loop.ramp': 'Speed up % per clean pass',
+  'loop.start': 'Start Loop',
+  'loop.stop': 'Stop Loop',
+  'loop.progress': 'Pass {pass} of {repeats} at {tempo} BPM',
+  'loop.clean': '{clean} of {passes} passes clean',
+  'loop.noNotes': 'There are no notes to play in those measures.',
+  'loop.pass': 'Pass',
+  'loop.tempo': 'Tempo',
+  'loop.mistakes': 'Wrong notes',
+  'loop.time': 'Time',
+  'timing.toggle': 'Timed play-along',
+  'timing.start': 'Start with count-in',
+  'timing.title': 'Timing by measure',
+  'timing.early': 'Early',
+  'timing.onTime': 'On time',
+  'timing.late': 'Late',
+  'timing.earlyBy': 'Early by {ms} ms',
+  'timing.lateBy': 'Late by {ms} ms',
+  'report.title': 'Intonation Report Card',
+  'report.inTune': '{inTune} of {total} notes in tune',
+  'report.legend': '(green = within 10¢, yellow = within 25¢, red = further off)',
+  'report.practice': 'Notes to practice',
+  'report.note': 'Note',
+  'report.wobble': 'Wobble',
+  'report.attempts': 'Attempts',
+  'report.allInTune': 'Every note was in tune. Great job!',
+  'sheet.topic.notation': 'Staff Notation:',
+  'sheet.about.notation': 'Music displayed on a traditional staff with proper note symbols',
+  'sheet.topic.import': 'Import:',
+  'sheet.about.import': 'Drop MusicXML files (.xml, .musicxml, compressed .mxl) onto the staff area, open one, or import it from a URL',
+  'sheet.topic.exercises': 'Exercises:',
+  'sheet.about.exercises': 'Create major and minor scales and arpeggios in any key, starting string or position, rhythm and bowing',
+  'sheet.topic.fingering': 'Fingering:',
+  'sheet.about.fingering': 'The current note shows which string and finger to use in 1st or 3rd position, following fingerings written in the score',
+  'sheet.topic.advance': 'Auto-advance:',
+  'sheet.about.advance': 'Play the correct note to automatically move to the next one; for a double stop, either note counts',
+  'sheet.topic.parts': 'Parts:',
+  'sheet.about.parts': 'In duets and scores with piano, only the violin part (or the part you pick) is practiced',
+  'sheet.topic.listen': 'Listen:',
+  'sheet.about.listen': 'Hear the piece from the current note at its written tempo',
+  'sheet.topic.loop': 'Section Loop:',
+  'sheet.about.loop': 'Repeat a few measures, optionally getting faster after each clean pass',
+  'sheet.topic.timing': 'Timed Play-Along:',
+  'sheet.about.timing': 'After a one-measure count-in, each note is checked against the score\'s rhythm',
+  'sheet.topic.bookmarks': 'Bookmarks:',
+  'sheet.about.bookmarks': 'Name spots in each score; practice resumes at the latest one',
+  'import.notMusicXml': '"{file}" is not a MusicXML file. Choose a .xml, .musicxml or .mxl file.',
+  'import.badUrl': 'That is not a valid URL.',
+  'import.unreachable': 'Could not reach {host}. The site may not allow downloads from other pages.',
+  'import.downloadFailed': 'Download failed: {status}',
+  'import.notXml': 'The file is not valid XML.',
+  'import.notScore': 'The file is XML but not a MusicXML score (its root element is <{root}>).',
+  'import.noContainer': 'The .mxl archive has no META-INF/container.xml.',
+  'import.badContainer': 'The .mxl archive has a damaged META-INF/container.xml.',
+  'import.noRootName': 'The .mxl archive does not name its root score file.',
+  'import.noRoot': 'The .mxl archive is missing its root score file "{path}".',
+  'import.damaged': 'The .mxl archive is damaged.',
+  'import.compression': 'The .mxl archive uses an unsupported compression method.',
+  'gauge.idle': 'Play the target note',
+  'gauge.inTune': 'In tune!',
+  'gauge.sharp.little': 'Too sharp, go a little lower',
+  'gauge.sharp.lot': 'Too sharp, go a lot lower',
+  'gauge.flat.little': 'Too flat, go a little higher',
+  'gauge.flat.lot': 'Too flat, go a lot higher',
+  'gauge.flat': '♭ flat',
+  'gauge.sharp': 'sharp ♯',
+  'graph.sharp': '+{cents}¢ sharp',
+  'graph.flat': '-{cents}¢ flat',
+  'graph.window': 'last {seconds} s'
+};
+
+export type MessageKey = keyof typeof en;
+
+export const NAMING_LABELS: { [key in NoteNaming]: MessageKey } = {
+  english: 'naming.english',
+  solfege: 'naming.solfege',
+  german: 'naming.german'
+};
+
+// Missing messages fall back to English
+const MESSAGES: { [key in Language]: Partial<Record<MessageKey, string>> } = {
+  en,
+  de: {
+    'mode.tuner': 'Stimmgerät',
+    'mode.strings': 'Saiten stimmen',
+    'mode.practice': 'Üben',
+    'mode.ear': 'Gehörbildung',
+    'listen.start': 'Zuhören starten',
+    'listen.stop': 'Stopp',
+    'listen.on': 'Hört zu...',
+    'listen.off': 'Hört nicht zu',
+    'listen.prompt': 'Spiel einen Ton auf deiner Geige',
+    'listen.clarity': 'Klarheit: {value} %',
+    'tuner.target': 'Zielton: {note}',
+    'tuner.hear': 'Zielton anhören',
+    'drone.label': 'Bordun',
+    'drone.start': 'Bordun an',
+    'drone.stop': 'Bordun aus',
+    'settings.language': 'Sprache',
+    'settings.naming': 'Notennamen',
+    'naming.german': 'C D E … H (deutsch)',
+    'section.recording': 'Aufnahme analysieren',
+    'section.history': 'Übungsverlauf',
+    'sheet.currentNote': 'Aktuelle Note:',
+    'sheet.noteOf': 'Note {index} von {total}',
+    'strings.title': 'Stimm deine Saiten',
+    'strings.startOver': 'Neu beginnen',
+    'strings.prompt': 'Streich immer nur eine leere Saite',
+    'strings.inTune': 'Die {string}-Saite ist gestimmt. Streich weiter!',
+    'strings.peg': 'Nimm den Wirbel: ein kleines bisschen drehen und hineindrücken',
+    'strings.fineTuner': 'Nimm den Feinstimmer',
+    'strings.tighten': 'Spann sie, die Saite ist zu tief',
+    'strings.loosen': 'Lockere sie, die Saite ist zu hoch',
+    'strings.advice': '{string}-Saite: {direction}',
+    'strings.allDone': 'Alle vier Saiten sind gestimmt!',
+    'ear.title': 'Gehörbildung',
+    'ear.level': 'Stufe',
+    'ear.level.open-strings': 'Leere Saiten',
+    'ear.level.single-notes': 'Einzelne Töne',
+    'ear.level.steps': 'Schritte',
+    'ear.level.intervals': 'Intervalle',
+    'ear.level.three-notes': 'Motive mit drei Tönen',
+    'ear.level.four-notes': 'Motive mit vier Tönen',
+    'ear.level.five-notes': 'Motive mit fünf Tönen',
+    'ear.oneNote': 'Ein Ton von {lowest} bis {highest}.',
+    'ear.notes': '{count} Töne von {lowest} bis {highest}.',
+    'ear.streak': '{count} richtig hintereinander.',
+    'ear.start': 'Los',
+    'ear.newPhrase': 'Neue Phrase',
+    'ear.hearAgain': 'Nochmal hören',
+    'ear.intro': 'Drück auf Neue Phrase, hör zu und spiel sie dann auf der Geige nach',
+    'ear.listen': 'Hör zu…',
+    'ear.yourTurn': 'Du bist dran: spiel es nach',
+    'ear.micOff': 'Schalte das Mikrofon ein, um nachzuspielen',
+    'ear.wellDone': 'Gut gemacht!',
+    'ear.notQuite': 'Noch nicht ganz. Hör nochmal oder probier eine neue Phrase.',
+    'ear.youPlayed': 'Du hast {note} gespielt',
+    'ear.inTune': 'Sauber',
+    'ear.cents': '{cents} Cent',
+    'ear.hintNote': 'Phrasen, die nach nochmaligem Hören gelingen, zählen nicht für die nächste Stufe',
+    'fingering.string': '{string}-Saite',
+    'fingering.higher': '{string}, höhere Lage',
+    'fingering.open': '{string}, leer',
+    'fingering.stopped': '{string}, {finger}',
+    'fingering.stoppedIn': '{string}, {finger} ({position})',
+    'fingering.beyond': 'Über der 3. Lage',
+    'fingering.fromScore': 'aus den Noten',
+    'fingering.positionTitle': 'Lage für die Vorschläge',
+    'fingering.diagram': 'Griffbrett',
+    'fingering.diagramTitle': 'Zeigen, wo der Finger auf dem Griffbrett liegt',
+    'finger.1': '1. Finger',
+    'finger.2': '2. Finger',
+    'finger.3': '3. Finger',
+    'finger.4': '4. Finger',
+    'position.first': '1. Lage',
+    'position.third': '3. Lage',
+    'detection.summary': 'Erkennung: über {volume} dB · Klarheit {clarity} %',
+    'detection.calibrate': 'Rauschen kalibrieren',
+    'detection.stayQuiet': 'Ganz leise sein…',
+    'detection.calibrating': 'Sei {seconds} Sekunden lang still, während das Raumgeräusch gemessen wird.',
+    'detection.calibrated': 'Grundrauschen {floor} dB; Töne werden über {volume} dB erkannt.',
+    'detection.noiseFloor': 'Grundrauschen {floor} dB',
+    'detection.inputGain': 'Eingangsverstärkung: +{value} dB',
+    'detection.volume': 'Lautstärkeschwelle: {value} dB',
+    'detection.clarity': 'Klarheitsschwelle: {value} %',
+    'detection.smoothing': 'Glättung der Töne',
+    'detection.frames': 'Frames',
+    'detection.octaveCorrection': 'Oktavsprünge korrigieren',
+    'detection.reset': 'Zurücksetzen',
+    'smoothing.off': 'Aus',
+    'smoothing.median': 'Medianfilter',
+    'smoothing.hysteresis': 'Vor dem Wechseln halten',
+    'input.device': 'Mikrofon',
+    'input.default': 'Standardmikrofon',
+    'input.numbered': 'Mikrofon {number}',
+    'input.level': 'Eingangspegel',
+    'input.threshold': 'Erkennungsschwelle',
+    'input.retry': 'Erneut versuchen',
+    'microphone.denied': 'Der Zugriff auf das Mikrofon wurde blockiert. Erlaube das Mikrofon für diese Seite in der Adressleiste des Browsers und versuch es dann erneut.',
+    'microphone.no-device': 'Es wurde kein Mikrofon gefunden. Schließ eins an, dann startet das Zuhören von selbst.',
+    'microphone.device-lost': 'Das Mikrofon wurde getrennt. Das Zuhören geht weiter, sobald es wieder angeschlossen ist.',
+    'microphone.unavailable': 'Das Mikrofon konnte nicht gestartet werden. Vielleicht benutzt es gerade eine andere App.',
+    'tuning.summary': 'Stimmung: A4 = {frequency} Hz · {temperament}',
+    'tuning.inKey': 'in {key}',
+    'tuning.reference': 'Kammerton A4 (Hz)',
+    'tuning.temperament': 'Stimmungssystem',
+    'tuning.key': 'Tonart',
+    'temperament.equal': 'Gleichstufige Stimmung',
+    'temperament.pythagorean': 'Pythagoreisch (reine Quinten)',
+    'temperament.just': 'Reine Stimmung',
+    'help.title': 'So geht\'s:',
+    'help.start': 'Klick auf „{button}“, um den Zugriff auf das Mikrofon zu erlauben',
+    'help.target': 'Wähle den Zielton, den du üben möchtest',
+    'help.play': 'Spiel diesen Ton auf deiner Geige',
+    'help.result': 'Die App zeigt dir den erkannten Ton und ob er sauber ist (grün = sauber)',
+    'help.gauge': 'Nadel und Verlauf zeigen, wie viele Cent du zu hoch oder zu tief bist und in welche Richtung du korrigieren musst',
+    'help.hear': 'Drück auf den Lautsprecher, um den Zielton zu hören, oder starte einen Bordun zum Mitspielen',
+    'section.followsScore': 'folgt den geladenen Noten',
+    'exercise.kind': 'Übung',
+    'exercise.tonality': 'Tongeschlecht',
+    'exercise.key': 'Tonart',
+    'exercise.start': 'Beginnen auf',
+    'exercise.octaves': 'Oktaven',
+    'exercise.rhythm': 'Rhythmus',
+    'exercise.bowing': 'Bogenstrich',
+    'exercise.create': '{title} erstellen',
+    'exercise.opens': 'Die Übung öffnet sich unten in den Noten und wird in deiner Bibliothek gespeichert.',
+    'exercise.kind.scale': 'Tonleiter',
+    'exercise.kind.arpeggio': 'Arpeggio',
+    'exercise.tonality.major': 'Dur',
+    'exercise.tonality.natural-minor': 'Natürliches Moll',
+    'exercise.tonality.harmonic-minor': 'Harmonisches Moll',
+    'exercise.tonality.melodic-minor': 'Melodisches Moll',
+    'exercise.rhythm.quarters': 'Viertelnoten',
+    'exercise.rhythm.eighths': 'Achtelnoten',
+    'exercise.rhythm.repeated-eighths': 'Jeder Ton zweimal (Achtel)',
+    'exercise.rhythm.dotted': 'Punktiert (lang-kurz)',
+    'exercise.rhythm.halves': 'Halbe Noten (lange Bögen)',
+    'exercise.bowing.separate': 'Einzelne Striche',
+    'exercise.bowing.slur-2': 'Zwei Töne pro Bogen',
+    'exercise.bowing.slur-4': 'Vier Töne pro Bogen',
+    'exercise.bowing.staccato': 'Staccato',
+    'exercise.title.scale': 'Tonleiter {tonic}-{tonality}, {octaves}',
+    'exercise.title.arpeggio': 'Arpeggio {tonic}-{tonality}, {octaves}',
+    'exercise.titleTonality.major': 'Dur',
+    'exercise.titleTonality.natural-minor': 'Moll natürlich',
+    'exercise.titleTonality.harmonic-minor': 'Moll harmonisch',
+    'exercise.titleTonality.melodic-minor': 'Moll melodisch',
+    'exercise.titleTonality.minor': 'Moll',
+    'exercise.oneOctave': '{count} Oktave',
+    'exercise.octaveCount': '{count} Oktaven',
+    'position.open': 'leer',
+    'position.half': 'halbe Lage',
+    'position.second': '2. Lage',
+    'position.fourth': '4. Lage',
+    'position.fifth': '5. Lage',
+    'dialog.cancel': 'Abbrechen',
+    'dialog.delete': 'Löschen',
+    'duration.underMinute': '<1 Min.',
+    'duration.minutes': '{minutes} Min.',
+    'duration.hours': '{hours} Std. {minutes} Min.',
+    'history.mode.tuner': 'Stimmgerät',
+    'history.mode.strings': 'Saiten stimmen',
+    'history.mode.practice': 'Üben',
+    'history.mode.ear': 'Gehörbildung',
+    'history.empty': 'Noch keine Übungszeit aufgezeichnet. Jedes Mal, wenn du das Zuhören beendest, wird eine Einheit gespeichert.',
+    'history.today': 'Heute',
+    'history.week': 'Letzte 7 Tage',
+    'history.streak': 'Serie',
+    'history.oneDay': '{count} Tag',
+    'history.days': '{count} Tage',
+    'history.longest': 'Längste: {days}',
+    'history.sessions': 'Einheiten',
+    'history.daily': 'Tägliche Übungszeit, letzte {days} Tage',
+    'history.pieces': 'Stücke',
+    'history.noPieces': 'Üb ein Stück im Übungsmodus, um es hier zu verfolgen.',
+    'history.piece': 'Stück',
+    'history.time': 'Zeit',
+    'history.completion': 'Fortschritt',
+    'history.best': 'Bestwert',
+    'history.completionTitle': 'Wie weit du in jeder Einheit durch das Stück gekommen bist',
+    'history.outOfTuneNotes': 'Am häufigsten unsaubere Töne',
+    'history.notEnoughNotes': 'Noch nicht genug Töne gehört.',
+    'history.frames': '{count} Tonhöhen-Frames gehört',
+    'history.outOfTune': '{share} % unsauber, {cents} ¢',
+    'history.recent': 'Letzte Einheiten',
+    'history.notesPlayed': '{title}: {count} Töne gespielt',
+    'history.stoppedAt': 'angehalten in Takt {measure}, Schlag {beat}',
+    'history.export': 'Exportieren',
+    'history.clear': 'Verlauf löschen',
+    'history.clearConfirm': 'Den ganzen Übungsverlauf löschen? Das lässt sich nicht rückgängig machen. Exportier ihn vorher, um eine Kopie zu behalten.',
+    'history.local': 'Der Verlauf wird nur in diesem Browser gespeichert.',
+    'metronome.start': 'Metronom',
+    'metronome.stop': 'Stopp',
+    'metronome.beats': 'Schläge',
+    'metronome.subdivision.1': 'Schläge',
+    'metronome.subdivision.2': 'Achtel',
+    'metronome.subdivision.3': 'Triolen',
+    'metronome.subdivision.4': 'Sechzehntel',
+    'metronome.accent': 'Schlag 1 betonen',
+    'recording.open': 'Aufnahme öffnen',
+    'recording.failed': 'Die Aufnahme konnte nicht analysiert werden.',
+    'recording.undecodable': '„{file}“ konnte nicht gelesen werden. Nimm eine WAV-, OGG- oder MP3-Datei.',
+    'recording.detected': '{count} Töne in {seconds} s erkannt',
+    'recording.followed': '{matched} von {total} Noten verfolgt, {wrong} falsch',
+    'recording.noteTitle': '{note} bei {seconds} s, {cents} Cent',
+    'library.sort.title': 'Titel',
+    'library.sort.composer': 'Komponist',
+    'library.sort.difficulty': 'Schwierigkeit',
+    'library.sort.lastPracticed': 'Zuletzt geübt',
+    'library.sort.added': 'Zuletzt hinzugefügt',
+    'library.search': 'Titel, Komponist oder Tag suchen',
+    'library.noMatch': 'Keine Noten passen zu deiner Suche',
+    'library.tags': 'Tags',
+    'library.addTags': 'Tags hinzufügen',
+    'library.never': 'Nie',
+    'library.builtIn': 'eingebaut',
+    'library.difficultyLevel': 'Schwierigkeit {level}',
+    'library.rename': 'Umbenennen',
+    'library.delete': 'Noten löschen',
+    'library.deleteConfirm': '„{title}“ aus der Bibliothek entfernen? Die Lesezeichen werden auch gelöscht.',
+    'sheet.title': 'Noten',
+    'sheet.untitled': 'Ohne Titel',
+    'sheet.by': 'von {composer}',
+    'sheet.library': 'Bibliothek',
+    'sheet.exercises': 'Übungen',
+    'sheet.openFile': 'Datei öffnen',
+    'sheet.import': 'Importieren',
+    'sheet.drop': 'MusicXML-Datei hier ablegen',
+    'sheet.empty': 'Zieh eine MusicXML-Datei hierher',
+    'sheet.emptyHint': 'oder öffne eine Datei, importiere sie von einer URL oder wähle oben ein Beispielstück',
+    'sheet.loadFailed': 'Die Noten konnten nicht geladen werden. Versuch es mit einer anderen Datei.',
+    'sheet.readFailed': 'Die Noten konnten nicht gelesen werden.',
+    'sheet.unsupported': 'OpenSheetMusicDisplay konnte „{file}“ nicht lesen. Vielleicht nutzt das MusicXML Funktionen, die es nicht unterstützt.',
+    'sheet.noNotes': '„{file}“ enthält keine spielbaren Noten.',
+    'sheet.practice': 'Üben',
+    'sheet.part': 'Partie {number}',
+    'sheet.allVoices': 'Alle Stimmen',
+    'sheet.voice': 'Stimme {number}',
+    'sheet.prev': 'Vorige Note',
+    'sheet.next': 'Nächste Note',
+    'sheet.reset': 'Zurücksetzen',
+    'sheet.listen': 'Anhören',
+    'sheet.stopPlayback': 'Wiedergabe stoppen',
+    'sheet.measure': 'Takt',
+    'sheet.average': 'Durchschnitt',
+    'bookmark.name': 'Name des Lesezeichens',
+    'bookmark.add': 'Lesezeichen',
+    'bookmark.list': 'Lesezeichen ({count})',
+    'bookmark.position': 'T. {measure}, Schlag {beat}',
+    'bookmark.delete': 'Lesezeichen löschen',
+    'bookmark.default': 'Takt {measure}',
+    'loop.title': 'Abschnitt wiederholen',
+    'loop.from': 'Ab Takt',
+    'loop.to': 'Bis Takt',
+    'loop.repeats': 'Wiederholungen',
+    'loop.startTempo': 'Anfangstempo %',
+    'loop.ramp': '% schneller pro sauberem Durchgang',
+    'loop.start': 'Schleife starten',
+    'loop.stop': 'Schleife stoppen',
+    'loop.progress': 'Durchgang {pass} von {repeats} bei {tempo} BPM',
+    'loop.clean': '{clean} von {passes} Durchgängen sauber',
+    'loop.noNotes': 'In diesen Takten gibt es keine Noten zu spielen.',
+    'loop.pass': 'Durchgang',
+    'loop.tempo': 'Tempo',
+    'loop.mistakes': 'Falsche Noten',
+    'loop.time': 'Zeit',
+    'timing.toggle': 'Im Takt mitspielen',
+    'timing.start': 'Mit Einzählen starten',
+    'timing.title': 'Timing pro Takt',
+    'timing.early': 'Zu früh',
+    'timing.onTime': 'Pünktlich',
+    'timing.late': 'Zu spät',
+    'timing.earlyBy': '{ms} ms zu früh',
+    'timing.lateBy': '{ms} ms zu spät',
+    'report.title': 'Intonationszeugnis',
+    'report.inTune': '{inTune} von {total} Noten sauber',
+    'report.legend': '(grün = bis 10¢, gelb = bis 25¢, rot = weiter daneben)',
+    'report.practice': 'Noten zum Üben',
+    'report.note': 'Note',
+    'report.wobble': 'Schwankung',
+    'report.attempts': 'Versuche',
+    'report.allInTune': 'Jede Note war sauber. Super gemacht!',
+    'sheet.topic.notation': 'Notenschrift:',
+    'sheet.about.notation': 'Die Musik erscheint im gewohnten Notensystem mit richtigen Notenzeichen',
+    'sheet.topic.import': 'Import:',
+    'sheet.about.import': 'Zieh MusicXML-Dateien (.xml, .musicxml, komprimiert .mxl) auf die Notenfläche, öffne eine oder importiere sie von einer URL',
+    'sheet.topic.exercises': 'Übungen:',
+    'sheet.about.exercises': 'Erstelle Dur- und Molltonleitern und Arpeggien in jeder Tonart, ab jeder Saite oder Lage, mit Rhythmus und Strichart',
+    'sheet.topic.fingering': 'Fingersatz:',
+    'sheet.about.fingering': 'Die aktuelle Note zeigt, welche Saite und welchen Finger du in der 1. oder 3. Lage nimmst, nach den Fingersätzen in den Noten',
+    'sheet.topic.advance': 'Automatisch weiter:',
+    'sheet.about.advance': 'Spiel die richtige Note, um automatisch zur nächsten zu kommen; bei Doppelgriffen zählt jede der beiden Noten',
+    'sheet.topic.parts': 'Stimmen:',
+    'sheet.about.parts': 'Bei Duetten und Noten mit Klavier übst du nur die Geigenstimme (oder die Stimme, die du wählst)',
+    'sheet.topic.listen': 'Anhören:',
+    'sheet.about.listen': 'Hör dir das Stück ab der aktuellen Note im notierten Tempo an',
+    'sheet.topic.loop': 'Abschnitt wiederholen:',
+    'sheet.about.loop': 'Wiederhole ein paar Takte, auf Wunsch nach jedem sauberen Durchgang etwas schneller',
+    'sheet.topic.timing': 'Im Takt mitspielen:',
+    'sheet.about.timing': 'Nach einem Takt Einzählen wird jede Note mit dem Rhythmus der Noten verglichen',
+    'sheet.topic.bookmarks': 'Lesezeichen:',
+    'sheet.about.bookmarks': 'Benenne Stellen in jedem Stück; das Üben geht beim neuesten weiter',
+    'import.notMusicXml': '„{file}“ ist keine MusicXML-Datei. Wähle eine .xml-, .musicxml- oder .mxl-Datei.',
+    'import.badUrl': 'Das ist keine gültige URL.',
+    'import.unreachable': '{host} ist nicht erreichbar. Vielleicht erlaubt die Seite keine Downloads von anderen Seiten.',
+    'import.downloadFailed': 'Download fehlgeschlagen: {status}',
+    'import.notXml': 'Die Datei ist kein gültiges XML.',
+    'import.notScore': 'Die Datei ist XML, aber keine MusicXML-Partitur (ihr Wurzelelement ist <{root}>).',
+    'import.noContainer': 'Dem .mxl-Archiv fehlt META-INF/container.xml.',
+    'import.badContainer': 'Das .mxl-Archiv hat eine beschädigte META-INF/container.xml.',
+    'import.noRootName': 'Das .mxl-Archiv nennt keine Hauptdatei der Partitur.',
+    'import.noRoot': 'Im .mxl-Archiv fehlt die Hauptdatei „{path}“.',
+    'import.damaged': 'Das .mxl-Archiv ist beschädigt.',
+    'import.compression': 'Das .mxl-Archiv nutzt eine nicht unterstützte Kompressionsmethode.',
+    'gauge.idle': 'Spiel den Zielton',
+    'gauge.inTune': 'Sauber!',
+    'gauge.sharp.little': 'Zu hoch, geh ein bisschen tiefer',
+    'gauge.sharp.lot': 'Zu hoch, geh deutlich tiefer',
+    'gauge.flat.little': 'Zu tief, geh ein bisschen höher',
+    'gauge.flat.lot': 'Zu tief, geh deutlich höher',
+    'gauge.flat': '♭ tief',
+    'gauge.sharp': 'hoch ♯',
+    'graph.sharp': '+{cents}¢ hoch',
+    'graph.flat': '-{cents}¢ tief',
+    'graph.window': 'letzte {seconds} s'
+  },
+  fr: {
+    'mode.tuner': 'Accordeur',
+    'mode.strings': 'Accorder les cordes',
+    'mode.practice': 'Entraînement',
+    'mode.ear': 'Oreille',
+    'listen.start': 'Commencer l\'écoute',
+    'listen.stop': 'Arrêter',
+    'listen.on': 'Écoute en cours...',
+    'listen.off': 'Pas d\'écoute',
+    'listen.prompt': 'Joue une note sur ton violon',
+    'listen.clarity': 'Clarté : {value} %',
+    'tuner.target': 'Note visée : {note}',
+    'tuner.hear': 'Écouter la note visée',
+    'drone.label': 'Bourdon',
+    'drone.start': 'Lancer le bourdon',
+    'drone.stop': 'Arrêter le bourdon',
+    'settings.language': 'Langue',
+    'settings.naming': 'Noms des notes',
+    'naming.german': 'C D E … H (allemand)',
+    'section.recording': 'Analyser un enregistrement',
+    'section.history': 'Historique',
+    'sheet.currentNote': 'Note actuelle :',
+    'sheet.noteOf': 'Note {index} sur {total}',
+    'strings.title': 'Accorde tes cordes',
+    'strings.startOver': 'Recommencer',
+    'strings.prompt': 'Joue une corde à vide à la fois',
+    'strings.inTune': 'La corde de {string} est juste. Continue à jouer !',
+    'strings.peg': 'Utilise la cheville : tourne-la un tout petit peu et enfonce-la',
+    'strings.fineTuner': 'Utilise le tendeur',
+    'strings.tighten': 'Tends-la, la corde est trop basse',
+    'strings.loosen': 'Détends-la, la corde est trop haute',
+    'strings.advice': 'Corde de {string} : {direction}',
+    'strings.allDone': 'Les quatre cordes sont justes !',
+    'ear.title': 'Oreille',
+    'ear.level': 'Niveau',
+    'ear.level.open-strings': 'Cordes à vide',
+    'ear.level.single-notes': 'Notes seules',
+    'ear.level.steps': 'Degrés conjoints',
+    'ear.level.intervals': 'Intervalles',
+    'ear.level.three-notes': 'Motifs de trois notes',
+    'ear.level.four-notes': 'Motifs de quatre notes',
+    'ear.level.five-notes': 'Motifs de cinq notes',
+    'ear.oneNote': 'Une note de {lowest} à {highest}.',
+    'ear.notes': '{count} notes de {lowest} à {highest}.',
+    'ear.streak': '{count} réussies d\'affilée.',
+    'ear.start': 'Commencer',
+    'ear.newPhrase': 'Nouvelle phrase',
+    'ear.hearAgain': 'Réécouter',
+    'ear.intro': 'Appuie sur Nouvelle phrase, écoute, puis rejoue-la au violon',
+    'ear.listen': 'Écoute…',
+    'ear.yourTurn': 'À toi : rejoue-la',
+    'ear.micOff': 'Active le micro pour la rejouer',
+    'ear.wellDone': 'Bravo !',
+    'ear.notQuite': 'Pas tout à fait. Réécoute ou essaie une nouvelle phrase.',
+    'ear.youPlayed': 'Tu as joué {note}',
+    'ear.inTune': 'Juste',
+    'ear.cents': '{cents} cents',
+    'ear.hintNote': 'Les phrases réussies après une réécoute ne comptent pas pour le niveau suivant',
+    'fingering.string': 'corde de {string}',
+    'fingering.open': '{string}, à vide',
+    'fingering.stopped': '{string}, {finger}',
+    'fingering.stoppedIn': '{string}, {finger} ({position})',
+    'fingering.higher': '{string}, position plus haute',
+    'fingering.beyond': 'Au-delà de la 3e position',
+    'fingering.fromScore': 'de la partition',
+    'fingering.positionTitle': 'Position utilisée pour les suggestions',
+    'fingering.diagram': 'Touche',
+    'fingering.diagramTitle': 'Montrer où poser le doigt sur la touche',
+    'finger.1': '1er doigt',
+    'finger.2': '2e doigt',
+    'finger.3': '3e doigt',
+    'finger.4': '4e doigt',
+    'position.first': '1re position',
+    'position.third': '3e position',
+    'detection.summary': 'Détection : au-dessus de {volume} dB · clarté {clarity} %',
+    'detection.calibrate': 'Calibrer le bruit',
+    'detection.stayQuiet': 'Silence…',
+    'detection.calibrating': 'Reste silencieux pendant {seconds} secondes, le temps de mesurer le bruit de la pièce.',
+    'detection.calibrated': 'Bruit de fond {floor} dB ; les notes sont détectées au-dessus de {volume} dB.',
+    'detection.noiseFloor': 'Bruit de fond {floor} dB',
+    'detection.inputGain': 'Gain d\'entrée : +{value} dB',
+    'detection.volume': 'Seuil de volume : {value} dB',
+    'detection.clarity': 'Seuil de clarté : {value} %',
+    'detection.smoothing': 'Lissage des notes',
+    'detection.frames': 'Trames',
+    'detection.octaveCorrection': 'Corriger les sauts d\'octave',
+    'detection.reset': 'Réinitialiser',
+    'smoothing.off': 'Désactivé',
+    'smoothing.median': 'Filtre médian',
+    'smoothing.hysteresis': 'Maintenir avant de changer',
+    'input.device': 'Microphone',
+    'input.default': 'Microphone par défaut',
+    'input.numbered': 'Microphone {number}',
+    'input.level': 'Niveau d\'entrée',
+    'input.threshold': 'Seuil de détection',
+    'input.retry': 'Réessayer',
+    'microphone.denied': 'L\'accès au microphone a été bloqué. Autorise le microphone pour ce site dans la barre d\'adresse du navigateur, puis réessaie.',
+    'microphone.no-device': 'Aucun microphone trouvé. Branches-en un et l\'écoute démarrera toute seule.',
+    'microphone.device-lost': 'Le microphone a été débranché. L\'écoute reprendra quand il sera rebranché.',
+    'microphone.unavailable': 'Le microphone n\'a pas pu démarrer. Il est peut-être utilisé par une autre application.',
+    'tuning.summary': 'Accord : A4 = {frequency} Hz · {temperament}',
+    'tuning.inKey': 'en {key}',
+    'tuning.reference': 'La de référence A4 (Hz)',
+    'tuning.temperament': 'Tempérament',
+    'tuning.key': 'Tonalité',
+    'temperament.equal': 'Tempérament égal',
+    'temperament.pythagorean': 'Pythagoricien (quintes justes)',
+    'temperament.just': 'Intonation juste',
+    'help.title': 'Mode d\'emploi :',
+    'help.start': 'Clique sur « {button} » pour autoriser l\'accès au microphone',
+    'help.target': 'Choisis la note que tu veux travailler',
+    'help.play': 'Joue cette note sur ton violon',
+    'help.result': 'L\'application t\'affiche la hauteur détectée et si tu joues juste (vert = juste)',
+    'help.gauge': 'L\'aiguille et le graphique indiquent de combien de cents tu es trop haut ou trop bas, et dans quel sens corriger',
+    'help.hear': 'Appuie sur le haut-parleur pour entendre la note cible, ou lance un bourdon pour jouer avec',
+    'section.followsScore': 'suit la partition chargée',
+    'exercise.kind': 'Exercice',
+    'exercise.tonality': 'Mode',
+    'exercise.key': 'Tonalité',
+    'exercise.start': 'Commencer sur',
+    'exercise.octaves': 'Octaves',
+    'exercise.rhythm': 'Rythme',
+    'exercise.bowing': 'Coup d\'archet',
+    'exercise.create': 'Créer {title}',
+    'exercise.opens': 'L\'exercice s\'ouvre dans la partition ci-dessous et est enregistré dans ta bibliothèque.',
+    'exercise.kind.scale': 'Gamme',
+    'exercise.kind.arpeggio': 'Arpège',
+    'exercise.tonality.major': 'Majeur',
+    'exercise.tonality.natural-minor': 'Mineur naturel',
+    'exercise.tonality.harmonic-minor': 'Mineur harmonique',
+    'exercise.tonality.melodic-minor': 'Mineur mélodique',
+    'exercise.rhythm.quarters': 'Noires',
+    'exercise.rhythm.eighths': 'Croches',
+    'exercise.rhythm.repeated-eighths': 'Chaque note deux fois (croches)',
+    'exercise.rhythm.dotted': 'Pointé (long-court)',
+    'exercise.rhythm.halves': 'Blanches (archets longs)',
+    'exercise.bowing.separate': 'Détaché',
+    'exercise.bowing.slur-2': 'Deux notes par archet',
+    'exercise.bowing.slur-4': 'Quatre notes par archet',
+    'exercise.bowing.staccato': 'Staccato',
+    'exercise.title.scale': 'Gamme de {tonic} {tonality}, {octaves}',
+    'exercise.title.arpeggio': 'Arpège de {tonic} {tonality}, {octaves}',
+    'exercise.titleTonality.major': 'majeur',
+    'exercise.titleTonality.natural-minor': 'mineur naturel',
+    'exercise.titleTonality.harmonic-minor': 'mineur harmonique',
+    'exercise.titleTonality.melodic-minor': 'mineur mélodique',
+    'exercise.titleTonality.minor': 'mineur',
+    'exercise.oneOctave': '{count} octave',
+    'exercise.octaveCount': '{count} octaves',
+    'position.open': 'à vide',
+    'position.half': 'demi-position',
+    'position.second': '2e position',
+    'position.fourth': '4e position',
+    'position.fifth': '5e position',
+    'dialog.cancel': 'Annuler',
+    'dialog.delete': 'Supprimer',
+    'duration.underMinute': '<1 min',
+    'duration.minutes': '{minutes} min',
+    'duration.hours': '{hours} h {minutes} min',
+    'history.mode.tuner': 'Accordeur',
+    'history.mode.strings': 'Accord des cordes',
+    'history.mode.practice': 'Entraînement',
+    'history.mode.ear': 'Oreille',
+    'history.empty': 'Aucun entraînement enregistré pour l\'instant. Une séance est enregistrée chaque fois que tu arrêtes l\'écoute.',
+    'history.today': 'Aujourd\'hui',
+    'history.week': '7 derniers jours',
+    'history.streak': 'Série',
+    'history.oneDay': '{count} jour',
+    'history.days': '{count} jours',
+    'history.longest': 'Plus longue : {days}',
+    'history.sessions': 'Séances',
+    'history.daily': 'Entraînement quotidien, {days} derniers jours',
+    'history.pieces': 'Morceaux',
+    'history.noPieces': 'Travaille une partition en mode Entraînement pour la suivre ici.',
+    'history.piece': 'Morceau',
+    'history.time': 'Temps',
+    'history.completion': 'Progression',
+    'history.best': 'Meilleur',
+    'history.completionTitle': 'Part du morceau atteinte à chaque séance',
+    'history.outOfTuneNotes': 'Notes le plus souvent fausses',
+    'history.notEnoughNotes': 'Pas encore assez de notes entendues.',
+    'history.frames': '{count} trames de hauteur entendues',
+    'history.outOfTune': '{share} % faux, {cents} ¢',
+    'history.recent': 'Séances récentes',
+    'history.notesPlayed': '{title} : {count} notes jouées',
+    'history.stoppedAt': 'arrêt à la mesure {measure}, temps {beat}',
+    'history.export': 'Exporter',
+    'history.clear': 'Effacer l\'historique',
+    'history.clearConfirm': 'Supprimer tout l\'historique d\'entraînement ? C\'est irréversible. Exporte-le d\'abord pour en garder une copie.',
+    'history.local': 'L\'historique est enregistré uniquement dans ce navigateur.',
+    'metronome.start': 'Métronome',
+    'metronome.stop': 'Arrêter',
+    'metronome.beats': 'Temps',
+    'metronome.subdivision.1': 'Temps',
+    'metronome.subdivision.2': 'Croches',
+    'metronome.subdivision.3': 'Triolets',
+    'metronome.subdivision.4': 'Doubles croches',
+    'metronome.accent': 'Accentuer le 1er temps',
+    'recording.open': 'Ouvrir un enregistrement',
+    'recording.failed': 'L\'enregistrement n\'a pas pu être analysé.',
+    'recording.undecodable': '« {file} » n\'a pas pu être décodé. Utilise un fichier WAV, OGG ou MP3.',
+    'recording.detected': '{count} notes détectées en {seconds} s',
+    'recording.followed': '{matched} notes de la partition suivies sur {total}, dont {wrong} fausses',
+    'recording.noteTitle': '{note} à {seconds} s, {cents} cents',
+    'library.sort.title': 'Titre',
+    'library.sort.composer': 'Compositeur',
+    'library.sort.difficulty': 'Difficulté',
+    'library.sort.lastPracticed': 'Dernier entraînement',
+    'library.sort.added': 'Ajouts récents',
+    'library.search': 'Chercher un titre, un compositeur ou un tag',
+    'library.noMatch': 'Aucune partition ne correspond à ta recherche',
+    'library.tags': 'Tags',
+    'library.addTags': 'Ajouter des tags',
+    'library.never': 'Jamais',
+    'library.builtIn': 'intégrée',
+    'library.difficultyLevel': 'Difficulté {level}',
+    'library.rename': 'Renommer',
+    'library.delete': 'Supprimer la partition',
+    'library.deleteConfirm': 'Retirer « {title} » de la bibliothèque ? Ses signets seront aussi supprimés.',
+    'sheet.title': 'Partition',
+    'sheet.untitled': 'Sans titre',
+    'sheet.by': 'de {composer}',
+    'sheet.library': 'Bibliothèque',
+    'sheet.exercises': 'Exercices',
+    'sheet.openFile': 'Ouvrir un fichier',
+    'sheet.import': 'Importer',
+    'sheet.drop': 'Dépose le fichier MusicXML ici',
+    'sheet.empty': 'Glisse un fichier MusicXML ici',
+    'sheet.emptyHint': 'ou ouvre un fichier, importe-le depuis une URL ou choisis un morceau d\'exemple ci-dessus',
+    'sheet.loadFailed': 'Impossible de charger la partition. Essaie un autre fichier.',
+    'sheet.readFailed': 'Impossible de lire la partition.',
+    'sheet.unsupported': 'OpenSheetMusicDisplay n\'a pas pu lire « {file} ». Le MusicXML utilise peut-être des fonctions qu\'il ne prend pas en charge.',
+    'sheet.noNotes': '« {file} » ne contient aucune note jouable.',
+    'sheet.practice': 'Travailler',
+    'sheet.part': 'Partie {number}',
+    'sheet.allVoices': 'Toutes les voix',
+    'sheet.voice': 'Voix {number}',
+    'sheet.prev': 'Note précédente',
+    'sheet.next': 'Note suivante',
+    'sheet.reset': 'Recommencer',
+    'sheet.listen': 'Écouter',
+    'sheet.stopPlayback': 'Arrêter la lecture',
+    'sheet.measure': 'Mesure',
+    'sheet.average': 'Moyenne',
+    'bookmark.name': 'Nom du signet',
+    'bookmark.add': 'Signet',
+    'bookmark.list': 'Signets ({count})',
+    'bookmark.position': 'mes. {measure}, temps {beat}',
+    'bookmark.delete': 'Supprimer le signet',
+    'bookmark.default': 'Mesure {measure}',
+    'loop.title': 'Boucle de passage',
+    'loop.from': 'De la mesure',
+    'loop.to': 'À la mesure',
+    'loop.repeats': 'Répétitions',
+    'loop.startTempo': 'Tempo de départ %',
+    'loop.ramp': '% plus vite par passage propre',
+    'loop.start': 'Lancer la boucle',
+    'loop.stop': 'Arrêter la boucle',
+    'loop.progress': 'Passage {pass} sur {repeats} à {tempo} BPM',
+    'loop.clean': '{clean} passages propres sur {passes}',
+    'loop.noNotes': 'Il n\'y a aucune note à jouer dans ces mesures.',
+    'loop.pass': 'Passage',
+    'loop.tempo': 'Tempo',
+    'loop.mistakes': 'Fausses notes',
+    'loop.time': 'Durée',
+    'timing.toggle': 'Jouer en mesure',
+    'timing.start': 'Démarrer avec décompte',
+    'timing.title': 'Précision par mesure',
+    'timing.early': 'En avance',
+    'timing.onTime': 'À temps',
+    'timing.late': 'En retard',
+    'timing.earlyBy': 'En avance de {ms} ms',
+    'timing.lateBy': 'En retard de {ms} ms',
+    'report.title': 'Bulletin d\'intonation',
+    'report.inTune': '{inTune} notes justes sur {total}',
+    'report.legend': '(vert = à 10¢ près, jaune = à 25¢ près, rouge = plus loin)',
+    'report.practice': 'Notes à travailler',
+    'report.note': 'Note',
+    'report.wobble': 'Instabilité',
+    'report.attempts': 'Essais',
+    'report.allInTune': 'Toutes les notes étaient justes. Bravo !',
+    'sheet.topic.notation': 'Portée :',
+    'sheet.about.notation': 'La musique s\'affiche sur une portée classique avec de vrais symboles de notes',
+    'sheet.topic.import': 'Import :',
+    'sheet.about.import': 'Dépose des fichiers MusicXML (.xml, .musicxml, .mxl compressé) sur la portée, ouvres-en un ou importe-le depuis une URL',
+    'sheet.topic.exercises': 'Exercices :',
+    'sheet.about.exercises': 'Crée des gammes et arpèges majeurs et mineurs dans toutes les tonalités, sur la corde ou à la position de ton choix, avec rythme et coup d\'archet',
+    'sheet.topic.fingering': 'Doigté :',
+    'sheet.about.fingering': 'La note actuelle indique la corde et le doigt à utiliser en 1re ou 3e position, en suivant les doigtés écrits dans la partition',
+    'sheet.topic.advance': 'Avance automatique :',
+    'sheet.about.advance': 'Joue la bonne note pour passer automatiquement à la suivante ; pour une double corde, l\'une ou l\'autre note compte',
+    'sheet.topic.parts': 'Parties :',
+    'sheet.about.parts': 'Dans les duos et les partitions avec piano, seule la partie de violon (ou celle que tu choisis) est travaillée',
+    'sheet.topic.listen': 'Écouter :',
+    'sheet.about.listen': 'Écoute le morceau à partir de la note actuelle, au tempo écrit',
+    'sheet.topic.loop': 'Boucle de passage :',
+    'sheet.about.loop': 'Répète quelques mesures, en accélérant si tu veux après chaque passage propre',
+    'sheet.topic.timing': 'Jouer en mesure :',
+    'sheet.about.timing': 'Après un décompte d\'une mesure, chaque note est comparée au rythme de la partition',
+    'sheet.topic.bookmarks': 'Signets :',
+    'sheet.about.bookmarks': 'Nomme des passages de chaque partition ; le travail reprend au plus récent',
+    'import.notMusicXml': '« {file} » n\'est pas un fichier MusicXML. Choisis un fichier .xml, .musicxml ou .mxl.',
+    'import.badUrl': 'Ce n\'est pas une URL valide.',
+    'import.unreachable': 'Impossible de joindre {host}. Le site n\'autorise peut-être pas les téléchargements depuis d\'autres pages.',
+    'import.downloadFailed': 'Échec du téléchargement : {status}',
+    'import.notXml': 'Le fichier n\'est pas un XML valide.',
+    'import.notScore': 'Le fichier est en XML mais n\'est pas une partition MusicXML (son élément racine est <{root}>).',
+    'import.noContainer': 'L\'archive .mxl n\'a pas de META-INF/container.xml.',
+    'import.badContainer': 'L\'archive .mxl a un META-INF/container.xml endommagé.',
+    'import.noRootName': 'L\'archive .mxl n\'indique pas le fichier principal de la partition.',
+    'import.noRoot': 'Il manque à l\'archive .mxl son fichier principal « {path} ».',
+    'import.damaged': 'L\'archive .mxl est endommagée.',
+    'import.compression': 'L\'archive .mxl utilise une méthode de compression non prise en charge.',
+    'gauge.idle': 'Joue la note cible',
+    'gauge.inTune': 'Juste !',
+    'gauge.sharp.little': 'Trop haut, descends un peu',
+    'gauge.sharp.lot': 'Trop haut, descends beaucoup',
+    'gauge.flat.little': 'Trop bas, monte un peu',
+    'gauge.flat.lot': 'Trop bas, monte beaucoup',
+    'gauge.flat': '♭ bas',
+    'gauge.sharp': 'haut ♯',
+    'graph.sharp': '+{cents}¢ haut',
+    'graph.flat': '-{cents}¢ bas',
+    'graph.window': 'dernières {seconds} s'
+  },
+  es: {
+    'mode.tuner': 'Afinador',
+    'mode.strings': 'Afinar cuerdas',
+    'mode.practice': 'Práctica',
+    'mode.ear': 'Oído',
+    'listen.start': 'Empezar a escuchar',
+    'listen.stop': 'Parar',
+    'listen.on': 'Escuchando...',
+    'listen.off': 'Sin escuchar',
+    'listen.prompt': 'Toca una nota con tu violín',
+    'listen.clarity': 'Claridad: {value} %',
+    'tuner.target': 'Nota objetivo: {note}',
+    'tuner.hear': 'Escuchar la nota objetivo',
+    'drone.label': 'Bordón',
+    'drone.start': 'Iniciar bordón',
+    'drone.stop': 'Parar bordón',
+    'settings.language': 'Idioma',
+    'settings.naming': 'Nombres de las notas',
+    'naming.german': 'C D E … H (alemán)',
+    'section.recording': 'Analizar una grabación',
+    'section.history': 'Historial de práctica',
+    'sheet.currentNote': 'Nota actual:',
+    'sheet.noteOf': 'Nota {index} de {total}',
+    'strings.title': 'Afina tus cuerdas',
+    'strings.startOver': 'Empezar de nuevo',
+    'strings.prompt': 'Toca una cuerda al aire cada vez',
+    'strings.inTune': 'La cuerda {string} está afinada. ¡Sigue tocando!',
+    'strings.peg': 'Usa la clavija: gírala un poquito y empújala hacia dentro',
+    'strings.fineTuner': 'Usa el tensor',
+    'strings.tighten': 'Ténsala, la cuerda está demasiado baja',
+    'strings.loosen': 'Aflójala, la cuerda está demasiado alta',
+    'strings.advice': 'Cuerda {string}: {direction}',
+    'strings.allDone': '¡Las cuatro cuerdas están afinadas!',
+    'ear.title': 'Oído',
+    'ear.level': 'Nivel',
+    'ear.level.open-strings': 'Cuerdas al aire',
+    'ear.level.single-notes': 'Notas sueltas',
+    'ear.level.steps': 'Grados conjuntos',
+    'ear.level.intervals': 'Intervalos',
+    'ear.level.three-notes': 'Motivos de tres notas',
+    'ear.level.four-notes': 'Motivos de cuatro notas',
+    'ear.level.five-notes': 'Motivos de cinco notas',
+    'ear.oneNote': 'Una nota de {lowest} a {highest}.',
+    'ear.notes': '{count} notas de {lowest} a {highest}.',
+    'ear.streak': '{count} seguidas bien.',
+    'ear.start': 'Empezar',
+    'ear.newPhrase': 'Nueva frase',
+    'ear.hearAgain': 'Escuchar otra vez',
+    'ear.intro': 'Pulsa Nueva frase, escucha y luego tócala con el violín',
+    'ear.listen': 'Escucha…',
+    'ear.yourTurn': 'Te toca: tócala',
+    'ear.micOff': 'Activa el micrófono para tocarla',
+    'ear.wellDone': '¡Muy bien!',
+    'ear.notQuite': 'Casi. Escúchala otra vez o prueba una frase nueva.',
+    'ear.youPlayed': 'Tocaste {note}',
+    'ear.inTune': 'Afinada',
+    'ear.cents': '{cents} cents',
+    'ear.hintNote': 'Las frases acertadas tras escucharlas otra vez no cuentan para el siguiente nivel',
+    'fingering.string': 'cuerda {string}',
+    'fingering.open': '{string}, al aire',
+    'fingering.stopped': '{string}, {finger}',
+    'fingering.stoppedIn': '{string}, {finger} ({position})',
+    'fingering.higher': '{string}, posición más alta',
+    'fingering.beyond': 'Más allá de la 3.ª posición',
+    'fingering.fromScore': 'de la partitura',
+    'fingering.positionTitle': 'Posición usada para las sugerencias',
+    'fingering.diagram': 'Diapasón',
+    'fingering.diagramTitle': 'Mostrar dónde va el dedo en el diapasón',
+    'finger.1': 'dedo 1',
+    'finger.2': 'dedo 2',
+    'finger.3': 'dedo 3',
+    'finger.4': 'dedo 4',
+    'position.first': '1.ª posición',
+    'position.third': '3.ª posición',
+    'detection.summary': 'Detección: por encima de {volume} dB · claridad {clarity} %',
+    'detection.calibrate': 'Calibrar el ruido',
+    'detection.stayQuiet': 'Silencio…',
+    'detection.calibrating': 'Guarda silencio durante {seconds} segundos mientras se mide el ruido de la sala.',
+    'detection.calibrated': 'Ruido de fondo {floor} dB; las notas se detectan por encima de {volume} dB.',
+    'detection.noiseFloor': 'Ruido de fondo {floor} dB',
+    'detection.inputGain': 'Ganancia de entrada: +{value} dB',
+    'detection.volume': 'Umbral de volumen: {value} dB',
+    'detection.clarity': 'Umbral de claridad: {value} %',
+    'detection.smoothing': 'Suavizado de notas',
+    'detection.frames': 'Tramas',
+    'detection.octaveCorrection': 'Corregir saltos de octava',
+    'detection.reset': 'Restablecer',
+    'smoothing.off': 'Desactivado',
+    'smoothing.median': 'Filtro de mediana',
+    'smoothing.hysteresis': 'Mantener antes de cambiar',
+    'input.device': 'Micrófono',
+    'input.default': 'Micrófono predeterminado',
+    'input.numbered': 'Micrófono {number}',
+    'input.level': 'Nivel de entrada',
+    'input.threshold': 'Umbral de detección',
+    'input.retry': 'Reintentar',
+    'microphone.denied': 'Se bloqueó el acceso al micrófono. Permite el micrófono para este sitio en la barra de direcciones del navegador y vuelve a intentarlo.',
+    'microphone.no-device': 'No se encontró ningún micrófono. Conecta uno y la escucha empezará sola.',
+    'microphone.device-lost': 'El micrófono se desconectó. La escucha continuará cuando se vuelva a conectar.',
+    'microphone.unavailable': 'No se pudo iniciar el micrófono. Puede que otra aplicación lo esté usando.',
+    'tuning.summary': 'Afinación: A4 = {frequency} Hz · {temperament}',
+    'tuning.inKey': 'en {key}',
+    'tuning.reference': 'La de referencia A4 (Hz)',
+    'tuning.temperament': 'Temperamento',
+    'tuning.key': 'Tonalidad',
+    'temperament.equal': 'Temperamento igual',
+    'temperament.pythagorean': 'Pitagórico (quintas justas)',
+    'temperament.just': 'Entonación justa',
+    'help.title': 'Cómo se usa:',
+    'help.start': 'Haz clic en «{button}» para permitir el acceso al micrófono',
+    'help.target': 'Elige la nota que quieres practicar',
+    'help.play': 'Toca esa nota en tu violín',
+    'help.result': 'La aplicación te muestra la altura detectada y si estás afinado (verde = afinado)',
+    'help.gauge': 'La aguja y la gráfica muestran cuántos cents estás alto o bajo y hacia dónde corregir',
+    'help.hear': 'Pulsa el altavoz para oír la nota objetivo o inicia un bordón para tocar con él',
+    'section.followsScore': 'sigue la partitura cargada',
+    'exercise.kind': 'Ejercicio',
+    'exercise.tonality': 'Modo',
+    'exercise.key': 'Tonalidad',
+    'exercise.start': 'Empezar en',
+    'exercise.octaves': 'Octavas',
+    'exercise.rhythm': 'Ritmo',
+    'exercise.bowing': 'Arcos',
+    'exercise.create': 'Crear {title}',
+    'exercise.opens': 'El ejercicio se abre en la partitura de abajo y se guarda en tu biblioteca.',
+    'exercise.kind.scale': 'Escala',
+    'exercise.kind.arpeggio': 'Arpegio',
+    'exercise.tonality.major': 'Mayor',
+    'exercise.tonality.natural-minor': 'Menor natural',
+    'exercise.tonality.harmonic-minor': 'Menor armónica',
+    'exercise.tonality.melodic-minor': 'Menor melódica',
+    'exercise.rhythm.quarters': 'Negras',
+    'exercise.rhythm.eighths': 'Corcheas',
+    'exercise.rhythm.repeated-eighths': 'Cada nota dos veces (corcheas)',
+    'exercise.rhythm.dotted': 'Con puntillo (largo-corto)',
+    'exercise.rhythm.halves': 'Blancas (arcos largos)',
+    'exercise.bowing.separate': 'Arcos separados',
+    'exercise.bowing.slur-2': 'Dos notas por arco',
+    'exercise.bowing.slur-4': 'Cuatro notas por arco',
+    'exercise.bowing.staccato': 'Staccato',
+    'exercise.title.scale': 'Escala de {tonic} {tonality}, {octaves}',
+    'exercise.title.arpeggio': 'Arpegio de {tonic} {tonality}, {octaves}',
+    'exercise.titleTonality.major': 'mayor',
+    'exercise.titleTonality.natural-minor': 'menor natural',
+    'exercise.titleTonality.harmonic-minor': 'menor armónica',
+    'exercise.titleTonality.melodic-minor': 'menor melódica',
+    'exercise.titleTonality.minor': 'menor',
+    'exercise.oneOctave': '{count} octava',
+    'exercise.octaveCount': '{count} octavas',
+    'position.open': 'al aire',
+    'position.half': 'media posición',
+    'position.second': '2.ª posición',
+    'position.fourth': '4.ª posición',
+    'position.fifth': '5.ª posición',
+    'dialog.cancel': 'Cancelar',
+    'dialog.delete': 'Eliminar',
+    'duration.underMinute': '<1 min',
+    'duration.minutes': '{minutes} min',
+    'duration.hours': '{hours} h {minutes} min',
+    'history.mode.tuner': 'Afinador',
+    'history.mode.strings': 'Afinar cuerdas',
+    'history.mode.practice': 'Práctica',
+    'history.mode.ear': 'Oído',
+    'history.empty': 'Aún no hay práctica registrada. Se guarda una sesión cada vez que dejas de escuchar.',
+    'history.today': 'Hoy',
+    'history.week': 'Últimos 7 días',
+    'history.streak': 'Racha',
+    'history.oneDay': '{count} día',
+    'history.days': '{count} días',
+    'history.longest': 'Más larga: {days}',
+    'history.sessions': 'Sesiones',
+    'history.daily': 'Práctica diaria, últimos {days} días',
+    'history.pieces': 'Piezas',
+    'history.noPieces': 'Practica una partitura en el modo Práctica para seguirla aquí.',
+    'history.piece': 'Pieza',
+    'history.time': 'Tiempo',
+    'history.completion': 'Progreso',
+    'history.best': 'Mejor',
+    'history.completionTitle': 'Parte de la pieza alcanzada en cada sesión',
+    'history.outOfTuneNotes': 'Notas desafinadas con más frecuencia',
+    'history.notEnoughNotes': 'Todavía no se han oído suficientes notas.',
+    'history.frames': '{count} tramas de altura oídas',
+    'history.outOfTune': '{share} % desafinado, {cents} ¢',
+    'history.recent': 'Sesiones recientes',
+    'history.notesPlayed': '{title}: {count} notas tocadas',
+    'history.stoppedAt': 'detenido en el compás {measure}, tiempo {beat}',
+    'history.export': 'Exportar',
+    'history.clear': 'Borrar el historial',
+    'history.clearConfirm': '¿Borrar todo el historial de práctica? No se puede deshacer. Expórtalo antes para guardar una copia.',
+    'history.local': 'El historial se guarda solo en este navegador.',
+    'metronome.start': 'Metrónomo',
+    'metronome.stop': 'Detener',
+    'metronome.beats': 'Tiempos',
+    'metronome.subdivision.1': 'Tiempos',
+    'metronome.subdivision.2': 'Corcheas',
+    'metronome.subdivision.3': 'Tresillos',
+    'metronome.subdivision.4': 'Semicorcheas',
+    'metronome.accent': 'Acentuar el tiempo 1',
+    'recording.open': 'Abrir una grabación',
+    'recording.failed': 'No se pudo analizar la grabación.',
+    'recording.undecodable': 'No se pudo decodificar «{file}». Usa un archivo WAV, OGG o MP3.',
+    'recording.detected': '{count} notas detectadas en {seconds} s',
+    'recording.followed': '{matched} de {total} notas de la partitura seguidas, {wrong} incorrectas',
+    'recording.noteTitle': '{note} en {seconds} s, {cents} cents',
+    'library.sort.title': 'Título',
+    'library.sort.composer': 'Compositor',
+    'library.sort.difficulty': 'Dificultad',
+    'library.sort.lastPracticed': 'Última práctica',
+    'library.sort.added': 'Añadidas recientemente',
+    'library.search': 'Buscar título, compositor o etiqueta',
+    'library.noMatch': 'Ninguna partitura coincide con tu búsqueda',
+    'library.tags': 'Etiquetas',
+    'library.addTags': 'Añadir etiquetas',
+    'library.never': 'Nunca',
+    'library.builtIn': 'incluida',
+    'library.difficultyLevel': 'Dificultad {level}',
+    'library.rename': 'Renombrar',
+    'library.delete': 'Eliminar partitura',
+    'library.deleteConfirm': '¿Quitar «{title}» de la biblioteca? También se eliminarán sus marcadores.',
+    'sheet.title': 'Partitura',
+    'sheet.untitled': 'Sin título',
+    'sheet.by': 'de {composer}',
+    'sheet.library': 'Biblioteca',
+    'sheet.exercises': 'Ejercicios',
+    'sheet.openFile': 'Abrir archivo',
+    'sheet.import': 'Importar',
+    'sheet.drop': 'Suelta aquí el archivo MusicXML',
+    'sheet.empty': 'Arrastra aquí un archivo MusicXML',
+    'sheet.emptyHint': 'o abre un archivo, impórtalo desde una URL o elige una pieza de ejemplo arriba',
+    'sheet.loadFailed': 'No se pudo cargar la partitura. Prueba con otro archivo.',
+    'sheet.readFailed': 'No se pudo leer la partitura.',
+    'sheet.unsupported': 'OpenSheetMusicDisplay no pudo leer «{file}». Puede que el MusicXML use funciones que no admite.',
+    'sheet.noNotes': '«{file}» no tiene notas que se puedan tocar.',
+    'sheet.practice': 'Practicar',
+    'sheet.part': 'Parte {number}',
+    'sheet.allVoices': 'Todas las voces',
+    'sheet.voice': 'Voz {number}',
+    'sheet.prev': 'Nota anterior',
+    'sheet.next': 'Nota siguiente',
+    'sheet.reset': 'Reiniciar',
+    'sheet.listen': 'Escuchar',
+    'sheet.stopPlayback': 'Detener reproducción',
+    'sheet.measure': 'Compás',
+    'sheet.average': 'Promedio',
+    'bookmark.name': 'Nombre del marcador',
+    'bookmark.add': 'Marcador',
+    'bookmark.list': 'Marcadores ({count})',
+    'bookmark.position': 'comp. {measure}, tiempo {beat}',
+    'bookmark.delete': 'Eliminar marcador',
+    'bookmark.default': 'Compás {measure}',
+    'loop.title': 'Repetir sección',
+    'loop.from': 'Desde el compás',
+    'loop.to': 'Hasta el compás',
+    'loop.repeats': 'Repeticiones',
+    'loop.startTempo': 'Tempo inicial %',
+    'loop.ramp': '% más rápido por pasada limpia',
+    'loop.start': 'Iniciar bucle',
+    'loop.stop': 'Detener bucle',
+    'loop.progress': 'Pasada {pass} de {repeats} a {tempo} BPM',
+    'loop.clean': '{clean} de {passes} pasadas limpias',
+    'loop.noNotes': 'No hay notas que tocar en esos compases.',
+    'loop.pass': 'Pasada',
+    'loop.tempo': 'Tempo',
+    'loop.mistakes': 'Notas falsas',
+    'loop.time': 'Duración',
+    'timing.toggle': 'Tocar a tempo',
+    'timing.start': 'Empezar con cuenta previa',
+    'timing.title': 'Precisión por compás',
+    'timing.early': 'Adelantado',
+    'timing.onTime': 'A tiempo',
+    'timing.late': 'Retrasado',
+    'timing.earlyBy': '{ms} ms adelantado',
+    'timing.lateBy': '{ms} ms retrasado',
+    'report.title': 'Informe de afinación',
+    'report.inTune': '{inTune} de {total} notas afinadas',
+    'report.legend': '(verde = hasta 10¢, amarillo = hasta 25¢, rojo = más lejos)',
+    'report.practice': 'Notas para practicar',
+    'report.note': 'Nota',
+    'report.wobble': 'Oscilación',
+    'report.attempts': 'Intentos',
+    'report.allInTune': 'Todas las notas estaban afinadas. ¡Muy bien!',
+    'sheet.topic.notation': 'Pentagrama:',
+    'sheet.about.notation': 'La música se muestra en un pentagrama tradicional con sus figuras',
+    'sheet.topic.import': 'Importar:',
+    'sheet.about.import': 'Suelta archivos MusicXML (.xml, .musicxml, .mxl comprimido) sobre el pentagrama, abre uno o impórtalo desde una URL',
+    'sheet.topic.exercises': 'Ejercicios:',
+    'sheet.about.exercises': 'Crea escalas y arpegios mayores y menores en cualquier tonalidad, cuerda o posición inicial, ritmo y golpe de arco',
+    'sheet.topic.fingering': 'Digitación:',
+    'sheet.about.fingering': 'La nota actual indica qué cuerda y qué dedo usar en 1.ª o 3.ª posición, siguiendo las digitaciones escritas en la partitura',
+    'sheet.topic.advance': 'Avance automático:',
+    'sheet.about.advance': 'Toca la nota correcta para pasar automáticamente a la siguiente; en una doble cuerda vale cualquiera de las dos',
+    'sheet.topic.parts': 'Partes:',
+    'sheet.about.parts': 'En dúos y partituras con piano solo se practica la parte de violín (o la que elijas)',
+    'sheet.topic.listen': 'Escuchar:',
+    'sheet.about.listen': 'Escucha la pieza desde la nota actual a su tempo escrito',
+    'sheet.topic.loop': 'Repetir sección:',
+    'sheet.about.loop': 'Repite unos compases y, si quieres, acelera tras cada pasada limpia',
+    'sheet.topic.timing': 'Tocar a tempo:',
+    'sheet.about.timing': 'Tras una cuenta previa de un compás, cada nota se compara con el ritmo de la partitura',
+    'sheet.topic.bookmarks': 'Marcadores:',
+    'sheet.about.bookmarks': 'Pon nombre a pasajes de cada partitura; la práctica se reanuda en el más reciente',
+    'import.notMusicXml': '«{file}» no es un archivo MusicXML. Elige un archivo .xml, .musicxml o .mxl.',
+    'import.badUrl': 'Esa URL no es válida.',
+    'import.unreachable': 'No se pudo acceder a {host}. Puede que el sitio no permita descargas desde otras páginas.',
+    'import.downloadFailed': 'Error en la descarga: {status}',
+    'import.notXml': 'El archivo no es un XML válido.',
+    'import.notScore': 'El archivo es XML pero no una partitura MusicXML (su elemento raíz es <{root}>).',
+    'import.noContainer': 'El archivo .mxl no tiene META-INF/container.xml.',
+    'import.badContainer': 'El archivo .mxl tiene un META-INF/container.xml dañado.',
+    'import.noRootName': 'El archivo .mxl no indica el archivo principal de la partitura.',
+    'import.noRoot': 'Al archivo .mxl le falta su archivo principal «{path}».',
+    'import.damaged': 'El archivo .mxl está dañado.',
+    'import.compression': 'El archivo .mxl usa un método de compresión no admitido.',
+    'gauge.idle': 'Toca la nota objetivo',
+    'gauge.inTune': '¡Afinado!',
+    'gauge.sharp.little': 'Demasiado alto, baja un poco',
+    'gauge.sharp.lot': 'Demasiado alto, baja bastante',
+    'gauge.flat.little': 'Demasiado bajo, sube un poco',
+    'gauge.flat.lot': 'Demasiado bajo, sube bastante',
+    'gauge.flat': '♭ bajo',
+    'gauge.sharp': 'alto ♯',
+    'graph.sharp': '+{cents}¢ alto',
+    'graph.flat': '-{cents}¢ bajo',
+    'graph.window': 'últimos {seconds} s'
+  }
+};
+
+const STORAGE_KEY = 'violin-companion-locale';
+
+function browserLanguage(): Language {
+  const language = (typeof navigator === 'undefined' ? '' : navigator.language).slice(0, 2);
+  return language in LANGUAGE_LABELS ? language as Language : 'en';
+}
+
+export function loadLocaleSettings(): LocaleSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<LocaleSettings>;
+    const language = saved.language && saved.language in LANGUAGE_LABELS ? saved.language : browserLanguage();
+    const naming = saved.naming && saved.naming in NAMING_LABELS ? saved.naming : DEFAULT_NAMING[language];
+    return { language, naming };
+  } catch {
+    const language = browserLanguage();
+    return { language, naming: DEFAULT_NAMING[language] };
+  }
+}
+
+/**
+ * The current language and note naming, shared by the whole app. Components follow changes
+ * through a LocaleController.
+ */
+class LocaleStore extends EventTarget {
+  private current: LocaleSettings | null = null;
+
+  get settings(): LocaleSettings {
+    // Loaded on first use so modules importing this outside the browser don't touch storage
+    this.current ??= loadLocaleSettings();
+    return this.current;
+  }
+
+  update(changes: Partial<LocaleSettings>): void {
+    // Switching language also switches to its usual note names unless they were chosen too
+    const naming = changes.naming ?? (changes.language ? DEFAULT_NAMING[changes.language] : this.settings.naming);
+    this.current = { ...this.settings, ...changes, naming };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.current));
+    this.dispatchEvent(new Event('locale-change'));
+  }
+}
+
+export const locale = new LocaleStore();
+
+/** Re-renders a component when the language or note naming changes. */
+export class LocaleController implements ReactiveController {
+  private host: ReactiveControllerHost;
+
+  constructor(host: ReactiveControllerHost) {
+    this.host = host;
+    host.addController(this);
+  }
+
+  hostConnected() {
+    locale.addEventListener('locale-change', this.handleChange);
+  }
+
+  hostDisconnected() {
+    locale.removeEventListener('locale-change', this.handleChange);
+  }
+
+  private handleChange = () => this.host.requestUpdate();
+}
+
+/** Text of a message in the current language, with {name} placeholders filled in. */
+export function t(key: MessageKey, params: { [name: string]: string | number } = {}): string {
+  const message = MESSAGES[locale.settings.language][key] ?? en[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => String(params[name] ?? placeholder));
+}
+
+const SOLFEGE: { [letter: string]: string } = { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' };
+
+export function accidentalSymbol(alter: number): string {
+  return alter > 0 ? '♯'.repeat(alter) : '♭'.repeat(-alter);
+}
+
+// German names: H is B natural, B is B flat, and accidentals are suffixes (Fis, Es, As)
+function germanName(letter: string, alter: number): string {
+  if (letter === 'B') {
+    if (alter === -1) return 'B';
+    if (alter === -2) return 'Heses';
+    return 'H' + 'is'.repeat(Math.max(0, alter));
+  }
+  if (alter >= 0) return letter + 'is'.repeat(alter);
+  // Vowels take a bare s: Es, As rather than Ees, Aes
+  return letter === 'E' || letter === 'A'
+    ? letter + 's' + 'es'.repeat(-alter - 1)
+    : letter + 'es'.repeat(-alter);
+}
+
+/**
+ * A note name in the chosen naming system, e.g. "Bb4" as "B♭4", "Si♭4" or "B4" (German).
+ * Without the octave it names the pitch class only, e.g. for strings. Anything that isn't a
+ * note name, like '--', is returned as is.
+ */
+export function formatNote(note: string, withOctave = true, naming: NoteNaming = locale.settings.naming): string {
+  const parsed = parseNote(note);
+  if (!parsed) return note;
+  const name = naming === 'german'
+    ? germanName(parsed.letter, parsed.alter)
+    : (naming === 'solfege' ? SOLFEGE[parsed.letter] ?? parsed.letter : parsed.letter) + accidentalSymbol(parsed.alter);
+  return withOctave ? `${name}${parsed.octave}` : name;
+}
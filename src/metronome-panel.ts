@@ -0,0 +1,147 @@
+import { LitElement, html, PropertyValues } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import { Metronome, MetronomeSettings, MIN_BPM, MAX_BPM } from './metronome';
+import { TimeSignature, beatLengthInQuarters } from './rhythm';
+import { MessageKey, LocaleController, t } from './locale';
+
+const SUBDIVISIONS: { value: number; label: MessageKey }[] = [
+  { value: 1, label: 'metronome.subdivision.1' },
+  { value: 2, label: 'metronome.subdivision.2' },
+  { value: 3, label: 'metronome.subdivision.3' },
+  { value: 4, label: 'metronome.subdivision.4' }
+];
+
+export class MetronomePanel extends LitElement {
+  // Tempo of the loaded score in quarter notes per minute; the panel resets to it when it changes
+  @property({ type: Number, attribute: false })
+  scoreTempo?: number;
+
+  @property({ attribute: false })
+  scoreTimeSignature?: TimeSignature;
+
+  @state()
+  private settings: MetronomeSettings;
+
+  @state()
+  private running = false;
+
+  // Beat currently lit in the indicator, -1 while stopped
+  @state()
+  private activeBeat = -1;
+
+  private metronome = new Metronome();
+
+  constructor() {
+    super();
+    new LocaleController(this);
+    this.settings = this.metronome.getSettings();
+    this.metronome.onTick = tick => {
+      if (tick.subdivision === 0) {
+        this.activeBeat = tick.beat;
+      }
+    };
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stop();
+  }
+
+  willUpdate(changed: PropertyValues<this>) {
+    if ((changed.has('scoreTempo') || changed.has('scoreTimeSignature')) && this.scoreTempo) {
+      const timeSignature = this.scoreTimeSignature ?? { beats: 4, beatType: 4 };
+      // The score tempo counts quarter notes; the metronome counts beats of the time signature
+      this.applySettings({
+        bpm: Math.round(this.scoreTempo / beatLengthInQuarters(timeSignature)),
+        beatsPerBar: timeSignature.beats
+      });
+    }
+  }
+
+  private applySettings(changes: Partial<MetronomeSettings>) {
+    this.metronome.setSettings(changes);
+    this.settings = this.metronome.getSettings();
+  }
+
+  async start() {
+    await this.metronome.start();
+    this.running = true;
+  }
+
+  stop() {
+    this.metronome.stop();
+    this.running = false;
+    this.activeBeat = -1;
+  }
+
+  render() {
+    return html`
+      <div class="bg-base-200 rounded-2xl p-4 mb-6">
+        <div class="flex flex-wrap items-center justify-center gap-4">
+          <button
+            class="btn btn-sm ${this.running ? 'btn-warning' : 'btn-outline'}"
+            @click=${() => this.running ? this.stop() : this.start()}>
+            <span class="icon-[mdi--metronome]"></span>
+            ${this.running ? t('metronome.stop') : t('metronome.start')}
+          </button>
+
+          <label class="flex items-center gap-2">
+            <input
+              type="range"
+              class="range range-xs range-primary w-32"
+              min=${MIN_BPM}
+              max=${MAX_BPM}
+              .value=${String(this.settings.bpm)}
+              @input=${(e: Event) => this.applySettings({ bpm: Number((e.target as HTMLInputElement).value) })} />
+            <span class="font-mono w-16">${this.settings.bpm} BPM</span>
+          </label>
+
+          <label class="flex items-center gap-2">
+            <span class="text-sm text-base-content/70">${t('metronome.beats')}</span>
+            <input
+              type="number"
+              class="input input-bordered input-xs w-14"
+              min="1"
+              max="12"
+              .value=${String(this.settings.beatsPerBar)}
+              @change=${(e: Event) => this.applySettings({ beatsPerBar: Number((e.target as HTMLInputElement).value) })} />
+          </label>
+
+          <select
+            class="select select-bordered select-xs"
+            @change=${(e: Event) => this.applySettings({ subdivision: Number((e.target as HTMLSelectElement).value) })}>
+            ${SUBDIVISIONS.map(({ value, label }) => html`
+              <option value=${value} ?selected=${this.settings.subdivision === value}>${t(label)}</option>
+            `)}
+          </select>
+
+          <label class="label cursor-pointer gap-2">
+            <input
+              type="checkbox"
+              class="checkbox checkbox-xs"
+              .checked=${this.settings.accentDownbeat}
+              @change=${(e: Event) => this.applySettings({ accentDownbeat: (e.target as HTMLInputElement).checked })} />
+            <span class="label-text">${t('metronome.accent')}</span>
+          </label>
+
+          <div class="flex gap-1">
+            ${Array.from({ length: this.settings.beatsPerBar }, (_, beat) => html`
+              <span class="w-4 h-4 rounded-full transition-colors duration-75 ${
+                beat === this.activeBeat
+                  ? (beat === 0 && this.settings.accentDownbeat ? 'bg-secondary' : 'bg-primary')
+                  : 'bg-base-300'
+              }"></span>
+            `)}
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+customElements.define('metronome-panel', MetronomePanel);
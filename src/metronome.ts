@@ -0,0 +1,139 @@
+// Sample-accurate metronome. Clicks are scheduled on the AudioContext clock a little ahead of
+// time; a timer only wakes the scheduler up, so main-thread jank never shifts a click.
+
+import { synthesizer } from './synth';
+
+export interface MetronomeSettings {
+  bpm: number; // Beats per minute, counted in the beat unit of the time signature
+  beatsPerBar: number;
+  subdivision: number; // Clicks per beat: 1 = beats only, 2 = eighths, 3 = triplets, 4 = sixteenths
+  accentDownbeat: boolean;
+}
+
+export interface MetronomeTick {
+  time: number; // AudioContext time the click sounds at
+  beat: number; // 0-based beat within the bar
+  subdivision: number; // 0 on the beat itself
+}
+
+export const MIN_BPM = 30;
+export const MAX_BPM = 240;
+
+export const DEFAULT_METRONOME: MetronomeSettings = {
+  bpm: 80,
+  beatsPerBar: 4,
+  subdivision: 1,
+  accentDownbeat: true
+};
+
+// How often the scheduler wakes up, and how far ahead of the audio clock it schedules
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const CLICK_SECONDS = 0.03;
+
+export class Metronome {
+  /** Called close to the moment each click is heard, for visual beat indicators. */
+  onTick?: (tick: MetronomeTick) => void;
+
+  private settings: MetronomeSettings = { ...DEFAULT_METRONOME };
+  private context?: AudioContext;
+  private output?: GainNode;
+  private timer?: number;
+  private frame?: number;
+  private nextTickTime = 0;
+  private beat = 0;
+  private subdivision = 0;
+  private queue: MetronomeTick[] = [];
+
+  get running(): boolean {
+    return this.timer !== undefined;
+  }
+
+  getSettings(): MetronomeSettings {
+    return { ...this.settings };
+  }
+
+  /** Change settings; a running metronome picks them up from the next click. */
+  setSettings(changes: Partial<MetronomeSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.settings.bpm = Math.min(MAX_BPM, Math.max(MIN_BPM, this.settings.bpm));
+    this.settings.beatsPerBar = Math.max(1, Math.round(this.settings.beatsPerBar));
+    this.settings.subdivision = Math.max(1, Math.round(this.settings.subdivision));
+    this.beat %= this.settings.beatsPerBar;
+    this.subdivision %= this.settings.subdivision;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.context = await synthesizer.getContext();
+    this.output = await synthesizer.getOutput();
+    this.nextTickTime = this.context.currentTime + 0.05;
+    this.beat = 0;
+    this.subdivision = 0;
+    this.queue = [];
+
+    this.timer = window.setInterval(() => this.schedule(), LOOKAHEAD_MS);
+    this.schedule();
+    this.frame = requestAnimationFrame(this.reportTicks);
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+      this.frame = undefined;
+    }
+    this.queue = [];
+  }
+
+  private schedule(): void {
+    const context = this.context;
+    if (!context) return;
+
+    while (this.nextTickTime < context.currentTime + SCHEDULE_AHEAD_SECONDS) {
+      const tick = { time: this.nextTickTime, beat: this.beat, subdivision: this.subdivision };
+      this.scheduleClick(tick);
+      this.queue.push(tick);
+
+      this.nextTickTime += 60 / this.settings.bpm / this.settings.subdivision;
+      this.subdivision++;
+      if (this.subdivision >= this.settings.subdivision) {
+        this.subdivision = 0;
+        this.beat = (this.beat + 1) % this.settings.beatsPerBar;
+      }
+    }
+  }
+
+  private scheduleClick(tick: MetronomeTick): void {
+    const context = this.context!;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    const accented = this.settings.accentDownbeat && tick.beat === 0 && tick.subdivision === 0;
+    oscillator.frequency.value = accented ? 1600 : tick.subdivision === 0 ? 1000 : 700;
+    const level = accented ? 0.6 : tick.subdivision === 0 ? 0.4 : 0.2;
+
+    gain.gain.setValueAtTime(level, tick.time);
+    gain.gain.exponentialRampToValueAtTime(0.001, tick.time + CLICK_SECONDS);
+    oscillator.connect(gain);
+    gain.connect(this.output!);
+    oscillator.start(tick.time);
+    oscillator.stop(tick.time + CLICK_SECONDS);
+  }
+
+  private readonly reportTicks = (): void => {
+    const context = this.context;
+    if (context) {
+      while (this.queue.length > 0 && (this.queue[0]?.time ?? Infinity) <= context.currentTime) {
+        const tick = this.queue.shift()!;
+        this.onTick?.(tick);
+      }
+    }
+    if (this.running) {
+      this.frame = requestAnimationFrame(this.reportTicks);
+    }
+  };
+}
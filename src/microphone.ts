@@ -0,0 +1,50 @@
+// Microphone access: choosing an input device and explaining why it can't be opened.
+
+// Explained by microphone.<error> in the locale catalog
+export type MicrophoneError = 'denied' | 'no-device' | 'device-lost' | 'unavailable';
+
+const STORAGE_KEY = 'violin-companion-input-device';
+
+export function loadInputDeviceId(): string {
+  return localStorage.getItem(STORAGE_KEY) ?? '';
+}
+
+export function saveInputDeviceId(deviceId: string): void {
+  if (deviceId) {
+    localStorage.setItem(STORAGE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function classifyMicrophoneError(error: unknown): MicrophoneError {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'no-device';
+  return 'unavailable';
+}
+
+/** Audio inputs; their labels are empty until microphone permission has been granted. */
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+/**
+ * Open the chosen input, or the default one when no device is chosen. A chosen device that is
+ * no longer connected falls back to the default rather than failing.
+ */
+export async function openMicrophone(deviceId: string): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('getUserMedia is not supported', 'NotSupportedError');
+  }
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+    } catch (error) {
+      if (classifyMicrophoneError(error) !== 'no-device') throw error;
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: true });
+}
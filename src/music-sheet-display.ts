@@ -1,27 +1,83 @@
 import { LitElement, html } from 'lit';
-import { state, query } from 'lit/decorators.js';
-import { OpenSheetMusicDisplay } from 'opensheetmusicdisplay';
-
-interface NoteInfo {
-  pitch: string; // e.g., "C4", "D5"
+import { property, state, query } from 'lit/decorators.js';
+import { OpenSheetMusicDisplay, Note, VexFlowGraphicalNote } from 'opensheetmusicdisplay';
+import {
+  TimeSignature,
+  TimingResult,
+  MeasureTimingSummary,
+  DEFAULT_TEMPO_BPM,
+  quarterNotesToMs,
+  beatLengthInQuarters,
+  timingToleranceMs,
+  classifyTiming,
+  summarizeByMeasure
+} from './rhythm';
+import { NoteIntonation, IntonationTracker, intonationQuality } from './intonation';
+import { TuningSettings, DEFAULT_TUNING, noteToFrequency, centsBetween } from './tuning';
+import { synthesizer } from './synth';
+import { LoopSettings, LoopPass, DEFAULT_LOOP, nextLoopTempo, cleanPassCount } from './section-loop';
+import { Bookmark, loadBookmarks, saveBookmarks, createBookmark, hashScoreContent } from './bookmarks';
+import { ImportedScore, ScoreImportError, SCORE_FILE_EXTENSIONS, readScoreFile, fetchScore } from './score-import';
+import {
+  LibraryScore,
+  DEFAULT_SCORE_ID,
+  listScores,
+  addImportedScore,
+  updateScore,
+  deleteScore
+} from './score-library';
+import './score-library-panel';
+import './exercise-panel';
+import './fingering-hint';
+import { FingeringMarks, parseFingeringMarks } from './fingering';
+import { LocaleController, t, formatNote } from './locale';
+import { ScoreStep, matchesStep } from './score-following';
+import { PracticeStep, defaultPartIndex } from './score-notes';
+import { MusicXmlPart, readMusicXml } from './musicxml';
+import { notePitch, osmdPracticeSteps } from './osmd-notes';
+
+interface NoteInfo extends PracticeStep<Note> {
   index: number;
+  cursorStep: number; // Number of cursor.next() calls from the start to reach this note
+}
+
+interface ScorePart {
+  name: string;
+  voices: number[]; // OSMD voice ids
 }
 
+// Features explained under the score, named sheet.topic.<topic> and sheet.about.<topic>
+const HELP_TOPICS = [
+  'notation', 'import', 'exercises', 'fingering', 'advance', 'parts', 'listen', 'loop', 'timing', 'bookmarks'
+] as const;
+
 export class MusicSheetDisplay extends LitElement {
+  // Reference pitch and temperament that intonation is measured against
+  @property({ attribute: false })
+  tuning: TuningSettings = DEFAULT_TUNING;
+
   @state()
   private currentNoteIndex = 0;
 
+  // Bookmarks of the loaded score
+  @state()
+  private bookmarks: Bookmark[] = [];
+
+  @state()
+  private bookmarkName = '';
+
   @state()
-  private bookmark: number = 0;
+  private library: LibraryScore[] = [];
 
   @state()
-  private availableScores: { name: string; path: string }[] = [
-    { name: 'Twinkle Twinkle Little Star', path: '/scores/twinkle-twinkle.xml' },
-    { name: 'Mary Had a Little Lamb', path: '/scores/mary-lamb.xml' }
-  ];
+  private showLibrary = false;
 
   @state()
-  private selectedScore = 0;
+  private showExercises = false;
+
+  // Library id of the loaded score; bookmarks are stored under it too
+  @state()
+  private scoreId = '';
 
   @state()
   private isLoading = false;
@@ -29,6 +85,23 @@ export class MusicSheetDisplay extends LitElement {
   @state()
   private errorMessage = '';
 
+  // Parts of the loaded score; only the selected part (and voice) is practiced
+  @state()
+  private parts: ScorePart[] = [];
+
+  @state()
+  private partIndex = 0;
+
+  // The parts as read by the MusicXML reader, for their repeat and jump marks
+  private scoreParts: MusicXmlPart[] = [];
+
+  // Selected voice id of the part, or null for all of its voices
+  @state()
+  private voiceId: number | null = null;
+
+  @state()
+  private importUrl = '';
+
   @state()
   private sheetTitle = '';
 
@@ -38,24 +111,88 @@ export class MusicSheetDisplay extends LitElement {
   @state()
   private needsInitialLoad = true;
 
+  @state()
+  private tempoBpm = DEFAULT_TEMPO_BPM;
+
+  @state()
+  private timeSignature: TimeSignature = { beats: 4, beatType: 4 };
+
+  @state()
+  private timedMode = false;
+
+  // Beats left in the count-in, 0 when not counting in
+  @state()
+  private countInBeats = 0;
+
+  @state()
+  private playAlongRunning = false;
+
+  // True while the synthesizer is playing the score
+  @state()
+  private isPlayingBack = false;
+
+  // Section being looped, null when the whole piece is practiced
+  @state()
+  private loop: LoopSettings | null = null;
+
+  // Values in the loop form, applied when the loop is started
+  @state()
+  private loopDraft: LoopSettings = { startMeasure: 1, endMeasure: 1, ...DEFAULT_LOOP };
+
+  @state()
+  private loopPasses: LoopPass[] = [];
+
+  // Practice tempo while a loop ramps up, undefined to use the written tempo
+  @state()
+  private loopTempoBpm?: number;
+
+  @state()
+  private lastTiming?: TimingResult;
+
+  @state()
+  private timingSummary: MeasureTimingSummary[] = [];
+
+  // Intonation results shown once the last note of the piece has been played
+  @state()
+  private reportCard: { results: NoteIntonation[]; hardest: NoteIntonation[] } | null = null;
+
   @query('#osmdContainer')
   private container?: HTMLDivElement;
 
   private osmd?: OpenSheetMusicDisplay;
   private notes: NoteInfo[] = [];
   private dragCounter = 0;
+  // Whether the loaded score's last-practiced date has been updated yet
+  private practiceRecorded = false;
+  // Current position of the OSMD cursor, counted in cursor.next() steps
+  private cursorStep = 0;
+  // performance.now() at which beat 0 of the piece falls in the current play-along
+  private playAlongOrigin = 0;
+  private countInTimer?: number;
+  private timingResults: TimingResult[] = [];
+  private intonation = new IntonationTracker();
+  private loopMistakes = 0;
+  private loopPassStart = 0;
+  // Score note the last matching onset belonged to; pitch frames are scored against it
+  private soundingNoteIndex = -1;
   
   // Delay to allow OSMD layout engine to complete calculations before rendering
   private readonly OSMD_LAYOUT_DELAY_MS = 100;
 
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
   // Disable shadow DOM for Tailwind
   createRenderRoot() {
     return this;
   }
 
-  connectedCallback() {
-    super.connectedCallback();
-    this.loadBookmark();
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stopPlayAlong();
+    this.stopPlayback();
   }
 
   async firstUpdated() {
@@ -68,12 +205,69 @@ export class MusicSheetDisplay extends LitElement {
     // Load score after first render is complete
     if (this.needsInitialLoad && this.container && this.container.offsetWidth > 0) {
       this.needsInitialLoad = false;
-      await this.loadScore(this.availableScores[this.selectedScore].path);
+      await this.refreshLibrary();
+      await this.openScore(DEFAULT_SCORE_ID);
+    }
+  }
+
+  private async refreshLibrary() {
+    try {
+      this.library = await listScores();
+    } catch (error) {
+      // e.g. storage disabled in private browsing; built-in scores still load by path
+      console.warn('Score library unavailable:', error);
+    }
+  }
+
+  private async openScore(id: string) {
+    const score = this.library.find(entry => entry.id === id);
+    if (score?.xml) {
+      await this.loadScoreFromString(score.xml, score.title);
+    } else {
+      await this.loadScore(score?.path ?? id);
+    }
+    // The library title may have been renamed from the one in the file
+    if (score && this.scoreId === id) {
+      this.sheetTitle = score.title;
+    }
+  }
+
+  // Record that the loaded score was practiced, once per load
+  private recordPractice() {
+    if (this.practiceRecorded || !this.library.some(score => score.id === this.scoreId)) return;
+    this.practiceRecorded = true;
+    updateScore(this.scoreId, { lastPracticedAt: Date.now() })
+      .then(() => this.refreshLibrary())
+      .catch(error => console.warn('Could not update the score library:', error));
+  }
+
+  private async handleLibraryUpdate(e: CustomEvent<{ id: string; changes: Partial<LibraryScore> }>) {
+    await updateScore(e.detail.id, e.detail.changes);
+    await this.refreshLibrary();
+    if (e.detail.id === this.scoreId && e.detail.changes.title) {
+      this.sheetTitle = e.detail.changes.title;
+    }
+  }
+
+  private async handleLibraryDelete(e: CustomEvent<{ id: string }>) {
+    // Bookmarks go only with a score that was actually removed
+    if (!await deleteScore(e.detail.id)) return;
+    saveBookmarks(e.detail.id, []);
+    await this.refreshLibrary();
+    // Switch away from a deleted score that is on display, leaving none of its loop or bookmarks
+    if (e.detail.id === this.scoreId) {
+      await this.openScore(DEFAULT_SCORE_ID);
     }
   }
 
   private async loadScore(path: string) {
     // Set loading state BEFORE creating OSMD
+    this.stopPlayAlong();
+    this.stopPlayback();
+    this.stopLoop();
+    this.loopPasses = [];
+    this.timingSummary = [];
+    this.clearIntonation();
     this.isLoading = true;
     this.errorMessage = '';
     await this.updateComplete; // Wait for loading spinner to render
@@ -99,10 +293,14 @@ export class MusicSheetDisplay extends LitElement {
         drawTitle: false,
         drawComposer: false,
         drawCredits: false,
-        drawPartNames: false
+        drawPartNames: false,
+        followCursor: true
       });
 
-      await this.osmd.load(path);
+      // Load the text rather than the URL so the repeats can be read from it too
+      const { xml } = await fetchScore(path);
+      this.readRepeatMarks(xml);
+      await this.osmd.load(xml);
       
       // Wait for layout to complete
       await new Promise(resolve => setTimeout(resolve, this.OSMD_LAYOUT_DELAY_MS));
@@ -110,155 +308,324 @@ export class MusicSheetDisplay extends LitElement {
       await this.osmd.render();
 
       // Extract notes from the sheet
+      this.extractParts();
       this.extractNotes();
       
       // Extract metadata and update state
       if (this.osmd.sheet) {
-        this.sheetTitle = this.osmd.sheet.TitleString || 'Untitled';
+        this.sheetTitle = this.osmd.sheet.TitleString || t('sheet.untitled');
         this.sheetComposer = this.osmd.sheet.Composer?.text || '';
       }
+      this.announceScore();
+
+      // Resume at the score's most recent bookmark
+      this.restoreBookmarks(path);
+      this.practiceRecorded = false;
 
-      // Restore bookmark if valid
-      if (this.bookmark >= this.notes.length) {
-        this.bookmark = 0;
-        this.saveBookmark();
+      // Built-in entries only learn their composer once loaded
+      const entry = this.library.find(score => score.id === path);
+      if (entry && this.sheetComposer && entry.composer !== this.sheetComposer) {
+        await updateScore(path, { composer: this.sheetComposer });
+        await this.refreshLibrary();
       }
-      this.currentNoteIndex = this.bookmark;
 
       // Highlight current note
       this.highlightCurrentNote();
 
     } catch (error) {
       console.error('Error loading score:', error);
-      this.errorMessage = 'Failed to load music sheet. Please try another file.';
+      this.errorMessage = t('sheet.loadFailed');
     } finally {
       this.isLoading = false;
     }
   }
 
+  private readRepeatMarks(xml: string) {
+    try {
+      this.scoreParts = readMusicXml(xml).parts;
+    } catch (error) {
+      console.warn('Could not read the repeats of the score, practicing it as written:', error);
+      this.scoreParts = [];
+    }
+  }
+
+  // List the score's parts and pick the violin (or else the first) part
+  private extractParts() {
+    const instruments = this.osmd?.Sheet?.Instruments ?? [];
+    this.parts = instruments.map((instrument, i) => ({
+      name: instrument.Name || t('sheet.part', { number: i + 1 }),
+      voices: instrument.Voices.map(voice => voice.VoiceId)
+    }));
+    this.partIndex = defaultPartIndex(this.parts.map(part => part.name));
+    this.voiceId = null;
+  }
+
+  /**
+   * Build the practice sequence of the selected part by walking the OSMD cursor through the
+   * score, with repeats, voltas and D.C./D.S. jumps unrolled so notes come out in the order
+   * they are played.
+   */
   private extractNotes() {
     this.notes = [];
-    if (!this.osmd?.sheet || !this.osmd?.sheet.SourceMeasures) return;
+    const cursor = this.osmd?.cursor;
+    const sheet = this.osmd?.Sheet;
+    const instrument = sheet?.Instruments[this.partIndex];
+    if (!cursor || !sheet || !instrument) return;
 
-    let noteIndex = 0;
-    
     try {
-      // Iterate through measures and extract notes
-      for (const measure of this.osmd.sheet.SourceMeasures) {
-        if (!measure.VerticalSourceStaffEntryContainers) continue;
-        
-        for (const staffEntry of measure.VerticalSourceStaffEntryContainers) {
-          if (!staffEntry.StaffEntries) continue;
-          
-          for (const entry of staffEntry.StaffEntries) {
-            if (!entry || !entry.VoiceEntries) continue;
-            
-            for (const voiceEntry of entry.VoiceEntries) {
-              if (!voiceEntry || !voiceEntry.Notes) continue;
-              
-              for (const note of voiceEntry.Notes) {
-                if (note && !note.isRest() && note.Pitch) {
-                  try {
-                    const pitch = this.getNoteString(note);
-                    if (pitch && pitch.length > 1) { // Valid pitch like "C4"
-                      this.notes.push({ pitch, index: noteIndex++ });
-                    }
-                  } catch (e) {
-                    console.warn('Error extracting note:', e);
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+      cursor.reset();
+      const marks = this.scoreParts[this.partIndex]?.measures ?? null;
+      this.notes = osmdPracticeSteps(cursor.Iterator, sheet, instrument, this.voiceId, marks)
+        .map((step, index) => ({ ...step, index }));
+      cursor.reset();
+      this.cursorStep = 0;
+
+      this.extractTiming();
+      this.resetLoopDraft();
       console.log('Extracted notes:', this.notes);
     } catch (error) {
       console.error('Error in extractNotes:', error);
     }
   }
 
-  private getNoteString(note: any): string {
-    try {
-      // Get the actual pitch information
-      const pitch = note.Pitch;
-      if (!pitch) return '';
-      
-      const step = pitch.FundamentalNote;
-      const octave = pitch.Octave;
-      const alter = pitch.Accidental || 0;
-      
-      // The step should be 0-6 for C-B
-      // OSMD FundamentalNote enum: 0=C, 1=D, 2=E, 3=F, 4=G, 5=A, 6=B
-      const noteNames = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
-      let noteName = '';
-      
-      if (step >= 0 && step < 7) {
-        noteName = noteNames[step];
-      } else {
-        // Invalid note, skip it
-        return '';
+  // Whether the sequence jumps back in the score (a repeat or D.C./D.S.) between two notes
+  private isBackJump(previous: NoteInfo, next: NoteInfo): boolean {
+    return next.measureIndex < previous.measureIndex ||
+      (next.measureIndex === previous.measureIndex && next.measureBeat < previous.measureBeat);
+  }
+
+  // Read the starting tempo and meter; the play-along uses them for the whole piece
+  private extractTiming() {
+    const sheet = this.osmd?.Sheet;
+    const firstMeasure = sheet?.SourceMeasures[0];
+
+    this.tempoBpm = sheet?.DefaultStartTempoInBpm || firstMeasure?.TempoInBPM || DEFAULT_TEMPO_BPM;
+
+    const signature = firstMeasure?.ActiveTimeSignature;
+    this.timeSignature = signature && signature.Numerator > 0 && signature.Denominator > 0
+      ? { beats: signature.Numerator, beatType: signature.Denominator }
+      : { beats: 4, beatType: 4 };
+  }
+
+  // Written tempo, or the slower one a section loop is currently practiced at
+  private get practiceTempo(): number {
+    return this.loopTempoBpm ?? this.tempoBpm;
+  }
+
+  // Let the metronome follow the practice tempo
+  private announceTempo() {
+    this.dispatchEvent(new CustomEvent('tempo-change', {
+      detail: { tempoBpm: this.practiceTempo, timeSignature: this.timeSignature },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  // Let the rest of the app (e.g. the metronome) pick up the new score's tempo and meter
+  private announceScore() {
+    this.dispatchEvent(new CustomEvent('score-loaded', {
+      detail: {
+        title: this.sheetTitle,
+        tempoBpm: this.tempoBpm,
+        timeSignature: this.timeSignature
+      },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private highlightCurrentNote() {
+    const cursor = this.osmd?.cursor;
+    if (!this.osmd || !cursor) return;
+
+    const currentNote = this.getCurrentNote();
+    if (!currentNote) {
+      cursor.hide();
+      return;
+    }
+
+    this.moveCursorTo(currentNote.cursorStep);
+    cursor.show();
+    this.markPlayedNotes();
+
+    // followCursor only scrolls on cursor.next(), so also scroll after jumps backwards
+    cursor.cursorElement?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }
+
+  private moveCursorTo(step: number) {
+    const cursor = this.osmd?.cursor;
+    if (!cursor) return;
+
+    // The iterator only moves forward reliably, so restart from the top when going back
+    if (step < this.cursorStep) {
+      cursor.reset();
+      this.cursorStep = 0;
+    }
+    while (this.cursorStep < step && !cursor.Iterator.EndReached) {
+      cursor.Iterator.moveToNext();
+      this.cursorStep++;
+    }
+    cursor.update();
+  }
+
+  // Color notes before the current one as done, and clear the mark from the rest
+  private markPlayedNotes() {
+    // Repeated passes share note elements: anything already played stays marked, except what
+    // is still ahead before the next jump back
+    const played = new Map<Note, boolean>();
+    for (const info of this.notes) {
+      for (const note of info.sources) {
+        played.set(note, played.get(note) || info.index < this.currentNoteIndex);
       }
-      
-      // OSMD uses octave numbering where middle C (C4) is octave 1
-      // We need to add 3 to match standard notation
-      const standardOctave = octave + 3;
-      
-      if (alter === 1) noteName += '#';
-      // Flats converted to enharmonic sharps for consistency
-      else if (alter === -1) {
-        const flatToSharp: { [key: string]: string } = {
-          'D': 'C#', 'E': 'D#', 'G': 'F#', 'A': 'G#', 'B': 'A#'
-        };
-        noteName = flatToSharp[noteName] || noteName;
+    }
+    for (let i = this.currentNoteIndex; i < this.notes.length; i++) {
+      const info = this.notes[i]!;
+      const previous = this.notes[i - 1];
+      if (i > this.currentNoteIndex && previous && this.isBackJump(previous, info)) break;
+      info.sources.forEach(note => played.set(note, false));
+    }
+    for (const [note, isPlayed] of played) {
+      this.getNoteElement(note)?.classList.toggle('note-played', isPlayed);
+    }
+  }
+
+  // Color every scored note on the sheet by its intonation quality, or clear the colors
+  private markIntonation(results: NoteIntonation[]) {
+    const qualityByIndex = new Map(results.map(result => [result.noteIndex, intonationQuality(result)]));
+    for (const info of this.notes) {
+      const quality = qualityByIndex.get(info.index);
+      for (const note of info.sources) {
+        const element = this.getNoteElement(note);
+        if (!element) continue;
+        for (const level of ['good', 'fair', 'poor']) {
+          element.classList.toggle(`note-intonation-${level}`, quality === level);
+        }
       }
-      
-      return noteName + standardOctave;
-    } catch (error) {
-      console.error('Error getting note string:', error);
-      return '';
     }
   }
 
-  private highlightCurrentNote() {
-    if (!this.osmd) return;
+  private getNoteElement(note: Note): SVGGElement | undefined {
+    const graphicalNote = this.osmd?.EngravingRules.GNote(note) as VexFlowGraphicalNote | undefined;
+    return graphicalNote?.getSVGGElement?.();
+  }
 
-    // Remove previous highlights
-    const previousHighlights = this.container?.querySelectorAll('.current-note-highlight');
-    previousHighlights?.forEach(el => el.remove());
+  // Pitches as written in the score, in the chosen note names, e.g. "D4 + A4" for a double stop
+  private noteLabel(note: NoteInfo): string {
+    return note.pitches.map(pitch => formatNote(pitch)).join(' + ');
+  }
 
-    // TODO: Use OSMD cursor API to highlight the current note on the staff
-    // For now, we rely on the visual indicator showing the current note name
+  // Pitches of a step with the fingering and string marks written on their notes
+  private fingeringNotes(note: NoteInfo): { pitch: string; marks?: FingeringMarks }[] {
+    return note.pitches.map(pitch => {
+      const source = note.sources.find(source => notePitch(source) === pitch);
+      return {
+        pitch,
+        marks: source && parseFingeringMarks(source.Fingering?.value, source.StringInstruction?.value)
+      };
+    });
   }
 
-  private loadBookmark() {
-    const saved = localStorage.getItem('violin-companion-bookmark');
-    if (saved) {
-      this.bookmark = parseInt(saved, 10) || 0;
+  private restoreBookmarks(scoreId: string) {
+    this.scoreId = scoreId;
+    this.bookmarks = loadBookmarks(scoreId);
+    const latest = [...this.bookmarks].sort((a, b) => b.createdAt - a.createdAt)[0];
+    this.currentNoteIndex = latest ? this.noteIndexForBookmark(latest) : 0;
+  }
+
+  private noteIndexForBookmark(bookmark: Bookmark): number {
+    return this.noteIndexAt(bookmark.measureNumber, bookmark.beat);
+  }
+
+  // First note at or after a beat, on the first pass through its measure
+  private noteIndexAt(measureNumber: number, beat: number): number {
+    const inMeasure = this.notes.filter(note => note.measureNumber === measureNumber);
+    const firstPass = inMeasure.filter(note => note.measureIndex === inMeasure[0]?.measureIndex);
+    const atBeat = firstPass.find(note => note.measureBeat >= beat - 1e-6) ?? firstPass[0];
+    if (atBeat) return atBeat.index;
+    // The measure has no notes (e.g. only rests): use the next one that has
+    const after = this.notes.find(note => note.measureNumber > measureNumber);
+    return after?.index ?? Math.max(0, this.notes.length - 1);
+  }
+
+  // Practice another part or voice, staying at the same place in the score
+  private selectPart(partIndex: number, voiceId: number | null) {
+    const current = this.getCurrentNote();
+    this.stopPlayAlong();
+    this.stopPlayback();
+    this.stopLoop();
+    this.loopPasses = [];
+    this.timingSummary = [];
+    this.clearIntonation();
+    for (const info of this.notes) {
+      info.sources.forEach(note => this.getNoteElement(note)?.classList.remove('note-played'));
     }
+
+    this.partIndex = partIndex;
+    this.voiceId = voiceId;
+    this.extractNotes();
+    this.currentNoteIndex = current ? this.noteIndexAt(current.measureNumber, current.measureBeat) : 0;
+    this.highlightCurrentNote();
   }
 
-  private saveBookmark() {
-    localStorage.setItem('violin-companion-bookmark', this.bookmark.toString());
+  private renderPartPicker() {
+    const part = this.parts[this.partIndex];
+    if (!part || (this.parts.length < 2 && part.voices.length < 2)) return '';
+
+    return html`
+      <div class="flex flex-wrap items-center gap-2 mb-4">
+        <span class="text-sm text-base-content/70">${t('sheet.practice')}</span>
+        <select
+          class="select select-bordered select-sm"
+          @change=${(e: Event) => this.selectPart(Number((e.target as HTMLSelectElement).value), null)}>
+          ${this.parts.map((p, index) => html`
+            <option value=${index} ?selected=${index === this.partIndex}>${p.name}</option>
+          `)}
+        </select>
+        ${part.voices.length > 1 ? html`
+          <select
+            class="select select-bordered select-sm"
+            @change=${(e: Event) => {
+              const value = (e.target as HTMLSelectElement).value;
+              this.selectPart(this.partIndex, value === 'all' ? null : Number(value));
+            }}>
+            <option value="all" ?selected=${this.voiceId === null}>${t('sheet.allVoices')}</option>
+            ${part.voices.map((voice, index) => html`
+              <option value=${voice} ?selected=${voice === this.voiceId}>${t('sheet.voice', { number: index + 1 })}</option>
+            `)}
+          </select>
+        ` : ''}
+      </div>
+    `;
   }
 
-  setBookmark() {
-    this.bookmark = this.currentNoteIndex;
-    this.saveBookmark();
+  addBookmark() {
+    const note = this.getCurrentNote();
+    if (!note || !this.scoreId) return;
+
+    const bookmark = createBookmark(this.bookmarkName, note.measureNumber, note.measureBeat);
+    this.bookmarks = [...this.bookmarks, bookmark];
+    this.bookmarkName = '';
+    saveBookmarks(this.scoreId, this.bookmarks);
     this.dispatchEvent(new CustomEvent('bookmark-set', {
-      detail: { index: this.bookmark },
+      detail: { bookmark },
       bubbles: true,
       composed: true
     }));
   }
 
-  goToBookmark() {
-    this.currentNoteIndex = this.bookmark;
+  deleteBookmark(bookmark: Bookmark) {
+    this.bookmarks = this.bookmarks.filter(b => b.id !== bookmark.id);
+    saveBookmarks(this.scoreId, this.bookmarks);
+  }
+
+  goToBookmark(bookmark: Bookmark) {
+    this.currentNoteIndex = this.noteIndexForBookmark(bookmark);
     this.highlightCurrentNote();
   }
 
   reset() {
     this.currentNoteIndex = 0;
+    this.clearIntonation();
     this.highlightCurrentNote();
   }
 
@@ -280,23 +647,280 @@ export class MusicSheetDisplay extends LitElement {
     return this.notes[this.currentNoteIndex] || null;
   }
 
-  checkNote(detectedNote: string): boolean {
+  /** Steps of the practice sequence, for following a recording through the score. */
+  getPracticeSteps(): ScoreStep[] {
+    return this.notes;
+  }
+
+  /** The loaded score, for the practice history. */
+  getScoreInfo(): { id: string; title: string; totalNotes: number } {
+    return { id: this.scoreId, title: this.sheetTitle, totalNotes: this.notes.length };
+  }
+
+  /**
+   * Check a detected note against the current score note and advance on a match.
+   * For a chord or double stop, either of its pitches counts (see matchesStep).
+   * @param onsetTime performance.now() timestamp of the note onset, used in timed mode
+   */
+  checkNote(detectedNote: string, onsetTime: number = performance.now()): boolean {
     const currentNote = this.getCurrentNote();
-    if (!currentNote) return false;
+    // The microphone hears the playback too, so don't let it advance the score
+    if (!currentNote || this.countInBeats > 0 || this.isPlayingBack) return false;
+
+    this.intonation.addAttempt(currentNote.index);
     
-    if (detectedNote === currentNote.pitch) {
-      this.nextNote();
+    if (matchesStep(currentNote, detectedNote)) {
+      this.soundingNoteIndex = currentNote.index;
+      this.recordPractice();
+      if (this.playAlongRunning) {
+        this.recordTiming(currentNote, onsetTime);
+      }
+
+      if (this.loop && currentNote.index === this.loopBounds()?.end.index) {
+        this.completeLoopPass(onsetTime);
+      } else if (currentNote.index === this.notes.length - 1) {
+        this.completePiece();
+      } else {
+        this.nextNote();
+      }
       return true;
     }
+    this.soundingNoteIndex = -1;
+    if (this.loop) {
+      this.loopMistakes++;
+    }
     return false;
   }
 
+  private measureNumbers(): number[] {
+    return [...new Set(this.notes.map(note => note.measureNumber))].sort((a, b) => a - b);
+  }
+
+  private resetLoopDraft() {
+    const measures = this.measureNumbers();
+    this.loopDraft = {
+      ...this.loopDraft,
+      startMeasure: measures[0] ?? 1,
+      endMeasure: measures[measures.length - 1] ?? 1
+    };
+  }
+
+  // First and last score notes of the looped section
+  private loopBounds(): { start: NoteInfo; end: NoteInfo } | null {
+    if (!this.loop) return null;
+    const { startMeasure, endMeasure } = this.loop;
+    const inLoop = (note?: NoteInfo) => !!note && note.measureNumber >= startMeasure && note.measureNumber <= endMeasure;
+
+    // The first stretch of the performance that stays inside the measures, so a section that is
+    // repeated in the score is looped once (or with its repeat, if the repeat is inside it)
+    const start = this.notes.find(note => inLoop(note));
+    if (!start) return null;
+    let end = start;
+    while (inLoop(this.notes[end.index + 1])) {
+      end = this.notes[end.index + 1]!;
+    }
+    return { start, end };
+  }
+
+  startLoop() {
+    const { startMeasure, endMeasure } = this.loopDraft;
+    this.loop = {
+      ...this.loopDraft,
+      startMeasure: Math.min(startMeasure, endMeasure),
+      endMeasure: Math.max(startMeasure, endMeasure)
+    };
+    const bounds = this.loopBounds();
+    if (!bounds) {
+      this.loop = null;
+      this.errorMessage = t('loop.noNotes');
+      return;
+    }
+
+    this.loopPasses = [];
+    this.loopMistakes = 0;
+    this.loopPassStart = performance.now();
+    this.loopTempoBpm = Math.round(this.tempoBpm * this.loop.startTempoPercent / 100);
+    this.currentNoteIndex = bounds.start.index;
+    this.highlightCurrentNote();
+    this.announceTempo();
+  }
+
+  stopLoop() {
+    if (!this.loop) return;
+    this.loop = null;
+    this.loopTempoBpm = undefined;
+    this.announceTempo();
+  }
+
+  // The last note of the section was played: record the pass and wrap around, or finish
+  private completeLoopPass(onsetTime: number) {
+    const loop = this.loop;
+    const bounds = this.loopBounds();
+    if (!loop || !bounds) return;
+
+    const tempoBpm = this.practiceTempo;
+    const pass: LoopPass = {
+      pass: this.loopPasses.length + 1,
+      tempoBpm,
+      mistakes: this.loopMistakes,
+      clean: this.loopMistakes === 0,
+      durationMs: onsetTime - this.loopPassStart
+    };
+    this.loopPasses = [...this.loopPasses, pass];
+    this.loopMistakes = 0;
+    this.loopPassStart = onsetTime;
+
+    if (this.loopPasses.length >= loop.repeats) {
+      this.stopLoop();
+      if (bounds.end.index === this.notes.length - 1) {
+        this.completePiece();
+      } else {
+        this.nextNote();
+      }
+      return;
+    }
+
+    this.loopTempoBpm = nextLoopTempo(tempoBpm, pass, loop, this.tempoBpm);
+    if (this.playAlongRunning) {
+      // Keep the beat going: the section starts again right where it ended, at the new tempo
+      const wrapTime = this.playAlongOrigin + quarterNotesToMs(bounds.end.startBeat + bounds.end.duration, tempoBpm);
+      this.playAlongOrigin = wrapTime - quarterNotesToMs(bounds.start.startBeat, this.practiceTempo);
+    }
+    if (this.loopTempoBpm !== tempoBpm) {
+      this.announceTempo();
+    }
+
+    this.currentNoteIndex = bounds.start.index;
+    this.highlightCurrentNote();
+  }
+
+  /** Score a detected pitch frame against the note that is currently sounding. */
+  recordPitch(frequency: number) {
+    const note = this.notes[this.soundingNoteIndex];
+    if (!note) return;
+
+    // Against the closest pitch of a double stop
+    const cents = note.pitches
+      .map(pitch => centsBetween(frequency, noteToFrequency(pitch, this.tuning)))
+      .reduce((closest, c) => Math.abs(c) < Math.abs(closest) ? c : closest);
+    // Frames more than a quarter tone away belong to a different note
+    if (Math.abs(cents) < 50) {
+      this.intonation.addSample(note.index, cents);
+    }
+  }
+
+  private clearIntonation() {
+    this.intonation.reset();
+    this.soundingNoteIndex = -1;
+    this.reportCard = null;
+    this.markIntonation([]);
+  }
+
+  // Called when the last note of the piece has been played
+  private completePiece() {
+    if (this.playAlongRunning) {
+      this.timingSummary = summarizeByMeasure(this.timingResults);
+      this.stopPlayAlong();
+    }
+
+    const results = this.intonation.getResults();
+    this.reportCard = { results, hardest: this.intonation.getHardestNotes(5) };
+    this.markIntonation(results);
+
+    this.dispatchEvent(new CustomEvent('piece-complete', {
+      detail: { title: this.sheetTitle },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  /** Play the score from the current note at its written tempo, moving the highlight along. */
+  async playScore() {
+    const firstNote = this.getCurrentNote();
+    if (!firstNote) return;
+
+    this.stopPlayAlong();
+    const from = firstNote.index;
+    const events = this.notes.slice(from).map(note => ({
+      frequencies: note.pitches.map(pitch => noteToFrequency(pitch, this.tuning)),
+      start: quarterNotesToMs(note.startBeat - firstNote.startBeat, this.practiceTempo) / 1000,
+      duration: quarterNotesToMs(note.duration, this.practiceTempo) / 1000
+    }));
+
+    this.isPlayingBack = true;
+    await synthesizer.playSequence(
+      events,
+      index => {
+        this.currentNoteIndex = from + index;
+        this.highlightCurrentNote();
+      },
+      () => {
+        this.isPlayingBack = false;
+      }
+    );
+  }
+
+  stopPlayback() {
+    synthesizer.stopSequence();
+    this.isPlayingBack = false;
+  }
+
+  // Count in one measure, then start the clock from the current note
+  startPlayAlong() {
+    const currentNote = this.getCurrentNote();
+    if (!currentNote) return;
+
+    this.stopPlayAlong();
+    this.timingResults = [];
+    this.timingSummary = [];
+    this.lastTiming = undefined;
+
+    const beatMs = quarterNotesToMs(beatLengthInQuarters(this.timeSignature), this.practiceTempo);
+    this.countInBeats = this.timeSignature.beats;
+
+    const tick = () => {
+      this.countInBeats--;
+      if (this.countInBeats > 0) {
+        this.countInTimer = window.setTimeout(tick, beatMs);
+        return;
+      }
+      this.countInTimer = undefined;
+      this.playAlongOrigin = performance.now() - quarterNotesToMs(currentNote.startBeat, this.practiceTempo);
+      this.playAlongRunning = true;
+    };
+    this.countInTimer = window.setTimeout(tick, beatMs);
+  }
+
+  stopPlayAlong() {
+    if (this.countInTimer !== undefined) {
+      clearTimeout(this.countInTimer);
+      this.countInTimer = undefined;
+    }
+    this.countInBeats = 0;
+    this.playAlongRunning = false;
+  }
+
+  private recordTiming(note: NoteInfo, onsetTime: number) {
+    const expectedMs = quarterNotesToMs(note.startBeat, this.practiceTempo);
+    const actualMs = onsetTime - this.playAlongOrigin;
+    const deviationMs = actualMs - expectedMs;
+    const result: TimingResult = {
+      noteIndex: note.index,
+      measureNumber: note.measureNumber,
+      expectedMs,
+      actualMs,
+      deviationMs,
+      verdict: classifyTiming(deviationMs, timingToleranceMs(this.practiceTempo))
+    };
+    this.timingResults.push(result);
+    this.lastTiming = result;
+  }
+
   private async handleScoreChange(e: Event) {
-    const select = e.target as HTMLSelectElement;
-    this.selectedScore = parseInt(select.value);
-    await this.loadScore(this.availableScores[this.selectedScore].path);
+    await this.openScore((e.target as HTMLSelectElement).value);
   }
 
+
   // Drag and drop handlers
   private handleDragEnter(e: DragEvent) {
     e.preventDefault();
@@ -323,26 +947,60 @@ export class MusicSheetDisplay extends LitElement {
     this.dragCounter = 0;
     this.requestUpdate();
 
-    const files = e.dataTransfer?.files;
-    if (!files || files.length === 0) return;
+    const file = e.dataTransfer?.files[0];
+    if (!file) return;
 
-    const file = files[0];
-    if (!file.name.endsWith('.xml') && !file.name.endsWith('.musicxml') && !file.name.endsWith('.mxl')) {
-      this.errorMessage = 'Please drop a MusicXML file (.xml, .musicxml, or .mxl)';
-      return;
+    await this.importScore(() => readScoreFile(file));
+  }
+
+  private async handleFileInput(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Clear the input so choosing the same file again still fires a change
+    input.value = '';
+    if (file) {
+      await this.importScore(() => readScoreFile(file));
+    }
+  }
+
+  private async importFromUrl() {
+    const url = this.importUrl.trim();
+    if (!url) return;
+    if (await this.importScore(() => fetchScore(url))) {
+      this.importUrl = '';
+    }
+  }
+
+  // Read a score from a file or URL and load it; returns whether it loaded
+  private async importScore(read: () => Promise<ImportedScore>): Promise<boolean> {
+    this.errorMessage = '';
+    let score: ImportedScore;
+    try {
+      score = await read();
+    } catch (error) {
+      console.error('Error importing score:', error);
+      this.errorMessage = error instanceof ScoreImportError ? error.message : t('sheet.readFailed');
+      return false;
     }
+    if (!await this.loadScoreFromString(score.xml, score.filename)) return false;
 
     try {
-      const text = await file.text();
-      await this.loadScoreFromString(text, file.name);
+      await addImportedScore(this.scoreId, score.xml, this.sheetTitle, this.sheetComposer);
+      await this.refreshLibrary();
     } catch (error) {
-      console.error('Error loading dropped file:', error);
-      this.errorMessage = 'Failed to load the dropped file.';
+      console.warn('Could not save the score to the library:', error);
     }
+    return true;
   }
 
-  private async loadScoreFromString(xmlString: string, filename: string) {
+  private async loadScoreFromString(xmlString: string, filename: string): Promise<boolean> {
     // Set loading state BEFORE creating OSMD
+    this.stopPlayAlong();
+    this.stopPlayback();
+    this.stopLoop();
+    this.loopPasses = [];
+    this.timingSummary = [];
+    this.clearIntonation();
     this.isLoading = true;
     this.errorMessage = '';
     await this.updateComplete; // Wait for loading spinner to render
@@ -363,9 +1021,11 @@ export class MusicSheetDisplay extends LitElement {
         drawTitle: false,
         drawComposer: false,
         drawCredits: false,
-        drawPartNames: false
+        drawPartNames: false,
+        followCursor: true
       });
 
+      this.readRepeatMarks(xmlString);
       await this.osmd.load(xmlString);
       
       // Wait for layout to complete
@@ -373,26 +1033,263 @@ export class MusicSheetDisplay extends LitElement {
       
       await this.osmd.render();
 
+      this.extractParts();
       this.extractNotes();
+      if (this.notes.length === 0) {
+        throw new ScoreImportError(t('sheet.noNotes', { file: filename }));
+      }
       
       if (this.osmd.sheet) {
         this.sheetTitle = this.osmd.sheet.TitleString || filename;
         this.sheetComposer = this.osmd.sheet.Composer?.text || '';
       }
+      this.announceScore();
 
-      this.currentNoteIndex = 0;
-      this.bookmark = 0;
-      this.saveBookmark();
+      this.restoreBookmarks(hashScoreContent(xmlString));
+      this.practiceRecorded = false;
       this.highlightCurrentNote();
+      return true;
 
     } catch (error) {
       console.error('Error loading score from string:', error);
-      this.errorMessage = 'Failed to parse the MusicXML file.';
+      this.errorMessage = error instanceof ScoreImportError
+        ? error.message
+        : t('sheet.unsupported', { file: filename });
+      return false;
     } finally {
       this.isLoading = false;
     }
   }
 
+  private timingLabel(result: TimingResult): string {
+    const ms = Math.round(Math.abs(result.deviationMs));
+    if (result.verdict === 'early') return t('timing.earlyBy', { ms });
+    if (result.verdict === 'late') return t('timing.lateBy', { ms });
+    return t('timing.onTime');
+  }
+
+  private timingBadgeClass(result: TimingResult): string {
+    return result.verdict === 'on-time' ? 'badge-success' : 'badge-warning';
+  }
+
+  private renderLoopControls() {
+    const measures = this.measureNumbers();
+    const setDraft = (changes: Partial<LoopSettings>) => {
+      this.loopDraft = { ...this.loopDraft, ...changes };
+    };
+    const numberFrom = (e: Event) => Number((e.target as HTMLInputElement | HTMLSelectElement).value);
+
+    return html`
+      <div class="bg-base-200 rounded-lg p-4 mt-4">
+        <div class="flex flex-wrap items-end gap-3">
+          <h3 class="font-bold w-full">
+            <span class="icon-[mdi--repeat]"></span>
+            ${t('loop.title')}
+          </h3>
+          <label class="form-control">
+            <span class="label-text text-xs">${t('loop.from')}</span>
+            <select class="select select-bordered select-xs" ?disabled=${!!this.loop}
+              @change=${(e: Event) => setDraft({ startMeasure: numberFrom(e) })}>
+              ${measures.map(measure => html`
+                <option value=${measure} ?selected=${this.loopDraft.startMeasure === measure}>${measure}</option>
+              `)}
+            </select>
+          </label>
+          <label class="form-control">
+            <span class="label-text text-xs">${t('loop.to')}</span>
+            <select class="select select-bordered select-xs" ?disabled=${!!this.loop}
+              @change=${(e: Event) => setDraft({ endMeasure: numberFrom(e) })}>
+              ${measures.map(measure => html`
+                <option value=${measure} ?selected=${this.loopDraft.endMeasure === measure}>${measure}</option>
+              `)}
+            </select>
+          </label>
+          <label class="form-control">
+            <span class="label-text text-xs">${t('loop.repeats')}</span>
+            <input type="number" class="input input-bordered input-xs w-16" min="1" max="50"
+              ?disabled=${!!this.loop}
+              .value=${String(this.loopDraft.repeats)}
+              @change=${(e: Event) => setDraft({ repeats: Math.max(1, numberFrom(e)) })} />
+          </label>
+          <label class="form-control">
+            <span class="label-text text-xs">${t('loop.startTempo')}</span>
+            <input type="number" class="input input-bordered input-xs w-16" min="25" max="100" step="5"
+              ?disabled=${!!this.loop}
+              .value=${String(this.loopDraft.startTempoPercent)}
+              @change=${(e: Event) => setDraft({ startTempoPercent: Math.min(100, Math.max(25, numberFrom(e))) })} />
+          </label>
+          <label class="form-control">
+            <span class="label-text text-xs">${t('loop.ramp')}</span>
+            <input type="number" class="input input-bordered input-xs w-16" min="0" max="25"
+              ?disabled=${!!this.loop}
+              .value=${String(this.loopDraft.rampPercent)}
+              @change=${(e: Event) => setDraft({ rampPercent: Math.min(25, Math.max(0, numberFrom(e))) })} />
+          </label>
+          ${this.loop ? html`
+            <button class="btn btn-xs btn-warning" @click=${this.stopLoop}>
+              <span class="icon-[mdi--stop]"></span>
+              ${t('loop.stop')}
+            </button>
+          ` : html`
+            <button class="btn btn-xs btn-primary" @click=${this.startLoop} ?disabled=${measures.length === 0}>
+              <span class="icon-[mdi--repeat]"></span>
+              ${t('loop.start')}
+            </button>
+          `}
+        </div>
+
+        ${this.loop ? html`
+          <p class="text-sm mt-2">
+            ${t('loop.progress', {
+              pass: Math.min(this.loopPasses.length + 1, this.loop.repeats),
+              repeats: this.loop.repeats,
+              tempo: this.practiceTempo
+            })}
+          </p>
+        ` : ''}
+
+        ${this.loopPasses.length > 0 ? html`
+          <p class="text-sm mt-2">
+            ${t('loop.clean', { clean: cleanPassCount(this.loopPasses), passes: this.loopPasses.length })}
+          </p>
+          <table class="table table-xs mt-1">
+            <thead>
+              <tr><th>${t('loop.pass')}</th><th>${t('loop.tempo')}</th><th>${t('loop.mistakes')}</th><th>${t('loop.time')}</th></tr>
+            </thead>
+            <tbody>
+              ${this.loopPasses.map(pass => html`
+                <tr class=${pass.clean ? 'text-success' : ''}>
+                  <td>${pass.pass} ${pass.clean ? html`<span class="icon-[mdi--check]"></span>` : ''}</td>
+                  <td>${pass.tempoBpm} BPM</td>
+                  <td>${pass.mistakes}</td>
+                  <td>${(pass.durationMs / 1000).toFixed(1)} s</td>
+                </tr>
+              `)}
+            </tbody>
+          </table>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderPlayAlong() {
+    return html`
+      <div class="bg-base-200 rounded-lg p-4 mt-4">
+        <div class="flex flex-wrap items-center gap-4">
+          <label class="label cursor-pointer gap-2">
+            <input
+              type="checkbox"
+              class="toggle toggle-sm toggle-primary"
+              .checked=${this.timedMode}
+              @change=${(e: Event) => {
+                this.timedMode = (e.target as HTMLInputElement).checked;
+                if (!this.timedMode) this.stopPlayAlong();
+              }} />
+            <span class="label-text">${t('timing.toggle')}</span>
+          </label>
+          <span class="text-sm text-base-content/70">
+            ${this.practiceTempo} BPM · ${this.timeSignature.beats}/${this.timeSignature.beatType}
+          </span>
+          ${this.timedMode ? html`
+            ${this.playAlongRunning || this.countInBeats > 0 ? html`
+              <button class="btn btn-sm btn-error btn-outline" @click=${this.stopPlayAlong}>
+                <span class="icon-[mdi--stop]"></span>
+                ${t('listen.stop')}
+              </button>
+            ` : html`
+              <button
+                class="btn btn-sm btn-accent"
+                @click=${this.startPlayAlong}
+                ?disabled=${this.notes.length === 0}>
+                <span class="icon-[mdi--metronome]"></span>
+                ${t('timing.start')}
+              </button>
+            `}
+          ` : ''}
+        </div>
+
+        ${this.timingSummary.length > 0 ? html`
+          <div class="overflow-x-auto mt-4">
+            <h3 class="font-bold mb-2">${t('timing.title')}</h3>
+            <table class="table table-xs">
+              <thead>
+                <tr>
+                  <th>${t('sheet.measure')}</th>
+                  <th>${t('timing.early')}</th>
+                  <th>${t('timing.onTime')}</th>
+                  <th>${t('timing.late')}</th>
+                  <th>${t('sheet.average')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${this.timingSummary.map(summary => html`
+                  <tr>
+                    <td>${summary.measureNumber}</td>
+                    <td>${summary.early}</td>
+                    <td class="text-success">${summary.onTime}</td>
+                    <td>${summary.late}</td>
+                    <td>${summary.averageDeviationMs > 0 ? '+' : ''}${Math.round(summary.averageDeviationMs)} ms</td>
+                  </tr>
+                `)}
+              </tbody>
+            </table>
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderReportCard(report: { results: NoteIntonation[]; hardest: NoteIntonation[] }) {
+    const inTune = report.results.filter(result => intonationQuality(result) === 'good').length;
+    const formatCents = (cents: number) => `${cents > 0 ? '+' : ''}${Math.round(cents)}¢`;
+
+    return html`
+      <div class="bg-base-200 rounded-lg p-4 mt-4">
+        <div class="flex justify-between items-center mb-2">
+          <h3 class="font-bold">
+            <span class="icon-[mdi--star-circle] text-warning"></span>
+            ${t('report.title')}
+          </h3>
+          <button class="btn btn-xs btn-ghost" @click=${this.clearIntonation}>
+            <span class="icon-[mdi--close]"></span>
+          </button>
+        </div>
+        <p class="text-sm mb-2">
+          ${t('report.inTune', { inTune, total: report.results.length })}
+          <span class="text-base-content/60">${t('report.legend')}</span>
+        </p>
+        ${report.hardest.length > 0 ? html`
+          <h4 class="font-semibold text-sm mb-1">${t('report.practice')}</h4>
+          <table class="table table-xs">
+            <thead>
+              <tr>
+                <th>${t('report.note')}</th>
+                <th>${t('sheet.measure')}</th>
+                <th>${t('sheet.average')}</th>
+                <th>${t('report.wobble')}</th>
+                <th>${t('report.attempts')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${report.hardest.map(result => {
+                const note = this.notes[result.noteIndex];
+                return html`
+                  <tr>
+                    <td>${note ? this.noteLabel(note) : '--'} <span class="text-base-content/50">#${result.noteIndex + 1}</span></td>
+                    <td>${note?.measureNumber ?? ''}</td>
+                    <td>${formatCents(result.averageCents)}</td>
+                    <td>±${Math.round(result.stabilityCents)}¢</td>
+                    <td>${result.attempts}</td>
+                  </tr>
+                `;
+              })}
+            </tbody>
+          </table>
+        ` : html`<p class="text-sm text-success">${t('report.allInTune')}</p>`}
+      </div>
+    `;
+  }
+
   render() {
     const currentNote = this.getCurrentNote();
     const isDragging = this.dragCounter > 0;
@@ -401,21 +1298,79 @@ export class MusicSheetDisplay extends LitElement {
       <div class="bg-base-100 rounded-2xl p-6 mb-6">
         <div class="flex justify-between items-center mb-4">
           <div>
-            <h2 class="text-2xl font-bold">${this.sheetTitle || 'Music Sheet'}</h2>
+            <h2 class="text-2xl font-bold">${this.sheetTitle || t('sheet.title')}</h2>
             ${this.sheetComposer ? html`
-              <p class="text-sm text-base-content/70">by ${this.sheetComposer}</p>
+              <p class="text-sm text-base-content/70">${t('sheet.by', { composer: this.sheetComposer })}</p>
             ` : ''}
           </div>
           
           <!-- Sheet Selection -->
-          <select 
-            class="select select-bordered select-sm"
-            .value=${this.selectedScore.toString()}
-            @change=${this.handleScoreChange}>
-            ${this.availableScores.map((score, index) => html`
-              <option value=${index}>${score.name}</option>
-            `)}
-          </select>
+          <div class="flex gap-2">
+            <select 
+              class="select select-bordered select-sm max-w-xs"
+              @change=${this.handleScoreChange}>
+              ${[...this.library].sort((a, b) => a.title.localeCompare(b.title)).map(score => html`
+                <option value=${score.id} ?selected=${score.id === this.scoreId}>${score.title}</option>
+              `)}
+            </select>
+            <button
+              class="btn btn-sm ${this.showLibrary ? 'btn-primary' : 'btn-outline'}"
+              @click=${() => this.showLibrary = !this.showLibrary}>
+              <span class="icon-[mdi--bookshelf]"></span>
+              ${t('sheet.library')}
+            </button>
+            <button
+              class="btn btn-sm ${this.showExercises ? 'btn-primary' : 'btn-outline'}"
+              @click=${() => this.showExercises = !this.showExercises}>
+              <span class="icon-[mdi--stairs]"></span>
+              ${t('sheet.exercises')}
+            </button>
+          </div>
+        </div>
+
+        ${this.showLibrary ? html`
+          <score-library-panel
+            .scores=${this.library}
+            .currentId=${this.scoreId}
+            @score-open=${(e: CustomEvent<{ id: string }>) => this.openScore(e.detail.id)}
+            @score-update=${this.handleLibraryUpdate}
+            @score-delete=${this.handleLibraryDelete}>
+          </score-library-panel>
+        ` : ''}
+
+        ${this.showExercises ? html`
+          <exercise-panel
+            @exercise-create=${(e: CustomEvent<{ xml: string; title: string }>) => this.importScore(async () => ({ xml: e.detail.xml, filename: e.detail.title }))}>
+          </exercise-panel>
+        ` : ''}
+
+        <!-- Import -->
+        <div class="flex flex-wrap gap-2 mb-4">
+          <label class="btn btn-sm btn-outline">
+            <span class="icon-[mdi--folder-open]"></span>
+            ${t('sheet.openFile')}
+            <input
+              type="file"
+              class="hidden"
+              accept=${SCORE_FILE_EXTENSIONS.join(',')}
+              @change=${this.handleFileInput} />
+          </label>
+          <div class="join flex-1 min-w-64">
+            <input
+              type="url"
+              class="input input-bordered input-sm join-item flex-1"
+              placeholder="https://example.com/score.mxl"
+              .value=${this.importUrl}
+              @input=${(e: Event) => this.importUrl = (e.target as HTMLInputElement).value}
+              @keydown=${(e: KeyboardEvent) => e.key === 'Enter' && this.importFromUrl()} />
+            <button
+              class="btn btn-sm btn-outline join-item"
+              @click=${this.importFromUrl}
+              ?disabled=${!this.importUrl.trim() || this.isLoading}>
+              <span class="icon-[mdi--web]"></span>
+              ${t('sheet.import')}
+            </button>
+          </div>
         </div>
 
         ${this.errorMessage ? html`
@@ -425,15 +1380,27 @@ export class MusicSheetDisplay extends LitElement {
           </div>
         ` : ''}
 
+        ${this.renderPartPicker()}
+
         <!-- Current Note Display -->
         <div class="bg-primary/10 rounded-lg p-4 mb-4 text-center">
-          <div class="text-sm text-base-content/70 mb-1">Current Note:</div>
+          <div class="text-sm text-base-content/70 mb-1">${t('sheet.currentNote')}</div>
           <div class="text-4xl font-bold text-primary">
-            ${currentNote ? currentNote.pitch : '--'}
+            ${currentNote ? this.noteLabel(currentNote) : '--'}
           </div>
           <div class="text-sm text-base-content/60 mt-1">
-            Note ${this.currentNoteIndex + 1} of ${this.notes.length}
+            ${t('sheet.noteOf', { index: this.currentNoteIndex + 1, total: this.notes.length })}
           </div>
+          ${currentNote ? html`
+            <fingering-hint class="block mt-2" .notes=${this.fingeringNotes(currentNote)}></fingering-hint>
+          ` : ''}
+          ${this.countInBeats > 0 ? html`
+            <div class="text-3xl font-bold text-secondary mt-2">${this.countInBeats}</div>
+          ` : this.playAlongRunning && this.lastTiming ? html`
+            <div class="badge ${this.timingBadgeClass(this.lastTiming)} mt-2">
+              ${this.timingLabel(this.lastTiming)}
+            </div>
+          ` : ''}
         </div>
 
         <!-- Staff Display Container with Drag & Drop -->
@@ -458,7 +1425,7 @@ export class MusicSheetDisplay extends LitElement {
             <div class="absolute inset-0 flex items-center justify-center pointer-events-none bg-primary/10 z-20">
               <div class="text-center">
                 <span class="icon-[mdi--file-music] text-6xl text-primary mb-2"></span>
-                <p class="text-lg font-bold text-primary">Drop MusicXML file here</p>
+                <p class="text-lg font-bold text-primary">${t('sheet.drop')}</p>
               </div>
             </div>
           ` : ''}
@@ -467,8 +1434,8 @@ export class MusicSheetDisplay extends LitElement {
             <div class="absolute inset-0 flex items-center justify-center text-center text-base-content/60 z-20">
               <div>
                 <span class="icon-[mdi--file-music-outline] text-5xl mb-2 block"></span>
-                <p>Drag and drop a MusicXML file here</p>
-                <p class="text-sm">or select a sample song above</p>
+                <p>${t('sheet.empty')}</p>
+                <p class="text-sm">${t('sheet.emptyHint')}</p>
               </div>
             </div>
           ` : ''}
@@ -481,13 +1448,13 @@ export class MusicSheetDisplay extends LitElement {
             @click=${this.previousNote}
             ?disabled=${this.currentNoteIndex === 0}>
             <span class="icon-[mdi--chevron-left]"></span>
-            Prev Note
+            ${t('sheet.prev')}
           </button>
           <button 
             class="btn btn-sm btn-outline"
             @click=${this.nextNote}
             ?disabled=${this.currentNoteIndex >= this.notes.length - 1}>
-            Next Note
+            ${t('sheet.next')}
             <span class="icon-[mdi--chevron-right]"></span>
           </button>
 
@@ -495,33 +1462,83 @@ export class MusicSheetDisplay extends LitElement {
             class="btn btn-sm btn-primary"
             @click=${this.reset}>
             <span class="icon-[mdi--restore]"></span>
-            Reset
+            ${t('sheet.reset')}
           </button>
           
-          <button 
-            class="btn btn-sm btn-secondary"
-            @click=${this.setBookmark}>
-            <span class="icon-[mdi--bookmark]"></span>
-            Bookmark
-          </button>
+          <div class="join">
+            <input
+              type="text"
+              class="input input-bordered input-sm join-item w-full min-w-0"
+              placeholder=${t('bookmark.name')}
+              .value=${this.bookmarkName}
+              @input=${(e: Event) => this.bookmarkName = (e.target as HTMLInputElement).value}
+              @keydown=${(e: KeyboardEvent) => e.key === 'Enter' && this.addBookmark()} />
+            <button 
+              class="btn btn-sm btn-secondary join-item"
+              @click=${this.addBookmark}
+              ?disabled=${this.notes.length === 0}>
+              <span class="icon-[mdi--bookmark]"></span>
+              ${t('bookmark.add')}
+            </button>
+          </div>
         </div>
 
-        <div class="flex gap-2 mt-2">
-          <button 
-            class="btn btn-sm btn-secondary btn-outline"
-            @click=${this.goToBookmark}
-            ?disabled=${this.bookmark === this.currentNoteIndex}>
-            <span class="icon-[mdi--bookmark-outline]"></span>
-            Go to Bookmark (${this.bookmark + 1})
-          </button>
+        <div class="flex flex-wrap gap-2 mt-2">
+          ${this.isPlayingBack ? html`
+            <button class="btn btn-sm btn-warning" @click=${this.stopPlayback}>
+              <span class="icon-[mdi--stop]"></span>
+              ${t('sheet.stopPlayback')}
+            </button>
+          ` : html`
+            <button 
+              class="btn btn-sm btn-accent btn-outline"
+              @click=${this.playScore}
+              ?disabled=${this.notes.length === 0}>
+              <span class="icon-[mdi--play]"></span>
+              ${t('sheet.listen')}
+            </button>
+          `}
+          <div class="dropdown">
+            <button 
+              tabindex="0"
+              class="btn btn-sm btn-secondary btn-outline"
+              ?disabled=${this.bookmarks.length === 0}>
+              <span class="icon-[mdi--bookmark-multiple-outline]"></span>
+              ${t('bookmark.list', { count: this.bookmarks.length })}
+            </button>
+            <ul tabindex="0" class="dropdown-content menu bg-base-100 rounded-box shadow z-30 w-72 p-2">
+              ${this.bookmarks.map(bookmark => html`
+                <li>
+                  <div class="flex justify-between gap-2">
+                    <button class="flex-1 text-left" @click=${() => this.goToBookmark(bookmark)}>
+                      <span class="font-semibold">${bookmark.name}</span>
+                      <span class="text-xs text-base-content/60">
+                        ${t('bookmark.position', { measure: bookmark.measureNumber, beat: Number(bookmark.beat.toFixed(2)) })}
+                      </span>
+                    </button>
+                    <button class="btn btn-xs btn-ghost" title=${t('bookmark.delete')}
+                      @click=${() => this.deleteBookmark(bookmark)}>
+                      <span class="icon-[mdi--close]"></span>
+                    </button>
+                  </div>
+                </li>
+              `)}
+            </ul>
+          </div>
         </div>
 
+        ${this.renderPlayAlong()}
+
+        ${this.renderLoopControls()}
+
+        ${this.reportCard ? this.renderReportCard(this.reportCard) : ''}
+
         <div class="alert alert-info mt-4">
           <span class="icon-[mdi--information-outline]"></span>
           <div class="text-sm">
-            <p><strong>Staff Notation:</strong> Music displayed on a traditional staff with proper note symbols</p>
-            <p><strong>Drag & Drop:</strong> Drop MusicXML files (.xml, .musicxml, .mxl) onto the staff area</p>
-            <p><strong>Auto-advance:</strong> Play the correct note to automatically move to the next one</p>
+            ${HELP_TOPICS.map(topic => html`
+              <p><strong>${t(`sheet.topic.${topic}`)}</strong> ${t(`sheet.about.${topic}`)}</p>
+            `)}
           </div>
         </div>
       </div>
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { extractPracticeSteps, readMusicXml } from './musicxml';
+
+// A quarter note of a pitch like "C#5", in a score with one division per quarter
+function note(pitch: string, extra = ''): string {
+  const [, step, accidental, octave] = /^([A-G])(#|b)?(\d)$/.exec(pitch) ?? [];
+  const alter = accidental === '#' ? '<alter>1</alter>' : accidental === 'b' ? '<alter>-1</alter>' : '';
+  return `<note>${extra.includes('<chord/>') ? '<chord/>' : ''}<pitch><step>${step}</step>${alter}<octave>${octave}</octave></pitch>` +
+    `<duration>1</duration>${extra.replace('<chord/>', '')}</note>`;
+}
+
+// A one-part 1/4 score; each measure holds one quarter note and any barlines or directions
+function score(measures: string[]): string {
+  return `<score-partwise version="4.0">
+    <part-list><score-part id="P1"><part-name>Violin</part-name></score-part></part-list>
+    <part id="P1">${measures.map((content, i) => `<measure number="${i + 1}">${i === 0
+      ? '<attributes><divisions>1</divisions><time><beats>1</beats><beat-type>4</beat-type></time></attributes>'
+      : ''}${content}</measure>`).join('')}</part>
+  </score-partwise>`;
+}
+
+const forward = '<barline location="left"><repeat direction="forward"/></barline>';
+const backward = (times = 2) => `<barline location="right"><repeat direction="backward" times="${times}"/></barline>`;
+const endingStart = (numbers: string) => `<barline location="left"><ending number="${numbers}" type="start"/></barline>`;
+const endingStop = (numbers: string) => `<barline location="right"><ending number="${numbers}" type="stop"/></barline>`;
+const sound = (attributes: string) => `<direction><sound ${attributes}/></direction>`;
+
+// Measure numbers in the order they are played
+function playedMeasures(xml: string): number[] {
+  const part = readMusicXml(xml).parts[0]!;
+  return extractPracticeSteps(part).map(step => step.measureNumber);
+}
+
+describe('readMusicXml', () => {
+  it('reads the title, parts and voices', () => {
+    const xml = `<score-partwise>
+      <work><work-title>Duet</work-title></work>
+      <part-list>
+        <score-part id="P1"><part-name>Violin</part-name></score-part>
+        <score-part id="P2"><part-name></part-name></score-part>
+      </part-list>
+      <part id="P1"><measure number="1">
+        <attributes><divisions>2</divisions></attributes>
+        ${note('E5', '<voice>1</voice>').replace('<duration>1</duration>', '<duration>4</duration>')}
+        <backup><duration>4</duration></backup>
+        ${note('C5', '<voice>2</voice>').replace('<duration>1</duration>', '<duration>4</duration>')}
+      </measure></part>
+      <part id="P2"><measure number="1">${note('C3')}</measure></part>
+    </score-partwise>`;
+    const { title, parts } = readMusicXml(xml);
+    expect(title).toBe('Duet');
+    expect(parts.map(part => [part.name, part.voices])).toEqual([['Violin', [1, 2]], ['Part 2', [1]]]);
+    expect(parts[0]?.measures[0]?.length).toBe(2);
+    expect(extractPracticeSteps(parts[0]!).map(step => step.pitches)).toEqual([['C5', 'E5']]);
+    expect(extractPracticeSteps(parts[0]!, 2).map(step => step.pitches)).toEqual([['C5']]);
+  });
+
+  it('reads timewise scores', () => {
+    const xml = `<score-timewise>
+      <movement-title>Timewise</movement-title>
+      <part-list><score-part id="P1"><part-name>Violin</part-name></score-part></part-list>
+      <measure number="1"><part id="P1">${note('G3')}</part></measure>
+      <measure number="2"><part id="P1">${note('A3')}</part></measure>
+    </score-timewise>`;
+    const { title, parts } = readMusicXml(xml);
+    expect(title).toBe('Timewise');
+    expect(extractPracticeSteps(parts[0]!).map(step => [step.pitches[0], step.measureNumber, step.startBeat])).toEqual([
+      ['G3', 1, 0],
+      ['A3', 2, 1]
+    ]);
+  });
+
+  it('plays chords as one step and skips grace notes, rests and tied continuations', () => {
+    const part = readMusicXml(score([
+      note('D4') + note('A4', '<chord/>'),
+      `<note><grace/><pitch><step>B</step><octave>4</octave></pitch></note>${note('Bb4', '<tie type="start"/>')}`,
+      note('Bb4', '<tie type="stop"/>'),
+      '<note><rest/><duration>1</duration></note>'
+    ])).parts[0]!;
+    const steps = extractPracticeSteps(part);
+    expect(steps.map(step => [step.pitches, step.duration])).toEqual([[['D4', 'A4'], 1], [['Bb4'], 2]]);
+  });
+
+  it('rejects documents that are not scores', () => {
+    expect(() => readMusicXml('<opus/>')).toThrow('Not a MusicXML score');
+  });
+});
+
+describe('performance order', () => {
+  it('plays a repeated section twice', () => {
+    expect(playedMeasures(score([note('C4'), forward + note('D4'), note('E4') + backward(), note('F4')])))
+      .toEqual([1, 2, 3, 2, 3, 4]);
+  });
+
+  it('repeats from the start when there is no forward repeat', () => {
+    expect(playedMeasures(score([note('C4'), note('D4') + backward(3), note('E4')])))
+      .toEqual([1, 2, 1, 2, 1, 2, 3]);
+  });
+
+  it('takes each volta on its own pass', () => {
+    expect(playedMeasures(score([
+      note('C4'),
+      endingStart('1') + note('D4') + backward() + endingStop('1'),
+      endingStart('2') + note('E4') + endingStop('2'),
+      note('F4')
+    ]))).toEqual([1, 2, 1, 3, 4]);
+  });
+
+  it('follows D.C. al Fine, without repeats the second time', () => {
+    expect(playedMeasures(score([
+      note('C4'),
+      note('D4') + sound('fine="yes"') + backward(),
+      note('E4') + sound('dacapo="yes"')
+    ]))).toEqual([1, 2, 1, 2, 3, 1, 2]);
+  });
+
+  it('follows D.S. al Fine, taking the last volta after the jump', () => {
+    expect(playedMeasures(score([
+      note('C4'),
+      sound('segno="1"') + note('D4'),
+      endingStart('1') + note('E4') + backward() + endingStop('1'),
+      endingStart('2') + note('F4') + sound('fine="yes"') + endingStop('2'),
+      note('G4') + sound('dalsegno="1"')
+    ]))).toEqual([1, 2, 3, 1, 2, 4, 5, 2, 4]);
+  });
+
+  it('jumps to the coda after a D.S.', () => {
+    expect(playedMeasures(score([
+      sound('segno="1"') + note('C4'),
+      note('D4') + sound('tocoda="1"'),
+      note('E4') + sound('dalsegno="1"'),
+      sound('coda="1"') + note('F4')
+    ]))).toEqual([1, 2, 3, 1, 2, 4]);
+  });
+
+  it('counts the start beat through the unrolled performance', () => {
+    const part = readMusicXml(score([note('C4'), note('D4') + backward()])).parts[0]!;
+    expect(extractPracticeSteps(part).map(step => step.startBeat)).toEqual([0, 1, 2, 3]);
+  });
+});
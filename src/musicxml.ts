@@ -0,0 +1,235 @@
+// Reading the practice sequence straight from MusicXML, without OSMD or a DOM, so recordings
+// can be checked against a score outside the browser. Notes come out in the order they are
+// played: repeats, voltas and D.C./D.S. jumps are followed the same way as in the sheet display.
+
+import { XmlElement, parseXml, childElement, childElements, childText } from './xml';
+import { ScoreEvent, PracticeStep, RepeatMarks, spellPitch, buildPracticeSteps, performanceOrder, unrollEvents } from './score-notes';
+
+export interface WrittenNote {
+  pitch: string; // '' for rests
+  voice: number;
+  offset: number; // From the start of the measure, in quarter notes
+  length: number; // In quarter notes
+  tieStart: boolean;
+  tieStop: boolean;
+}
+
+interface Measure extends RepeatMarks {
+  number: number; // As written in the score
+  length: number; // In quarter notes
+  beatType: number; // Denominator of the time signature in effect
+  notes: WrittenNote[];
+}
+
+export interface MusicXmlPart {
+  id: string;
+  name: string;
+  voices: number[];
+  measures: Measure[];
+}
+
+export interface MusicXmlScore {
+  title: string;
+  parts: MusicXmlPart[];
+}
+
+/** Read the title and parts of a MusicXML document (score-partwise or score-timewise). */
+export function readMusicXml(xml: string): MusicXmlScore {
+  const root = parseXml(xml);
+  if (root.name !== 'score-partwise' && root.name !== 'score-timewise') {
+    throw new Error(`Not a MusicXML score (its root element is <${root.name}>)`);
+  }
+
+  const work = childElement(root, 'work');
+  const title = (work && childText(work, 'work-title')) || childText(root, 'movement-title');
+
+  // Measure contents by part id; in a timewise score each measure holds a slice of every part
+  const contents = new Map<string, XmlElement[]>();
+  if (root.name === 'score-partwise') {
+    for (const part of childElements(root, 'part')) {
+      contents.set(part.attributes['id'] ?? '', childElements(part, 'measure'));
+    }
+  } else {
+    for (const measure of childElements(root, 'measure')) {
+      for (const part of childElements(measure, 'part')) {
+        const id = part.attributes['id'] ?? '';
+        const list = contents.get(id) ?? [];
+        list.push({ ...part, attributes: measure.attributes });
+        contents.set(id, list);
+      }
+    }
+  }
+
+  const partList = childElement(root, 'part-list');
+  const scoreParts = partList ? childElements(partList, 'score-part') : [];
+  const parts = [...contents].map(([id, measureElements], i) => {
+    const scorePart = scoreParts.find(part => part.attributes['id'] === id);
+    const measures = readMeasures(measureElements);
+    const voices = new Set(measures.flatMap(measure => measure.notes.map(note => note.voice)));
+    return {
+      id,
+      name: (scorePart && childText(scorePart, 'part-name')) || `Part ${i + 1}`,
+      voices: [...voices].sort((a, b) => a - b),
+      measures
+    };
+  });
+  return { title, parts };
+}
+
+function readMeasures(elements: XmlElement[]): Measure[] {
+  const measures: Measure[] = [];
+  let divisions = 1;
+  let beatType = 4;
+  let ending: number[] = [];
+
+  for (const element of elements) {
+    const previous = measures[measures.length - 1];
+    const written = parseInt(element.attributes['number'] ?? '', 10);
+    const measure: Measure = {
+      number: Number.isFinite(written) ? written : (previous?.number ?? 0) + 1,
+      length: 0,
+      beatType,
+      notes: [],
+      repeatStart: false,
+      repeatTimes: 0,
+      endings: ending,
+      segno: false,
+      coda: false,
+      daCapo: false,
+      dalSegno: false,
+      fine: false,
+      toCoda: false
+    };
+    let position = 0; // In divisions
+    let chordOffset = 0;
+    let endingStops = false;
+
+    const readSound = (sound: XmlElement) => {
+      const has = (name: string) => sound.attributes[name] !== undefined && sound.attributes[name] !== 'no';
+      measure.segno ||= has('segno');
+      measure.coda ||= has('coda');
+      measure.daCapo ||= has('dacapo');
+      measure.dalSegno ||= has('dalsegno');
+      measure.fine ||= has('fine');
+      measure.toCoda ||= has('tocoda');
+    };
+
+    for (const child of element.children) {
+      switch (child.name) {
+        case 'attributes': {
+          divisions = parseFloat(childText(child, 'divisions')) || divisions;
+          const time = childElement(child, 'time');
+          beatType = (time && parseInt(childText(time, 'beat-type'), 10)) || beatType;
+          measure.beatType = beatType;
+          break;
+        }
+        case 'note': {
+          if (childElement(child, 'grace') || childElement(child, 'cue')) break;
+          const duration = (parseFloat(childText(child, 'duration')) || 0) / divisions;
+          const isChord = !!childElement(child, 'chord');
+          const offset = isChord ? chordOffset : position / divisions;
+          const pitch = childElement(child, 'pitch');
+          const ties = childElements(child, 'tie').map(tie => tie.attributes['type']);
+          measure.notes.push({
+            pitch: pitch
+              ? spellPitch(childText(pitch, 'step'), parseFloat(childText(pitch, 'alter')) || 0, parseInt(childText(pitch, 'octave'), 10))
+              : '',
+            voice: parseInt(childText(child, 'voice'), 10) || 1,
+            offset,
+            length: duration,
+            tieStart: ties.includes('start'),
+            tieStop: ties.includes('stop')
+          });
+          if (!isChord) {
+            chordOffset = offset;
+            position += duration * divisions;
+          }
+          break;
+        }
+        case 'backup':
+          position -= parseFloat(childText(child, 'duration')) || 0;
+          break;
+        case 'forward':
+          position += parseFloat(childText(child, 'duration')) || 0;
+          break;
+        case 'direction':
+          for (const type of childElements(child, 'direction-type')) {
+            measure.segno ||= !!childElement(type, 'segno');
+            measure.coda ||= !!childElement(type, 'coda');
+          }
+          childElements(child, 'sound').forEach(readSound);
+          break;
+        case 'sound':
+          readSound(child);
+          break;
+        case 'barline': {
+          const repeat = childElement(child, 'repeat');
+          if (repeat?.attributes['direction'] === 'forward') measure.repeatStart = true;
+          if (repeat?.attributes['direction'] === 'backward') {
+            measure.repeatTimes = parseInt(repeat.attributes['times'] ?? '', 10) || 2;
+          }
+          const volta = childElement(child, 'ending');
+          if (volta?.attributes['type'] === 'start') {
+            ending = (volta.attributes['number'] ?? '').split(/[\s,]+/).map(Number).filter(n => n > 0);
+            measure.endings = ending;
+          } else if (volta) {
+            endingStops = true;
+          }
+          measure.segno ||= !!childElement(child, 'segno');
+          measure.coda ||= !!childElement(child, 'coda');
+          break;
+        }
+      }
+      measure.length = Math.max(measure.length, position / divisions);
+    }
+    if (endingStops) {
+      ending = [];
+    }
+    measures.push(measure);
+  }
+  return measures;
+}
+
+// One event per onset in the chosen voice (all voices when null), in the order written
+function* writtenEvents(part: MusicXmlPart, voice: number | null): Generator<ScoreEvent<WrittenNote>> {
+  // Tie each still-held note belongs to, by voice and pitch
+  const openTies = new Map<string, object>();
+  let measureStart = 0;
+
+  for (const [measureIndex, measure] of part.measures.entries()) {
+    const notes = measure.notes.filter(note => note.pitch && (voice === null || note.voice === voice));
+    const offsets = [...new Set(notes.map(note => note.offset))].sort((a, b) => a - b);
+    for (const offset of offsets) {
+      const event: ScoreEvent<WrittenNote> = {
+        measureIndex,
+        measureNumber: measure.number,
+        measureBeat: 1 + offset / 4 * measure.beatType,
+        startBeat: measureStart + offset,
+        notes: []
+      };
+      for (const note of notes.filter(candidate => candidate.offset === offset)) {
+        const key = `${note.voice}:${note.pitch}`;
+        let tie: object | null = null;
+        if (note.tieStop) {
+          tie = openTies.get(key) ?? {};
+        } else if (note.tieStart) {
+          tie = {};
+        }
+        if (tie && note.tieStart) {
+          openTies.set(key, tie);
+        } else {
+          openTies.delete(key);
+        }
+        event.notes.push({ pitch: note.pitch, length: note.length, tie, tieContinues: note.tieStop, source: note });
+      }
+      yield event;
+    }
+    measureStart += measure.length;
+  }
+}
+
+/** The practice sequence of a part, built the same way as in the sheet display. */
+export function extractPracticeSteps(part: MusicXmlPart, voice: number | null = null): PracticeStep<WrittenNote>[] {
+  const order = performanceOrder(part.measures);
+  return buildPracticeSteps(unrollEvents([...writtenEvents(part, voice)], order, part.measures.map(measure => measure.length)));
+}
@@ -0,0 +1,101 @@
+import { LitElement, html, svg } from 'lit';
+import { property } from 'lit/decorators.js';
+import { parseNote } from './tuning';
+import { accidentalSymbol } from './locale';
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// Diatonic steps of E4, the bottom line of the treble staff
+const BOTTOM_LINE_STEP = 4 * 7 + 2;
+// Step of the top staff line (F5) relative to the bottom line
+const TOP_LINE = 8;
+
+// SVG geometry: distance between two adjacent staff positions (half a line space)
+const HALF_SPACE = 6;
+// Room for the six ledger lines an E7 needs above the staff and two below for G3
+const LEDGER_ROOM_ABOVE = 14;
+const LEDGER_ROOM_BELOW = 8;
+const VIEW_WIDTH = 240;
+const VIEW_HEIGHT = (TOP_LINE + LEDGER_ROOM_ABOVE + LEDGER_ROOM_BELOW) * HALF_SPACE;
+const NOTE_X = 150;
+
+/**
+ * Staff position of a note, counted in diatonic steps above the bottom line (E4) of the
+ * treble staff: lines are even steps (0 = E4 ... 8 = F5), spaces are odd.
+ */
+export function staffStep(note: string): number | null {
+  const parsed = parseNote(note);
+  if (!parsed) return null;
+  return parsed.octave * 7 + LETTERS.indexOf(parsed.letter) - BOTTOM_LINE_STEP;
+}
+
+/** Steps of the ledger lines a note needs, empty for notes on the staff. */
+export function ledgerLineSteps(step: number): number[] {
+  const ledgers: number[] = [];
+  for (let line = -2; line >= step; line -= 2) {
+    ledgers.push(line);
+  }
+  for (let line = TOP_LINE + 2; line <= step; line += 2) {
+    ledgers.push(line);
+  }
+  return ledgers;
+}
+
+export class NoteStaff extends LitElement {
+  // Note to draw, e.g. "C#5"; '--' or empty draws the staff alone
+  @property({ type: String })
+  note = '--';
+
+  @property({ type: Boolean, attribute: 'in-tune' })
+  inTune = false;
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  private yFor(step: number): number {
+    return (TOP_LINE + LEDGER_ROOM_ABOVE - step) * HALF_SPACE;
+  }
+
+  private renderNote() {
+    const parsed = parseNote(this.note);
+    const step = staffStep(this.note);
+    if (!parsed || step === null) return '';
+
+    const y = this.yFor(step);
+    const color = this.inTune ? '#16a34a' : '#4f46e5';
+    const accidental = accidentalSymbol(parsed.alter);
+
+    return svg`
+      ${ledgerLineSteps(step).map(line => svg`
+        <line x1=${NOTE_X - 14} x2=${NOTE_X + 14} y1=${this.yFor(line)} y2=${this.yFor(line)}
+          stroke="#334155" stroke-width="1.5" />
+      `)}
+      ${accidental ? svg`
+        <text x=${NOTE_X - 26} y=${y} font-size="20" fill=${color}
+          text-anchor="middle" dominant-baseline="central">${accidental}</text>
+      ` : ''}
+      <ellipse cx=${NOTE_X} cy=${y} rx="8" ry="5.5" fill=${color}
+        transform="rotate(-20 ${NOTE_X} ${y})" />
+    `;
+  }
+
+  render() {
+    const staffLines = [0, 2, 4, 6, 8];
+
+    return html`
+      <svg viewBox="0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}" class="w-full max-w-md mx-auto block">
+        ${staffLines.map(line => svg`
+          <line x1="10" x2=${VIEW_WIDTH - 10} y1=${this.yFor(line)} y2=${this.yFor(line)}
+            stroke="#334155" stroke-width="1.5" />
+        `)}
+        <!-- The clef glyph hangs slightly below the bottom line, with its curl around G4 -->
+        <text x="14" y=${this.yFor(0) + HALF_SPACE * 2} font-size=${HALF_SPACE * 11} fill="#334155">𝄞</text>
+        ${this.renderNote()}
+      </svg>
+    `;
+  }
+}
+
+customElements.define('note-staff', NoteStaff);
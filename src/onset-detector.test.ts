@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { NoteOnset, OnsetDetector, PitchFrame, computeRms, rmsToDecibels } from './onset-detector';
+
+// Frames 10 ms apart; a note name plays loudly and clearly, '' is the bow lifted
+const LOUD = 0.1;
+const QUIET = 0.0001;
+
+function frames(notes: string[], options: { rms?: number; clarity?: number } = {}): Omit<PitchFrame, 'time'>[] {
+  return notes.map(note => ({
+    rms: note ? options.rms ?? LOUD : QUIET,
+    frequency: note ? 440 : 0,
+    clarity: note ? options.clarity ?? 0.95 : 0,
+    note
+  }));
+}
+
+function detect(sequence: Omit<PitchFrame, 'time'>[]): NoteOnset[] {
+  const detector = new OnsetDetector();
+  return sequence.flatMap((frame, index) => detector.process({ ...frame, time: index * 10 }) ?? []);
+}
+
+const held = (note: string, count: number) => Array<string>(count).fill(note);
+
+describe('OnsetDetector', () => {
+  it('counts a long held note once, after it has been stable', () => {
+    const onsets = detect(frames(held('A4', 50)));
+    expect(onsets).toEqual([{ time: 0, note: 'A4', frequency: 440, reason: 'attack' }]);
+  });
+
+  it('counts repeated notes separated by a lifted bow', () => {
+    const onsets = detect(frames([...held('C4', 10), '', '', ...held('C4', 10)]));
+    expect(onsets.map(onset => onset.reason)).toEqual(['attack', 'attack']);
+  });
+
+  it('counts a slurred change of pitch', () => {
+    const onsets = detect(frames([...held('D4', 10), ...held('E4', 10)]));
+    expect(onsets.map(onset => [onset.note, onset.reason])).toEqual([['D4', 'attack'], ['E4', 'pitch-change']]);
+  });
+
+  it('counts a bow change heard as a dip in clarity', () => {
+    const onsets = detect([
+      ...frames(held('G4', 10)),
+      ...frames(['G4'], { clarity: 0.5 }),
+      ...frames(held('G4', 10))
+    ]);
+    expect(onsets.map(onset => onset.reason)).toEqual(['attack', 'clarity-dip']);
+  });
+
+  it('counts a re-attack heard as a dip and rise in level', () => {
+    const onsets = detect([
+      ...frames(held('G4', 10)),
+      ...frames(held('G4', 2), { rms: LOUD / 4 }),
+      ...frames(held('G4', 10))
+    ]);
+    expect(onsets.map(onset => onset.reason)).toEqual(['attack', 'reattack']);
+  });
+
+  it('doesn\'t report a pitch that doesn\'t last long enough', () => {
+    const onsets = detect(frames([...held('A4', 10), ...held('B4', 3), ...held('C5', 10)]));
+    expect(onsets.map(onset => onset.note)).toEqual(['A4', 'C5']);
+  });
+});
+
+describe('levels', () => {
+  it('measures RMS in decibels', () => {
+    expect(computeRms(new Float32Array([0.5, -0.5]))).toBe(0.5);
+    expect(rmsToDecibels(0.1)).toBeCloseTo(-20);
+    expect(rmsToDecibels(0)).toBe(-Infinity);
+  });
+});
@@ -0,0 +1,181 @@
+// Note-onset detection for practice mode.
+// Each analysis frame is fed in; an onset is reported once per bow stroke or articulation,
+// so repeated notes of the same pitch ("C C G G") are counted separately and a long
+// held note is counted only once.
+
+export interface PitchFrame {
+  time: number; // ms timestamp of the frame
+  rms: number; // linear RMS amplitude of the frame
+  frequency: number; // Detected frequency in Hz, 0 if none
+  clarity: number; // Pitch detector clarity, 0-1
+  note: string; // Detected note name (e.g. "A4"), '' when the pitch is not clear
+}
+
+export interface NoteOnset {
+  time: number; // ms timestamp of the first frame of the new note
+  note: string;
+  frequency: number;
+  reason: OnsetReason;
+}
+
+// What re-armed the detector before this onset
+export type OnsetReason = 'attack' | 'reattack' | 'clarity-dip' | 'pitch-change';
+
+export interface OnsetDetectorOptions {
+  silenceDb: number; // Below this level the bow is considered lifted
+  minClarity: number; // Frames below this clarity don't count as a sustained pitch
+  clarityDipThreshold: number; // A dip below this clarity marks a bow change or articulation
+  envelopeDipDb: number; // Drop below the running peak needed to start a re-attack
+  reattackRiseDb: number; // Rise above the dip minimum that counts as a re-attack
+  confirmMs: number; // How long a new pitch has to be stable before the onset is reported
+}
+
+const DEFAULT_OPTIONS: OnsetDetectorOptions = {
+  silenceDb: -45,
+  minClarity: 0.9,
+  clarityDipThreshold: 0.75,
+  envelopeDipDb: 6,
+  reattackRiseDb: 4,
+  confirmMs: 40
+};
+
+export function computeRms(buffer: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = buffer[i] ?? 0;
+    sum += sample * sample;
+  }
+  return buffer.length > 0 ? Math.sqrt(sum / buffer.length) : 0;
+}
+
+export function rmsToDecibels(rms: number): number {
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+export class OnsetDetector {
+  private options: OnsetDetectorOptions;
+
+  // Set when something indicates a new stroke is starting; cleared when the onset is reported
+  private armedReason: OnsetReason | null = 'attack';
+  // Note sounding since the last reported onset
+  private currentNote = '';
+
+  // Candidate note waiting to be confirmed as stable
+  private candidateNote = '';
+  private candidateStart = 0;
+  private candidateFrequency = 0;
+
+  // Amplitude envelope tracking for re-attack detection
+  private peakDb = -Infinity;
+  private dipMinDb = Infinity;
+  private dipping = false;
+
+  constructor(options: Partial<OnsetDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setOptions(changes: Partial<OnsetDetectorOptions>): void {
+    this.options = { ...this.options, ...changes };
+  }
+
+  reset(): void {
+    this.armedReason = 'attack';
+    this.currentNote = '';
+    this.candidateNote = '';
+    this.candidateStart = 0;
+    this.candidateFrequency = 0;
+    this.peakDb = -Infinity;
+    this.dipMinDb = Infinity;
+    this.dipping = false;
+  }
+
+  /** Process one analysis frame. Returns the onset if this frame confirms a new note. */
+  process(frame: PitchFrame): NoteOnset | null {
+    const db = rmsToDecibels(frame.rms);
+
+    // Bow lifted: the next sound is a fresh attack
+    if (db < this.options.silenceDb) {
+      this.arm('attack');
+      this.currentNote = '';
+      this.clearCandidate();
+      this.peakDb = -Infinity;
+      this.dipping = false;
+      return null;
+    }
+
+    this.trackEnvelope(db);
+
+    // Bow change or consonant-like articulation shows up as a short loss of clarity
+    if (frame.clarity < this.options.clarityDipThreshold) {
+      this.arm('clarity-dip');
+    }
+
+    if (!frame.note || frame.clarity < this.options.minClarity) {
+      return null;
+    }
+
+    // A different pitch without any articulation (slurred notes, left-hand finger change)
+    if (this.armedReason === null && frame.note !== this.currentNote) {
+      this.arm('pitch-change');
+    }
+
+    if (this.armedReason === null) {
+      return null;
+    }
+
+    if (frame.note !== this.candidateNote) {
+      this.candidateNote = frame.note;
+      this.candidateStart = frame.time;
+      this.candidateFrequency = frame.frequency;
+      return null;
+    }
+
+    if (frame.time - this.candidateStart < this.options.confirmMs) {
+      return null;
+    }
+
+    const onset: NoteOnset = {
+      time: this.candidateStart,
+      note: this.candidateNote,
+      frequency: this.candidateFrequency,
+      reason: this.armedReason
+    };
+    this.currentNote = this.candidateNote;
+    this.armedReason = null;
+    this.clearCandidate();
+    return onset;
+  }
+
+  // A dip of the envelope below its running peak followed by a rise is a new bow stroke
+  private trackEnvelope(db: number): void {
+    if (this.dipping) {
+      this.dipMinDb = Math.min(this.dipMinDb, db);
+      if (db > this.dipMinDb + this.options.reattackRiseDb) {
+        this.dipping = false;
+        this.peakDb = db;
+        this.arm('reattack');
+      }
+      return;
+    }
+
+    this.peakDb = Math.max(this.peakDb, db);
+    if (db < this.peakDb - this.options.envelopeDipDb) {
+      this.dipping = true;
+      this.dipMinDb = db;
+    }
+  }
+
+  private arm(reason: OnsetReason): void {
+    // Keep the first reason so a re-attack isn't reported as a later clarity dip
+    if (this.armedReason === null) {
+      this.armedReason = reason;
+      this.clearCandidate();
+    }
+  }
+
+  private clearCandidate(): void {
+    this.candidateNote = '';
+    this.candidateStart = 0;
+    this.candidateFrequency = 0;
+  }
+}
@@ -0,0 +1,97 @@
+// Open-string detection and tuning advice for the string-tuning mode.
+
+import { IN_TUNE_CENTS } from './intonation';
+import { TuningSettings, noteToFrequency, centsBetween } from './tuning';
+
+export const OPEN_STRINGS = ['G3', 'D4', 'A4', 'E5'] as const;
+
+export type OpenString = typeof OPEN_STRINGS[number];
+
+export type TuningTool = 'peg' | 'fine-tuner';
+
+export interface StringReading {
+  string: OpenString;
+  cents: number; // Signed deviation from the open string, positive is sharp
+}
+
+export interface TuningAdvice {
+  inTune: boolean;
+  direction: 'tighten' | 'loosen' | null;
+  tool: TuningTool | null;
+}
+
+// A string this far off is probably another note rather than a badly tuned string
+const MAX_STRING_CENTS = 350;
+// Beyond this the fine tuner doesn't have enough travel, so use the peg
+const PEG_CENTS = 30;
+// How long a string has to stay in tune before it counts as done
+export const HOLD_IN_TUNE_MS = 2000;
+
+/** Work out which open string is being bowed, or null if the pitch is not near any of them. */
+export function detectOpenString(frequency: number, tuning: TuningSettings): StringReading | null {
+  let best: StringReading | null = null;
+  for (const string of OPEN_STRINGS) {
+    const cents = centsBetween(frequency, noteToFrequency(string, tuning));
+    if (Math.abs(cents) <= MAX_STRING_CENTS && (!best || Math.abs(cents) < Math.abs(best.cents))) {
+      best = { string, cents };
+    }
+  }
+  return best;
+}
+
+export function tuningAdvice(cents: number): TuningAdvice {
+  if (Math.abs(cents) < IN_TUNE_CENTS) {
+    return { inTune: true, direction: null, tool: null };
+  }
+  return {
+    inTune: false,
+    // Flat strings need more tension, sharp strings less
+    direction: cents < 0 ? 'tighten' : 'loosen',
+    tool: Math.abs(cents) > PEG_CENTS ? 'peg' : 'fine-tuner'
+  };
+}
+
+/** Tracks how long each string has stayed in tune and which strings are done. */
+export class StringTuningProgress {
+  private inTuneSince = new Map<OpenString, number>();
+  private done = new Set<OpenString>();
+
+  reset(): void {
+    this.inTuneSince.clear();
+    this.done.clear();
+  }
+
+  /** Record a reading; pass null while no string is sounding. Returns true when a string just became done. */
+  update(reading: StringReading | null, time: number): boolean {
+    for (const string of OPEN_STRINGS) {
+      if (string !== reading?.string) {
+        this.inTuneSince.delete(string);
+      }
+    }
+    if (!reading) return false;
+
+    if (!tuningAdvice(reading.cents).inTune) {
+      this.inTuneSince.delete(reading.string);
+      return false;
+    }
+
+    const since = this.inTuneSince.get(reading.string) ?? time;
+    this.inTuneSince.set(reading.string, since);
+    if (!this.done.has(reading.string) && time - since >= HOLD_IN_TUNE_MS) {
+      this.done.add(reading.string);
+      return true;
+    }
+    return false;
+  }
+
+  isDone(string: OpenString): boolean {
+    return this.done.has(string);
+  }
+
+  /** Share of the hold time reached by the string, 0-1. */
+  holdProgress(string: OpenString, time: number): number {
+    if (this.done.has(string)) return 1;
+    const since = this.inTuneSince.get(string);
+    return since === undefined ? 0 : Math.min(1, (time - since) / HOLD_IN_TUNE_MS);
+  }
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { OpenSheetMusicDisplay } from 'opensheetmusicdisplay';
+import { extractPracticeSteps, readMusicXml } from './musicxml';
+import { osmdPracticeSteps } from './osmd-notes';
+import { PracticeStep } from './score-notes';
+
+const SCORES = [
+  'fixtures/repeats-voltas.xml',
+  'fixtures/dal-segno.xml',
+  'public/scores/twinkle-twinkle.xml',
+  'public/scores/mary-lamb.xml'
+];
+
+const readScore = (path: string) => readFileSync(resolve(dirname(fileURLToPath(import.meta.url)), '..', path), 'utf8');
+
+// The practice sequence of the first part as the sheet display reads it through OSMD
+async function displaySteps(xml: string, withMarks = true) {
+  const osmd = new OpenSheetMusicDisplay(document.createElement('div'), { backend: 'svg', autoResize: false });
+  await osmd.load(xml);
+  const sheet = osmd.Sheet;
+  const iterator = sheet.MusicPartManager.getIterator(sheet.SourceMeasures[0]!.AbsoluteTimestamp);
+  const marks = withMarks ? readMusicXml(xml).parts[0]!.measures : null;
+  return osmdPracticeSteps(iterator, sheet, sheet.Instruments[0]!, null, marks);
+}
+
+const positions = (steps: PracticeStep<unknown>[]) => steps.map(({ pitches, measureNumber, measureBeat, startBeat, duration }) =>
+  ({ pitches, measureNumber, measureBeat, startBeat, duration }));
+
+// Measure numbers in the order they are played, one per pass through a measure
+function playedMeasures(steps: PracticeStep<unknown>[]): number[] {
+  return steps.map(step => step.measureNumber).filter((number, i, numbers) => number !== numbers[i - 1]);
+}
+
+describe('osmdPracticeSteps', () => {
+  it.each(SCORES)('reads %s in the same order as the command-line analyzer', async path => {
+    const xml = readScore(path);
+    const expected = extractPracticeSteps(readMusicXml(xml).parts[0]!);
+    expect(positions(await displaySteps(xml))).toEqual(positions(expected));
+  });
+
+  it('follows repeats and voltas', async () => {
+    expect(playedMeasures(await displaySteps(readScore('fixtures/repeats-voltas.xml')))).toEqual([1, 2, 3, 1, 2, 4, 5]);
+  });
+
+  it('jumps back to the segno and stops at Fine', async () => {
+    expect(playedMeasures(await displaySteps(readScore('fixtures/dal-segno.xml')))).toEqual([1, 2, 3, 4, 5, 2, 3]);
+  });
+
+  it('points the cursor at the written notes on every pass', async () => {
+    const steps = await displaySteps(readScore('fixtures/repeats-voltas.xml'));
+    const firstMeasure = steps.filter(step => step.measureNumber === 1).map(step => step.cursorStep);
+    expect(firstMeasure).toEqual([0, 1, 2, 3, 0, 1, 2, 3]);
+  });
+
+  it('plays the score as written without repeat marks', async () => {
+    expect(playedMeasures(await displaySteps(readScore('fixtures/repeats-voltas.xml'), false))).toEqual([1, 2, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,92 @@
+// Reading the practice sequence from a score loaded in OSMD. The MusicXML reader in musicxml.ts
+// reads the same sequence without OSMD, for the command-line analyzer.
+
+import { Instrument, MusicPartManagerIterator, MusicSheet, Note } from 'opensheetmusicdisplay';
+import {
+  ScoreEvent,
+  PracticeStep,
+  RepeatMarks,
+  spellPitch,
+  buildPracticeSteps,
+  performanceOrder,
+  unrollEvents
+} from './score-notes';
+
+// OSMD FundamentalNote enum holds semitones above C: 0=C, 2=D, 4=E, 5=F, 7=G, 9=A, 11=B
+const NOTE_NAMES: { [step: number]: string } = {
+  0: 'C', 2: 'D', 4: 'E', 5: 'F', 7: 'G', 9: 'A', 11: 'B'
+};
+
+/** Name of a note's pitch as written, e.g. "Bb4", or '' for rests. */
+export function notePitch(note: Note): string {
+  const pitch = note.Pitch;
+  if (!pitch) return '';
+  // OSMD uses octave numbering where middle C (C4) is octave 1
+  return spellPitch(NOTE_NAMES[pitch.FundamentalNote] ?? '', pitch.AccidentalHalfTones || 0, pitch.Octave + 3);
+}
+
+// One event per iterator step with the notes of an instrument, in one voice or all of them
+// (voiceId null). The iterator walks the score as written and is left at the end.
+function* iteratorEvents(
+  iterator: MusicPartManagerIterator,
+  sheet: MusicSheet,
+  instrument: Instrument,
+  voiceId: number | null
+): Generator<ScoreEvent<Note>> {
+  while (!iterator.EndReached) {
+    const measure = iterator.CurrentMeasure;
+    // OSMD timestamps are fractions of a whole note
+    const inMeasure = iterator.CurrentSourceTimestamp.RealValue - measure.AbsoluteTimestamp.RealValue;
+    const beatType = measure.ActiveTimeSignature?.Denominator || 4;
+
+    const event: ScoreEvent<Note> = {
+      measureIndex: sheet.SourceMeasures.indexOf(measure),
+      measureNumber: measure.MeasureNumber,
+      measureBeat: 1 + inMeasure * beatType,
+      startBeat: iterator.CurrentEnrolledTimestamp.RealValue * 4,
+      notes: []
+    };
+    for (const voiceEntry of iterator.CurrentVoiceEntries) {
+      const voice = voiceEntry.ParentVoice;
+      if (voice.Parent !== instrument || (voiceId !== null && voice.VoiceId !== voiceId)) continue;
+
+      for (const note of voiceEntry.Notes) {
+        if (note.isRest() || !note.Pitch) continue;
+        const tie = note.NoteTie ?? null;
+        event.notes.push({
+          pitch: notePitch(note),
+          length: note.Length.RealValue * 4,
+          tie,
+          tieContinues: tie !== null && tie.StartNote !== note,
+          source: note
+        });
+      }
+    }
+    yield event;
+    iterator.moveToNext();
+  }
+}
+
+export interface OsmdStep extends PracticeStep<Note> {
+  cursorStep: number; // Iterator steps from the start of the score to the step's notes
+}
+
+/**
+ * The practice sequence of an instrument, in the order it is played. OSMD doesn't follow
+ * repeats, so its measures are put in order from the repeat and jump marks the MusicXML reader
+ * found, the same way as for the command-line analyzer. Without marks for every measure the
+ * score is practiced as written.
+ */
+export function osmdPracticeSteps(
+  iterator: MusicPartManagerIterator,
+  sheet: MusicSheet,
+  instrument: Instrument,
+  voiceId: number | null,
+  marks: RepeatMarks[] | null
+): OsmdStep[] {
+  const measures = sheet.SourceMeasures;
+  const written = [...iteratorEvents(iterator, sheet, instrument, voiceId)];
+  const order = marks?.length === measures.length ? performanceOrder(marks) : measures.map((_, i) => i);
+  const played = unrollEvents(written, order, measures.map(measure => measure.Duration.RealValue * 4));
+  return buildPracticeSteps(played).map(step => ({ ...step, cursorStep: played[step.eventIndex]?.writtenIndex ?? 0 }));
+}
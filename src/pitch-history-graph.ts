@@ -0,0 +1,125 @@
+import { LitElement, html } from 'lit';
+import { query } from 'lit/decorators.js';
+import { IN_TUNE_CENTS } from './intonation';
+import { LocaleController, t } from './locale';
+
+interface PitchSample {
+  time: number; // performance.now() timestamp
+  cents: number | null; // null while no clear pitch is detected
+}
+
+// Seconds of history kept on screen
+const WINDOW_MS = 8000;
+// Vertical range of the graph, in cents either side of the target
+const RANGE_CENTS = 50;
+
+export class PitchHistoryGraph extends LitElement {
+  @query('canvas')
+  private canvas?: HTMLCanvasElement;
+
+  private samples: PitchSample[] = [];
+  private drawPending = false;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  /** Append a sample and schedule a redraw. Samples older than the window are dropped. */
+  addSample(time: number, cents: number | null) {
+    this.samples.push({ time, cents });
+    while (this.samples.length > 0 && (this.samples[0]?.time ?? time) < time - WINDOW_MS) {
+      this.samples.shift();
+    }
+
+    if (!this.drawPending) {
+      this.drawPending = true;
+      requestAnimationFrame(() => {
+        this.drawPending = false;
+        this.draw();
+      });
+    }
+  }
+
+  clear() {
+    this.samples = [];
+    this.draw();
+  }
+
+  private draw() {
+    const canvas = this.canvas;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    // Match the backing store to the displayed size so lines stay sharp
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== width * ratio || canvas.height !== height * ratio) {
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+    }
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const yFor = (cents: number) => {
+      const clamped = Math.max(-RANGE_CENTS, Math.min(RANGE_CENTS, cents));
+      return height / 2 - clamped / RANGE_CENTS * (height / 2);
+    };
+
+    // In-tune band and center line
+    context.fillStyle = 'rgba(22, 163, 74, 0.15)';
+    context.fillRect(0, yFor(IN_TUNE_CENTS), width, yFor(-IN_TUNE_CENTS) - yFor(IN_TUNE_CENTS));
+    context.strokeStyle = 'rgba(22, 163, 74, 0.6)';
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(0, height / 2);
+    context.lineTo(width, height / 2);
+    context.stroke();
+
+    const last = this.samples[this.samples.length - 1];
+    if (!last) return;
+
+    // Newest sample on the right edge, older ones scroll off to the left
+    const xFor = (time: number) => width - (last.time - time) / WINDOW_MS * width;
+
+    context.strokeStyle = '#4f46e5';
+    context.lineWidth = 2;
+    context.lineJoin = 'round';
+    context.beginPath();
+    let drawing = false;
+    for (const sample of this.samples) {
+      if (sample.cents === null) {
+        drawing = false;
+        continue;
+      }
+      const x = xFor(sample.time);
+      const y = yFor(sample.cents);
+      if (drawing) {
+        context.lineTo(x, y);
+      } else {
+        context.moveTo(x, y);
+        drawing = true;
+      }
+    }
+    context.stroke();
+  }
+
+  render() {
+    return html`
+      <div class="relative">
+        <canvas class="w-full h-40 bg-base-100 rounded-lg"></canvas>
+        <span class="absolute top-1 left-2 text-xs text-base-content/50">${t('graph.sharp', { cents: RANGE_CENTS })}</span>
+        <span class="absolute bottom-1 left-2 text-xs text-base-content/50">${t('graph.flat', { cents: RANGE_CENTS })}</span>
+        <span class="absolute bottom-1 right-2 text-xs text-base-content/50">${t('graph.window', { seconds: WINDOW_MS / 1000 })}</span>
+      </div>
+    `;
+  }
+}
+
+customElements.define('pitch-history-graph', PitchHistoryGraph);
@@ -0,0 +1,79 @@
+// The pitch pipeline shared by the live microphone and recorded audio files: pitch detection,
+// octave correction, note smoothing and onset detection, one analysis frame at a time.
+
+import { PitchDetector } from 'pitchy';
+import { OnsetDetector, NoteOnset, computeRms, rmsToDecibels } from './onset-detector';
+import { DetectionSettings, DEFAULT_DETECTION, SILENCE_MARGIN_DB, NoteSmoother, OctaveCorrector } from './detection';
+import { TuningSettings, DEFAULT_TUNING, noteToFrequency, noteToMidi, midiToNote, frequencyToNote } from './tuning';
+
+export const FRAME_SIZE = 2048;
+
+// Lowest note of the violin; detected pitches below it are octave errors
+const LOWEST_NOTE = 'G3';
+
+export interface PitchResult {
+  time: number; // ms timestamp of the frame
+  rms: number;
+  level: number; // Frame level in dB
+  frequency: number; // Octave-corrected frequency in Hz, 0 if none
+  clarity: number;
+  isClear: boolean; // Loud and clear enough to count as a pitch
+  note: string; // Smoothed note name, '' when there is no clear pitch
+  onset: NoteOnset | null; // Set on the frame that confirms a new note
+}
+
+export class PitchPipeline {
+  private detector = PitchDetector.forFloat32Array(FRAME_SIZE);
+  private onsetDetector = new OnsetDetector();
+  private detection: DetectionSettings = DEFAULT_DETECTION;
+  private tuning: TuningSettings = DEFAULT_TUNING;
+  private noteSmoother = new NoteSmoother(DEFAULT_DETECTION.smoothing, DEFAULT_DETECTION.smoothingFrames);
+  private octaveCorrector = new OctaveCorrector(noteToFrequency(LOWEST_NOTE, DEFAULT_TUNING));
+
+  constructor(detection: DetectionSettings = DEFAULT_DETECTION, tuning: TuningSettings = DEFAULT_TUNING) {
+    this.configure(detection, tuning);
+  }
+
+  configure(detection: DetectionSettings, tuning: TuningSettings): void {
+    this.detection = detection;
+    this.tuning = tuning;
+    this.detector.minVolumeDecibels = detection.minVolumeDb;
+    this.onsetDetector.setOptions({
+      minClarity: detection.minClarity,
+      silenceDb: detection.noiseFloorDb + SILENCE_MARGIN_DB
+    });
+    this.noteSmoother.configure(detection.smoothing, detection.smoothingFrames);
+    this.octaveCorrector.setLowestFrequency(noteToFrequency(LOWEST_NOTE, tuning));
+  }
+
+  reset(): void {
+    this.onsetDetector.reset();
+    this.noteSmoother.reset();
+    this.octaveCorrector.reset();
+  }
+
+  /** Analyze one frame of FRAME_SIZE samples. */
+  process(buffer: Float32Array, sampleRate: number, time: number): PitchResult {
+    const rms = computeRms(buffer);
+    const level = rmsToDecibels(rms);
+
+    const [detectedFrequency, clarity] = this.detector.findPitch(buffer, sampleRate);
+    let frequency = detectedFrequency;
+    // A new note after a pause may really be an octave away
+    if (level < this.detection.noiseFloorDb + SILENCE_MARGIN_DB) {
+      this.octaveCorrector.reset();
+    }
+    if (frequency > 0 && this.detection.octaveCorrection) {
+      frequency = this.octaveCorrector.correct(frequency);
+    }
+    const isClear = frequency > 0 && clarity > this.detection.minClarity;
+
+    const smoothed = this.noteSmoother.process(isClear ? noteToMidi(frequencyToNote(frequency, this.tuning)) : null);
+    const note = isClear && smoothed !== null ? midiToNote(smoothed) : '';
+
+    // Advance the score once per bow stroke, not once per time the pitch is held
+    const onset = this.onsetDetector.process({ time, rms, frequency, clarity, note });
+
+    return { time, rms, level, frequency, clarity, isClear, note, onset };
+  }
+}
@@ -0,0 +1,259 @@
+import { LitElement, html } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import {
+  PracticeSession,
+  dayKey,
+  dailyMinutes,
+  practiceStreaks,
+  pieceProgress,
+  outOfTuneNotes,
+  exportHistory
+} from './practice-history';
+import { MessageKey, LocaleController, locale, t, formatNote } from './locale';
+
+// Days shown in the practice minutes chart
+const CHART_DAYS = 14;
+// Sessions shown in each piece's completion trend
+const TREND_SESSIONS = 10;
+
+const MODE_LABELS: { [mode: string]: MessageKey } = {
+  tuner: 'history.mode.tuner',
+  strings: 'history.mode.strings',
+  practice: 'history.mode.practice',
+  ear: 'history.mode.ear'
+};
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 1) return minutes > 0 ? t('duration.underMinute') : t('duration.minutes', { minutes: 0 });
+  if (minutes < 60) return t('duration.minutes', { minutes: Math.round(minutes) });
+  return t('duration.hours', { hours: Math.floor(minutes / 60), minutes: Math.round(minutes % 60) });
+}
+
+const formatDays = (count: number) => t(count === 1 ? 'history.oneDay' : 'history.days', { count });
+
+// Sessions stored by other versions may have modes without a label
+function modeName(mode: string): string {
+  const key = MODE_LABELS[mode];
+  return key ? t(key) : mode;
+}
+
+/**
+ * Progress dashboard over the locally stored practice history. The dashboard only displays
+ * sessions; clearing the history is requested with a 'history-clear' event.
+ */
+export class PracticeDashboard extends LitElement {
+  @property({ attribute: false })
+  sessions: PracticeSession[] = [];
+
+  // Whether the dialog asking to confirm clearing the history is open
+  @state()
+  private confirmingClear = false;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  private exportSessions() {
+    const blob = new Blob([exportHistory(this.sessions)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `practice-history-${dayKey(Date.now())}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private clearHistory() {
+    this.confirmingClear = false;
+    this.dispatchEvent(new CustomEvent('history-clear', {
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private renderClearDialog() {
+    return html`
+      <div class="modal ${this.confirmingClear ? 'modal-open' : ''}" role="dialog" aria-modal="true">
+        <div class="modal-box">
+          <h3 class="font-bold text-lg">${t('history.clear')}</h3>
+          <p class="py-4">${t('history.clearConfirm')}</p>
+          <div class="modal-action">
+            <button class="btn" @click=${() => this.confirmingClear = false}>${t('dialog.cancel')}</button>
+            <button class="btn btn-error" @click=${this.clearHistory}>${t('dialog.delete')}</button>
+          </div>
+        </div>
+        <div class="modal-backdrop" @click=${() => this.confirmingClear = false}></div>
+      </div>
+    `;
+  }
+
+  private renderChart() {
+    const days = dailyMinutes(this.sessions, CHART_DAYS);
+    const most = Math.max(...days.map(day => day.minutes), 1);
+
+    return html`
+      <div class="flex items-end gap-1 h-32">
+        ${days.map(({ day, minutes }) => html`
+          <div class="flex-1 flex flex-col items-center justify-end h-full" title="${day}: ${formatMinutes(minutes)}">
+            <div class="w-full rounded-t bg-primary" style="height: ${minutes / most * 100}%"></div>
+          </div>
+        `)}
+      </div>
+      <div class="flex gap-1 text-[10px] text-base-content/60 mt-1">
+        ${days.map(({ day }) => html`<div class="flex-1 text-center">${Number(day.slice(8))}</div>`)}
+      </div>
+    `;
+  }
+
+  private renderPieces() {
+    const pieces = pieceProgress(this.sessions);
+    if (pieces.length === 0) {
+      return html`<p class="text-sm text-base-content/60">${t('history.noPieces')}</p>`;
+    }
+
+    return html`
+      <div class="overflow-x-auto">
+        <table class="table table-sm">
+          <thead>
+            <tr>
+              <th>${t('history.piece')}</th>
+              <th>${t('history.sessions')}</th>
+              <th>${t('history.time')}</th>
+              <th>${t('history.completion')}</th>
+              <th>${t('history.best')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${pieces.map(piece => html`
+              <tr>
+                <td class="font-medium">${piece.title}</td>
+                <td>${piece.sessions}</td>
+                <td>${formatMinutes(piece.minutes)}</td>
+                <td>
+                  <div class="flex items-end gap-0.5 h-6" title=${t('history.completionTitle')}>
+                    ${piece.completion.slice(-TREND_SESSIONS).map(share => html`
+                      <div class="w-2 rounded-t ${share >= 1 ? 'bg-success' : 'bg-secondary'}" style="height: ${Math.max(share * 100, 4)}%"></div>
+                    `)}
+                  </div>
+                </td>
+                <td>${Math.round(Math.max(...piece.completion) * 100)}%</td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  private renderOutOfTune() {
+    const notes = outOfTuneNotes(this.sessions, 8);
+    if (notes.length === 0) {
+      return html`<p class="text-sm text-base-content/60">${t('history.notEnoughNotes')}</p>`;
+    }
+
+    return html`
+      <div class="flex flex-wrap gap-2">
+        ${notes.map(note => html`
+          <div class="badge badge-lg ${note.outOfTuneShare > 0.5 ? 'badge-error' : 'badge-warning'} gap-1"
+            title=${t('history.frames', { count: note.samples })}>
+            <span class="font-bold">${formatNote(note.note)}</span>
+            ${t('history.outOfTune', {
+              share: Math.round(note.outOfTuneShare * 100),
+              cents: `${note.averageCents >= 0 ? '+' : ''}${Math.round(note.averageCents)}`
+            })}
+          </div>
+        `)}
+      </div>
+    `;
+  }
+
+  private renderRecent() {
+    const recent = this.sessions.slice(-5).reverse();
+    return html`
+      <ul class="text-sm space-y-1">
+        ${recent.map(session => html`
+          <li>
+            <span class="text-base-content/60">${new Date(session.startedAt).toLocaleString(locale.settings.language)}</span>
+            · ${modeName(session.mode)} · ${formatMinutes(session.duration / 60000)}
+            ${session.score ? html`
+              · ${t('history.notesPlayed', { title: session.score.title, count: session.score.notesCompleted })}
+              ${session.score.stoppedAt ? html`, ${t('history.stoppedAt', {
+                measure: session.score.stoppedAt.measureNumber,
+                beat: session.score.stoppedAt.beat
+              })}` : ''}
+            ` : ''}
+          </li>
+        `)}
+      </ul>
+    `;
+  }
+
+  render() {
+    if (this.sessions.length === 0) {
+      return html`
+        <p class="text-sm text-base-content/70">
+          ${t('history.empty')}
+        </p>
+      `;
+    }
+
+    const today = dailyMinutes(this.sessions, 1)[0]?.minutes ?? 0;
+    const week = dailyMinutes(this.sessions, 7).reduce((sum, day) => sum + day.minutes, 0);
+    const streaks = practiceStreaks(this.sessions);
+
+    return html`
+      <div class="stats stats-vertical sm:stats-horizontal w-full bg-base-100 mb-6">
+        <div class="stat">
+          <div class="stat-title">${t('history.today')}</div>
+          <div class="stat-value text-2xl">${formatMinutes(today)}</div>
+        </div>
+        <div class="stat">
+          <div class="stat-title">${t('history.week')}</div>
+          <div class="stat-value text-2xl">${formatMinutes(week)}</div>
+        </div>
+        <div class="stat">
+          <div class="stat-title">${t('history.streak')}</div>
+          <div class="stat-value text-2xl">${formatDays(streaks.current)}</div>
+          <div class="stat-desc">${t('history.longest', { days: formatDays(streaks.longest) })}</div>
+        </div>
+        <div class="stat">
+          <div class="stat-title">${t('history.sessions')}</div>
+          <div class="stat-value text-2xl">${this.sessions.length}</div>
+        </div>
+      </div>
+
+      <h3 class="font-semibold mb-2">${t('history.daily', { days: CHART_DAYS })}</h3>
+      <div class="mb-6">${this.renderChart()}</div>
+
+      <h3 class="font-semibold mb-2">${t('history.pieces')}</h3>
+      <div class="mb-6">${this.renderPieces()}</div>
+
+      <h3 class="font-semibold mb-2">${t('history.outOfTuneNotes')}</h3>
+      <div class="mb-6">${this.renderOutOfTune()}</div>
+
+      <h3 class="font-semibold mb-2">${t('history.recent')}</h3>
+      <div class="mb-6">${this.renderRecent()}</div>
+
+      <div class="flex flex-wrap gap-2">
+        <button class="btn btn-sm btn-outline" @click=${this.exportSessions}>
+          <span class="icon-[mdi--download]"></span>
+          ${t('history.export')}
+        </button>
+        <button class="btn btn-sm btn-ghost text-error" @click=${() => this.confirmingClear = true}>
+          <span class="icon-[mdi--delete]"></span>
+          ${t('history.clear')}
+        </button>
+      </div>
+      <p class="text-xs text-base-content/60 mt-2">${t('history.local')}</p>
+      ${this.renderClearDialog()}
+    `;
+  }
+}
+
+customElements.define('practice-dashboard', PracticeDashboard);
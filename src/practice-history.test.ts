@@ -0,0 +1,141 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import {
+  PitchIntonation,
+  PracticeSession,
+  SessionRecorder,
+  dailyMinutes,
+  dayKey,
+  outOfTuneNotes,
+  pieceProgress,
+  practiceStreaks
+} from './practice-history';
+
+// Day boundaries are local, so check them in a zone with daylight saving time:
+// in Berlin clocks go forward on 2024-03-31 and back on 2024-10-27
+const zone = process.env['TZ'];
+process.env['TZ'] = 'Europe/Berlin';
+afterAll(() => {
+  if (zone === undefined) {
+    delete process.env['TZ'];
+  } else {
+    process.env['TZ'] = zone;
+  }
+});
+
+const at = (day: string, time = '12:00') => new Date(`${day}T${time}:00`).getTime();
+
+function session(startedAt: number, minutes = 10, intonation: PitchIntonation[] = []): PracticeSession {
+  return { startedAt, duration: minutes * 60000, mode: 'practice', score: null, intonation };
+}
+
+describe('dailyMinutes', () => {
+  it('runs in a zone with daylight saving time', () => {
+    expect(at('2024-04-01', '00:00') - at('2024-03-31', '00:00')).toBe(23 * 3600000);
+  });
+
+  it('adds up the sessions of each local day', () => {
+    const sessions = [session(at('2024-05-02', '08:00'), 5), session(at('2024-05-02', '23:30'), 10), session(at('2024-05-03', '00:10'), 20)];
+    expect(dailyMinutes(sessions, 3, at('2024-05-03'))).toEqual([
+      { day: '2024-05-01', minutes: 0 },
+      { day: '2024-05-02', minutes: 15 },
+      { day: '2024-05-03', minutes: 20 }
+    ]);
+  });
+
+  it('lists every day once across the change to summer time', () => {
+    const days = dailyMinutes([session(at('2024-03-31', '00:30'))], 4, at('2024-04-01', '00:30'));
+    expect(days.map(day => day.day)).toEqual(['2024-03-29', '2024-03-30', '2024-03-31', '2024-04-01']);
+    expect(days[2]?.minutes).toBe(10);
+  });
+
+  it('lists every day once across the change back to winter time', () => {
+    const days = dailyMinutes([session(at('2024-10-27', '23:30'))], 3, at('2024-10-28', '23:30'));
+    expect(days.map(day => day.day)).toEqual(['2024-10-26', '2024-10-27', '2024-10-28']);
+    expect(days[1]?.minutes).toBe(10);
+  });
+});
+
+describe('practiceStreaks', () => {
+  it('keeps the streak going when today has no practice yet', () => {
+    const sessions = ['2024-05-01', '2024-05-02'].map(day => session(at(day)));
+    expect(practiceStreaks(sessions, at('2024-05-03', '07:00'))).toEqual({ current: 2, longest: 2 });
+    expect(practiceStreaks(sessions, at('2024-05-04'))).toEqual({ current: 0, longest: 2 });
+  });
+
+  it('finds the longest run', () => {
+    const sessions = ['2024-05-01', '2024-05-02', '2024-05-03', '2024-05-06', '2024-05-07'].map(day => session(at(day)));
+    expect(practiceStreaks(sessions, at('2024-05-07'))).toEqual({ current: 2, longest: 3 });
+  });
+
+  it('counts days in a row across daylight saving changes', () => {
+    const spring = ['2024-03-30', '2024-03-31', '2024-04-01'].map(day => session(at(day, '00:15')));
+    expect(practiceStreaks(spring, at('2024-04-01', '23:45'))).toEqual({ current: 3, longest: 3 });
+    const autumn = ['2024-10-26', '2024-10-27', '2024-10-28'].map(day => session(at(day, '23:45')));
+    expect(practiceStreaks(autumn, at('2024-10-28', '23:50'))).toEqual({ current: 3, longest: 3 });
+  });
+});
+
+describe('outOfTuneNotes', () => {
+  it('ranks notes by their share of out-of-tune frames over all sessions', () => {
+    const sessions = [
+      session(at('2024-05-01'), 10, [
+        { note: 'F#4', samples: 40, inTune: 10, averageCents: -20 },
+        { note: 'A4', samples: 40, inTune: 40, averageCents: 1 },
+        { note: 'C5', samples: 40, inTune: 30, averageCents: 8 }
+      ]),
+      session(at('2024-05-02'), 10, [
+        { note: 'F#4', samples: 40, inTune: 30, averageCents: -10 },
+        { note: 'B4', samples: 10, inTune: 0, averageCents: 30 }
+      ])
+    ];
+    const notes = outOfTuneNotes(sessions, 8);
+    // B4 was heard too little to rank, and A4 was always in tune
+    expect(notes.map(note => note.note)).toEqual(['F#4', 'C5']);
+    expect(notes[0]).toEqual({ note: 'F#4', samples: 80, outOfTuneShare: 0.5, averageCents: -15 });
+    expect(outOfTuneNotes(sessions, 1)).toHaveLength(1);
+  });
+});
+
+describe('SessionRecorder', () => {
+  it('collects intonation and score progress', () => {
+    const recorder = new SessionRecorder();
+    recorder.start('practice', 0);
+    recorder.addPitch('A4', 4);
+    recorder.addPitch('A4', 20);
+    const score = { id: 'twinkle', title: 'Twinkle', totalNotes: 42 };
+    recorder.addCompletedNote(score, 0);
+    recorder.addCompletedNote(score, 1);
+    recorder.setStoppedAt(1, 3);
+
+    const finished = recorder.finish(60000);
+    expect(finished?.intonation).toEqual([{ note: 'A4', samples: 2, inTune: 1, averageCents: 12 }]);
+    expect(finished?.score).toEqual({ ...score, notesCompleted: 2, furthestNote: 2, stoppedAt: { measureNumber: 1, beat: 3 } });
+    expect(recorder.active).toBe(false);
+  });
+
+  it('drops sessions too short to keep', () => {
+    const recorder = new SessionRecorder();
+    recorder.start('tuner', 0);
+    expect(recorder.finish(1000)).toBeNull();
+  });
+});
+
+describe('pieceProgress', () => {
+  it('tracks completion per piece, most recent first', () => {
+    const practiced = (day: string, id: string, furthestNote: number): PracticeSession => ({
+      ...session(at(day)),
+      score: { id, title: id, totalNotes: 10, notesCompleted: furthestNote, furthestNote, stoppedAt: null }
+    });
+    const pieces = pieceProgress([practiced('2024-05-01', 'mary', 5), practiced('2024-05-02', 'twinkle', 2), practiced('2024-05-03', 'mary', 10)]);
+    expect(pieces.map(piece => [piece.scoreId, piece.sessions, piece.completion])).toEqual([
+      ['mary', 2, [0.5, 1]],
+      ['twinkle', 1, [0.2]]
+    ]);
+  });
+});
+
+describe('dayKey', () => {
+  it('uses the local calendar day', () => {
+    expect(dayKey(at('2024-03-31', '00:30'))).toBe('2024-03-31');
+  });
+});
@@ -0,0 +1,229 @@
+// Practice history kept locally in IndexedDB: one record per listening session, plus the
+// summaries the progress dashboard shows.
+
+import { SESSIONS_STORE, objectStore, request } from './database';
+import { IN_TUNE_CENTS } from './intonation';
+
+export interface PitchIntonation {
+  note: string; // e.g. "F#4"
+  samples: number; // Pitch frames heard on the note
+  inTune: number; // Frames within IN_TUNE_CENTS of it
+  averageCents: number; // Signed: positive is sharp
+}
+
+export interface SessionScore {
+  id: string;
+  title: string;
+  totalNotes: number;
+  notesCompleted: number; // Score notes played correctly during the session
+  furthestNote: number; // Notes of the score reached, counting from the start
+  stoppedAt: { measureNumber: number; beat: number } | null; // Current note when the session ended
+}
+
+export interface PracticeSession {
+  id?: number; // Assigned by the database
+  startedAt: number; // ms since epoch
+  duration: number; // ms spent listening
+  mode: string; // App mode, e.g. 'practice'
+  score: SessionScore | null; // Score practiced in practice mode
+  intonation: PitchIntonation[];
+}
+
+// Shorter sessions (e.g. switching the microphone on by accident) are not recorded
+const MIN_SESSION_MS = 5000;
+
+// A note needs this many pitch frames (about half a second) before its intonation is ranked
+const MIN_RANKED_SAMPLES = 30;
+
+/** Collects one listening session as it happens. */
+export class SessionRecorder {
+  private session: PracticeSession | null = null;
+  private pitches = new Map<string, { samples: number; inTune: number; centsTotal: number }>();
+
+  get active(): boolean {
+    return this.session !== null;
+  }
+
+  start(mode: string, now: number = Date.now()): void {
+    this.session = { startedAt: now, duration: 0, mode, score: null, intonation: [] };
+    this.pitches.clear();
+  }
+
+  /** Record one pitch frame: the nearest note and how far from it the pitch was. */
+  addPitch(note: string, cents: number): void {
+    if (!this.session) return;
+    const stats = this.pitches.get(note) ?? { samples: 0, inTune: 0, centsTotal: 0 };
+    stats.samples++;
+    stats.centsTotal += cents;
+    if (Math.abs(cents) < IN_TUNE_CENTS) {
+      stats.inTune++;
+    }
+    this.pitches.set(note, stats);
+  }
+
+  /**
+   * Record a score note played correctly. Switching scores mid-session keeps only the latest
+   * score's progress.
+   */
+  addCompletedNote(score: { id: string; title: string; totalNotes: number }, noteIndex: number): void {
+    if (!this.session) return;
+    if (this.session.score?.id !== score.id) {
+      this.session.score = { ...score, notesCompleted: 0, furthestNote: 0, stoppedAt: null };
+    }
+    this.session.score.notesCompleted++;
+    this.session.score.furthestNote = Math.max(this.session.score.furthestNote, noteIndex + 1);
+  }
+
+  setStoppedAt(measureNumber: number, beat: number): void {
+    if (this.session?.score) {
+      this.session.score.stoppedAt = { measureNumber, beat };
+    }
+  }
+
+  /** End the session. Returns it, or null if it was too short to keep. */
+  finish(now: number = Date.now()): PracticeSession | null {
+    const session = this.session;
+    this.session = null;
+    if (!session) return null;
+
+    session.duration = now - session.startedAt;
+    session.intonation = [...this.pitches].map(([note, stats]) => ({
+      note,
+      samples: stats.samples,
+      inTune: stats.inTune,
+      averageCents: stats.centsTotal / stats.samples
+    }));
+    return session.duration >= MIN_SESSION_MS ? session : null;
+  }
+}
+
+export async function saveSession(session: PracticeSession): Promise<void> {
+  await request((await objectStore(SESSIONS_STORE, 'readwrite')).add(session));
+}
+
+/** All sessions, oldest first. */
+export async function listSessions(): Promise<PracticeSession[]> {
+  const sessions = await request((await objectStore(SESSIONS_STORE, 'readonly')).getAll() as IDBRequest<PracticeSession[]>);
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export async function clearHistory(): Promise<void> {
+  await request((await objectStore(SESSIONS_STORE, 'readwrite')).clear());
+}
+
+export function exportHistory(sessions: PracticeSession[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), sessions }, null, 2);
+}
+
+// Local calendar day of a timestamp, e.g. "2024-03-09"
+export function dayKey(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(time: number, days: number): number {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+/** Minutes practiced on each of the last `days` days, oldest first. */
+export function dailyMinutes(sessions: PracticeSession[], days: number, now: number = Date.now()): { day: string; minutes: number }[] {
+  const totals = new Map<string, number>();
+  for (const session of sessions) {
+    const day = dayKey(session.startedAt);
+    totals.set(day, (totals.get(day) ?? 0) + session.duration / 60000);
+  }
+  return Array.from({ length: days }, (_, i) => {
+    const day = dayKey(addDays(now, i - days + 1));
+    return { day, minutes: totals.get(day) ?? 0 };
+  });
+}
+
+/**
+ * Days in a row with practice. The current streak still counts when today has no practice
+ * yet, as long as yesterday had.
+ */
+export function practiceStreaks(sessions: PracticeSession[], now: number = Date.now()): { current: number; longest: number } {
+  const days = new Set(sessions.map(session => dayKey(session.startedAt)));
+
+  let current = 0;
+  let day = days.has(dayKey(now)) ? now : addDays(now, -1);
+  while (days.has(dayKey(day))) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  for (const key of days) {
+    const [year = 0, month = 1, date = 1] = key.split('-').map(Number);
+    const start = new Date(year, month - 1, date).getTime();
+    // Only count from the first day of each run
+    if (days.has(dayKey(addDays(start, -1)))) continue;
+    let length = 0;
+    while (days.has(dayKey(addDays(start, length)))) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  }
+  return { current, longest };
+}
+
+export interface PieceProgress {
+  scoreId: string;
+  title: string;
+  sessions: number;
+  minutes: number;
+  completion: number[]; // Share of the piece reached (0-1) in each session, oldest first
+  lastPracticedAt: number;
+}
+
+/** Progress per practiced piece, most recently practiced first. */
+export function pieceProgress(sessions: PracticeSession[]): PieceProgress[] {
+  const pieces = new Map<string, PieceProgress>();
+  for (const session of sessions) {
+    const score = session.score;
+    if (!score) continue;
+    const piece = pieces.get(score.id) ?? {
+      scoreId: score.id, title: score.title, sessions: 0, minutes: 0, completion: [], lastPracticedAt: 0
+    };
+    piece.title = score.title;
+    piece.sessions++;
+    piece.minutes += session.duration / 60000;
+    piece.completion.push(score.totalNotes > 0 ? score.furthestNote / score.totalNotes : 0);
+    piece.lastPracticedAt = Math.max(piece.lastPracticedAt, session.startedAt);
+    pieces.set(score.id, piece);
+  }
+  return [...pieces.values()].sort((a, b) => b.lastPracticedAt - a.lastPracticedAt);
+}
+
+export interface OutOfTuneNote {
+  note: string;
+  samples: number;
+  outOfTuneShare: number; // Share of frames outside IN_TUNE_CENTS (0-1)
+  averageCents: number;
+}
+
+/** Notes most often played out of tune over all sessions, worst first. */
+export function outOfTuneNotes(sessions: PracticeSession[], limit: number): OutOfTuneNote[] {
+  const totals = new Map<string, { samples: number; inTune: number; centsTotal: number }>();
+  for (const pitch of sessions.flatMap(session => session.intonation)) {
+    const total = totals.get(pitch.note) ?? { samples: 0, inTune: 0, centsTotal: 0 };
+    total.samples += pitch.samples;
+    total.inTune += pitch.inTune;
+    total.centsTotal += pitch.averageCents * pitch.samples;
+    totals.set(pitch.note, total);
+  }
+  return [...totals]
+    .filter(([, total]) => total.samples >= MIN_RANKED_SAMPLES)
+    .map(([note, total]) => ({
+      note,
+      samples: total.samples,
+      outOfTuneShare: 1 - total.inTune / total.samples,
+      averageCents: total.centsTotal / total.samples
+    }))
+    .filter(note => note.outOfTuneShare > 0)
+    .sort((a, b) => b.outOfTuneShare - a.outOfTuneShare)
+    .slice(0, limit);
+}
@@ -0,0 +1,226 @@
+import { LitElement, html } from 'lit';
+import { property, state, query } from 'lit/decorators.js';
+import { DetectionSettings, DEFAULT_DETECTION } from './detection';
+import { TuningSettings, DEFAULT_TUNING, noteToMidi } from './tuning';
+import { RecordingAnalysis, DetectedNote, decodeAudioFile, analyzeRecording } from './audio-analysis';
+import { FollowResult } from './score-following';
+import { LocaleController, t, formatNote } from './locale';
+
+// Timeline scale
+const PIXELS_PER_SECOND = 80;
+const PIXELS_PER_SEMITONE = 5;
+
+/**
+ * Analyze a recording through the live pitch pipeline and show the detected notes on a
+ * timeline with a playback scrubber. Dispatches 'recording-analyzed' with the analysis; the
+ * app answers with a score-following result in practice mode.
+ */
+export class RecordingAnalyzer extends LitElement {
+  @property({ attribute: false })
+  detection: DetectionSettings = DEFAULT_DETECTION;
+
+  @property({ attribute: false })
+  tuning: TuningSettings = DEFAULT_TUNING;
+
+  // How the recording followed the loaded score, if it was followed
+  @property({ attribute: false })
+  following: FollowResult | null = null;
+
+  @state()
+  private fileName = '';
+
+  @state()
+  private audioUrl = '';
+
+  @state()
+  private analysis: RecordingAnalysis | null = null;
+
+  // Share of the recording analyzed so far, null when not analyzing
+  @state()
+  private progress: number | null = null;
+
+  @state()
+  private errorMessage = '';
+
+  // Playback position, in ms
+  @state()
+  private playhead = 0;
+
+  @query('audio')
+  private audio?: HTMLAudioElement;
+
+  private frame?: number;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stopTracking();
+    if (this.audioUrl) {
+      URL.revokeObjectURL(this.audioUrl);
+    }
+  }
+
+  private async handleFile(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    if (this.audioUrl) {
+      URL.revokeObjectURL(this.audioUrl);
+    }
+    this.fileName = file.name;
+    this.audioUrl = URL.createObjectURL(file);
+    this.analysis = null;
+    this.errorMessage = '';
+    this.playhead = 0;
+    this.progress = 0;
+
+    try {
+      const audio = await decodeAudioFile(file);
+      this.analysis = await analyzeRecording(audio, this.detection, this.tuning, progress => this.progress = progress);
+      this.dispatchEvent(new CustomEvent('recording-analyzed', {
+        detail: { analysis: this.analysis },
+        bubbles: true,
+        composed: true
+      }));
+    } catch (error) {
+      console.error('Error analyzing recording:', error);
+      this.errorMessage = error instanceof Error ? error.message : t('recording.failed');
+    } finally {
+      this.progress = null;
+    }
+  }
+
+  // Follow the playback position smoothly while the recording plays
+  private startTracking() {
+    this.stopTracking();
+    const track = () => {
+      this.playhead = (this.audio?.currentTime ?? 0) * 1000;
+      this.frame = requestAnimationFrame(track);
+    };
+    track();
+  }
+
+  private stopTracking() {
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+      this.frame = undefined;
+    }
+    this.playhead = (this.audio?.currentTime ?? 0) * 1000;
+  }
+
+  private seek(ms: number) {
+    if (!this.audio) return;
+    this.audio.currentTime = ms / 1000;
+    this.playhead = ms;
+  }
+
+  private renderTimeline(analysis: RecordingAnalysis) {
+    const midis = analysis.notes.map(note => noteToMidi(note.note) ?? 0);
+    const highest = Math.max(...midis, 0);
+    const lowest = Math.min(...midis, highest);
+    const height = (highest - lowest + 1) * PIXELS_PER_SEMITONE + 24;
+    const width = analysis.duration / 1000 * PIXELS_PER_SECOND;
+    const x = (ms: number) => ms / 1000 * PIXELS_PER_SECOND;
+    const matchedTimes = new Set(this.following?.steps.map(step => step.time).filter(time => time !== null));
+
+    const noteClass = (note: DetectedNote) => {
+      if (!this.following) return 'bg-primary';
+      return matchedTimes.has(note.start) ? 'bg-success' : 'bg-error';
+    };
+
+    return html`
+      <div class="overflow-x-auto bg-base-100 rounded-lg border border-base-300">
+        <div
+          class="relative cursor-pointer"
+          style="width: ${width}px; height: ${height}px"
+          @click=${(e: MouseEvent) => this.seek(e.offsetX / PIXELS_PER_SECOND * 1000)}>
+          ${analysis.notes.map((note, i) => html`
+            <div
+              class="absolute rounded text-[10px] leading-3 text-primary-content px-0.5 overflow-hidden ${noteClass(note)}"
+              style="left: ${x(note.start)}px; width: ${Math.max(3, x(note.end - note.start))}px;
+                top: ${(highest - (midis[i] ?? 0)) * PIXELS_PER_SEMITONE}px; height: 12px"
+              title=${t('recording.noteTitle', {
+                note: formatNote(note.note),
+                seconds: (note.start / 1000).toFixed(2),
+                cents: `${note.cents > 0 ? '+' : ''}${note.cents.toFixed(0)}`
+              })}
+              @click=${(e: MouseEvent) => {
+                e.stopPropagation();
+                this.seek(note.start);
+              }}>
+              ${formatNote(note.note)}
+            </div>
+          `)}
+          <div class="absolute top-0 bottom-0 w-0.5 bg-secondary pointer-events-none" style="left: ${x(this.playhead)}px"></div>
+        </div>
+      </div>
+    `;
+  }
+
+  render() {
+    const analysis = this.analysis;
+
+    return html`
+      <div class="flex flex-wrap items-center gap-4 mb-4">
+        <label class="btn btn-sm btn-outline">
+          <span class="icon-[mdi--file-music]"></span>
+          ${t('recording.open')}
+          <input
+            type="file"
+            class="hidden"
+            accept="audio/*,.wav,.ogg,.mp3"
+            @change=${this.handleFile} />
+        </label>
+        ${this.fileName ? html`<span class="text-sm text-base-content/70">${this.fileName}</span>` : ''}
+        ${this.progress !== null ? html`
+          <progress class="progress progress-primary w-48" value=${this.progress} max="1"></progress>
+        ` : ''}
+      </div>
+
+      ${this.errorMessage ? html`
+        <div class="alert alert-error mb-4">
+          <span class="icon-[mdi--alert-circle]"></span>
+          ${this.errorMessage}
+        </div>
+      ` : ''}
+
+      ${this.audioUrl ? html`
+        <audio
+          class="w-full mb-4"
+          controls
+          src=${this.audioUrl}
+          @play=${this.startTracking}
+          @pause=${this.stopTracking}
+          @ended=${this.stopTracking}
+          @seeked=${() => this.playhead = (this.audio?.currentTime ?? 0) * 1000}></audio>
+      ` : ''}
+
+      ${analysis ? html`
+        <div class="text-sm mb-2">
+          ${t('recording.detected', { count: analysis.notes.length, seconds: (analysis.duration / 1000).toFixed(1) })}
+          ${this.following ? html`
+            · ${t('recording.followed', {
+              matched: this.following.matched,
+              total: this.following.steps.length,
+              wrong: this.following.wrongNotes
+            })}
+          ` : ''}
+        </div>
+        ${this.renderTimeline(analysis)}
+      ` : ''}
+    `;
+  }
+}
+
+customElements.define('recording-analyzer', RecordingAnalyzer);
@@ -0,0 +1,71 @@
+// Timing helpers for the rhythm-aware play-along mode.
+// All score positions are in quarter notes; tempo is quarter notes per minute.
+
+export type TimingVerdict = 'early' | 'on-time' | 'late';
+
+export interface TimeSignature {
+  beats: number; // e.g. 3 in 3/4
+  beatType: number; // e.g. 4 in 3/4
+}
+
+export interface TimingResult {
+  noteIndex: number;
+  measureNumber: number;
+  expectedMs: number; // Expected onset, relative to the start of the play-along
+  actualMs: number; // Detected onset, relative to the start of the play-along
+  deviationMs: number; // Negative when early, positive when late
+  verdict: TimingVerdict;
+}
+
+export interface MeasureTimingSummary {
+  measureNumber: number;
+  early: number;
+  onTime: number;
+  late: number;
+  averageDeviationMs: number;
+}
+
+export const DEFAULT_TEMPO_BPM = 100;
+
+// Smallest window counted as on time, for fast tempos where a fraction of a beat gets too tight
+const MIN_TOLERANCE_MS = 80;
+// Share of a quarter note an onset may be off and still count as on time
+const TOLERANCE_BEAT_FRACTION = 0.15;
+
+export function quarterNotesToMs(quarters: number, bpm: number): number {
+  return quarters * 60000 / bpm;
+}
+
+// Length of one beat of the time signature, in quarter notes (a dotted 6/8 beat counts eighths)
+export function beatLengthInQuarters(timeSignature: TimeSignature): number {
+  return 4 / timeSignature.beatType;
+}
+
+export function timingToleranceMs(bpm: number): number {
+  return Math.max(MIN_TOLERANCE_MS, quarterNotesToMs(TOLERANCE_BEAT_FRACTION, bpm));
+}
+
+export function classifyTiming(deviationMs: number, toleranceMs: number): TimingVerdict {
+  if (deviationMs < -toleranceMs) return 'early';
+  if (deviationMs > toleranceMs) return 'late';
+  return 'on-time';
+}
+
+export function summarizeByMeasure(results: TimingResult[]): MeasureTimingSummary[] {
+  const byMeasure = new Map<number, TimingResult[]>();
+  for (const result of results) {
+    const list = byMeasure.get(result.measureNumber) ?? [];
+    list.push(result);
+    byMeasure.set(result.measureNumber, list);
+  }
+
+  return [...byMeasure.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([measureNumber, list]) => ({
+      measureNumber,
+      early: list.filter(r => r.verdict === 'early').length,
+      onTime: list.filter(r => r.verdict === 'on-time').length,
+      late: list.filter(r => r.verdict === 'late').length,
+      averageDeviationMs: list.reduce((sum, r) => sum + r.deviationMs, 0) / list.length
+    }));
+}
@@ -0,0 +1,54 @@
+// Matching detected notes against the steps of a score.
+
+import { samePitch } from './tuning';
+
+export interface ScoreStep {
+  pitches: string[]; // More than one for a chord or double stop
+  measureNumber: number;
+  measureBeat: number;
+}
+
+/**
+ * Whether a detected note plays a score step. The pitch detector hears one pitch at a time,
+ * so for a chord or double stop either (any) of its pitches counts. Notes are compared by
+ * pitch, as detected notes are named with sharps while the score may use flats.
+ */
+export function matchesStep(step: ScoreStep, detectedNote: string): boolean {
+  return step.pitches.some(pitch => samePitch(pitch, detectedNote));
+}
+
+export interface FollowedStep {
+  stepIndex: number;
+  time: number | null; // Time of the matching note, null if the recording never got there
+  wrongNotes: number; // Other notes played while this step was expected
+}
+
+export interface FollowResult {
+  steps: FollowedStep[];
+  matched: number;
+  wrongNotes: number;
+}
+
+/**
+ * Follow a recording through the score from the first step, the way practice mode does live:
+ * a matching note moves on to the next step, anything else counts as a wrong note.
+ */
+export function followScore(steps: ScoreStep[], onsets: { time: number; note: string }[]): FollowResult {
+  const followed: FollowedStep[] = steps.map((_, stepIndex) => ({ stepIndex, time: null, wrongNotes: 0 }));
+  let current = 0;
+  let wrongNotes = 0;
+
+  for (const onset of onsets) {
+    const step = steps[current];
+    const result = followed[current];
+    if (!step || !result) break;
+    if (matchesStep(step, onset.note)) {
+      result.time = onset.time;
+      current++;
+    } else {
+      result.wrongNotes++;
+      wrongNotes++;
+    }
+  }
+  return { steps: followed, matched: current, wrongNotes };
+}
@@ -0,0 +1,115 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { ScoreImportError, decodeScore, isScoreFilename } from './score-import';
+
+const SCORE = '<?xml version="1.0"?><score-partwise version="4.0"><part-list/></score-partwise>';
+const CONTAINER = `<?xml version="1.0"?>
+<container><rootfiles><rootfile full-path="score/piece.musicxml" media-type="application/vnd.recordare.musicxml+xml"/></rootfiles></container>`;
+
+/** A zip archive of the given files; deflated unless `stored`. */
+function zip(files: { [path: string]: string }, stored = false): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = encoder.encode(path);
+    const raw = encoder.encode(content);
+    const data = stored ? raw : new Uint8Array(deflateRawSync(raw));
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, stored ? 0 : 8, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, stored ? 0 : 8, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((total, central) => total + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive.buffer;
+}
+
+async function importError(data: ArrayBuffer): Promise<unknown> {
+  return decodeScore(data).then(() => null, error => error);
+}
+
+describe('decodeScore', () => {
+  it('reads plain MusicXML', async () => {
+    expect(await decodeScore(new TextEncoder().encode(SCORE).buffer)).toBe(SCORE);
+  });
+
+  it('unpacks the root file of a compressed .mxl archive', async () => {
+    const archive = zip({
+      'mimetype': 'application/vnd.recordare.musicxml',
+      'META-INF/container.xml': CONTAINER,
+      'score/other.xml': '<score-partwise version="1.0"/>',
+      'score/piece.musicxml': SCORE
+    });
+    expect(await decodeScore(archive)).toBe(SCORE);
+  });
+
+  it('unpacks stored entries', async () => {
+    expect(await decodeScore(zip({ 'META-INF/container.xml': CONTAINER, 'score/piece.musicxml': SCORE }, true))).toBe(SCORE);
+  });
+
+  it.each([
+    [{ 'score/piece.musicxml': SCORE }, 'has no META-INF/container.xml'],
+    [{ 'META-INF/container.xml': '<container/>' }, 'does not name its root score file'],
+    [{ 'META-INF/container.xml': CONTAINER }, 'is missing its root score file "score/piece.musicxml"'],
+    [{ 'META-INF/container.xml': CONTAINER, 'score/piece.musicxml': '<html/>' }, 'not a MusicXML score (its root element is <html>)']
+  ])('explains what is wrong with an archive', async (files, message) => {
+    const error = await importError(zip(files));
+    expect(error).toBeInstanceOf(ScoreImportError);
+    expect((error as Error).message).toContain(message);
+  });
+
+  it('rejects a truncated archive', async () => {
+    const archive = zip({ 'META-INF/container.xml': CONTAINER });
+    const error = await importError(archive.slice(0, 40));
+    expect((error as Error).message).toBe('The .mxl archive is damaged.');
+  });
+
+  it('rejects text that is not XML', async () => {
+    const error = await importError(new TextEncoder().encode('X:1\nT:Abc tune').buffer);
+    expect((error as Error).message).toBe('The file is not valid XML.');
+  });
+});
+
+describe('isScoreFilename', () => {
+  it('accepts the MusicXML extensions in any case', () => {
+    expect(['a.xml', 'b.MusicXML', 'c.MXL'].map(isScoreFilename)).toEqual([true, true, true]);
+    expect(isScoreFilename('d.mid')).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+// Reading MusicXML from files and URLs, including compressed .mxl archives.
+
+import { parseXml, findElement } from './xml';
+import { t } from './locale';
+
+export const SCORE_FILE_EXTENSIONS = ['.xml', '.musicxml', '.mxl'];
+
+/** An import failure with a message that can be shown to the user as is. */
+export class ScoreImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoreImportError';
+  }
+}
+
+export interface ImportedScore {
+  xml: string;
+  filename: string;
+}
+
+export function isScoreFilename(name: string): boolean {
+  const lower = name.toLowerCase();
+  return SCORE_FILE_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+export async function readScoreFile(file: File): Promise<ImportedScore> {
+  if (!isScoreFilename(file.name)) {
+    throw new ScoreImportError(t('import.notMusicXml', { file: file.name }));
+  }
+  return { xml: await decodeScore(await file.arrayBuffer()), filename: file.name };
+}
+
+export async function fetchScore(url: string): Promise<ImportedScore> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, window.location.href);
+  } catch {
+    throw new ScoreImportError(t('import.badUrl'));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(parsed);
+  } catch {
+    throw new ScoreImportError(t('import.unreachable', { host: parsed.host }));
+  }
+  if (!response.ok) {
+    throw new ScoreImportError(t('import.downloadFailed', { status: `${response.status} ${response.statusText}`.trim() }));
+  }
+
+  const filename = decodeURIComponent(parsed.pathname.split('/').pop() || parsed.host);
+  return { xml: await decodeScore(await response.arrayBuffer()), filename };
+}
+
+// Archives are recognized by content rather than extension, so misnamed files still work
+export async function decodeScore(data: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(data);
+  const xml = isZip(bytes) ? await extractMxl(bytes) : new TextDecoder().decode(bytes);
+  checkMusicXml(xml);
+  return xml;
+}
+
+function checkMusicXml(xml: string): void {
+  let root: string;
+  try {
+    root = parseXml(xml).name;
+  } catch {
+    throw new ScoreImportError(t('import.notXml'));
+  }
+  if (root !== 'score-partwise' && root !== 'score-timewise') {
+    throw new ScoreImportError(t('import.notScore', { root }));
+  }
+}
+
+/**
+ * Unpack a compressed MusicXML (.mxl) archive. The score is the first root file listed in
+ * META-INF/container.xml; other files in the archive (images, other versions) are ignored.
+ */
+export async function extractMxl(bytes: Uint8Array): Promise<string> {
+  const entries = readZipDirectory(bytes);
+
+  const container = entries.get('META-INF/container.xml');
+  if (!container) {
+    throw new ScoreImportError(t('import.noContainer'));
+  }
+  let rootPath: string | undefined;
+  try {
+    rootPath = findElement(parseXml(await inflateEntry(bytes, container)), 'rootfile')?.attributes['full-path'];
+  } catch {
+    throw new ScoreImportError(t('import.badContainer'));
+  }
+  if (!rootPath) {
+    throw new ScoreImportError(t('import.noRootName'));
+  }
+
+  const root = entries.get(rootPath);
+  if (!root) {
+    throw new ScoreImportError(t('import.noRoot', { path: rootPath }));
+  }
+  return inflateEntry(bytes, root);
+}
+
+interface ZipEntry {
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) === ZIP_LOCAL_HEADER;
+}
+
+// Entries by path, read from the central directory at the end of the archive
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record is at least 22 bytes and may be followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ScoreImportError(t('import.damaged'));
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) {
+      throw new ScoreImportError(t('import.damaged'));
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function inflateEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== ZIP_LOCAL_HEADER) {
+    throw new ScoreImportError(t('import.damaged'));
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new ScoreImportError(t('import.compression'));
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
@@ -0,0 +1,210 @@
+import { LitElement, html } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import {
+  LibraryScore,
+  LibrarySort,
+  LIBRARY_SORTS,
+  MAX_DIFFICULTY,
+  parseTags,
+  searchScores
+} from './score-library';
+import { LocaleController, locale, t } from './locale';
+
+/**
+ * Browse the score library. The panel only displays scores; opening, editing and deleting are
+ * requested with 'score-open', 'score-update' and 'score-delete' events carrying the score id.
+ */
+export class ScoreLibraryPanel extends LitElement {
+  @property({ attribute: false })
+  scores: LibraryScore[] = [];
+
+  // Id of the score currently loaded
+  @property({ attribute: false })
+  currentId = '';
+
+  @state()
+  private query = '';
+
+  @state()
+  private sort: LibrarySort = 'title';
+
+  // Score whose title is being edited
+  @state()
+  private renamingId = '';
+
+  // Score whose deletion is waiting to be confirmed
+  @state()
+  private deleting: LibraryScore | null = null;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  private emit(name: string, detail: object) {
+    this.dispatchEvent(new CustomEvent(name, {
+      detail,
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private finishRename(score: LibraryScore, input: HTMLInputElement) {
+    // Enter removes the input, which blurs it a second time
+    if (this.renamingId !== score.id) return;
+    this.renamingId = '';
+    const title = input.value.trim();
+    if (title && title !== score.title) {
+      this.emit('score-update', { id: score.id, changes: { title } });
+    }
+  }
+
+  private deleteScore(score: LibraryScore) {
+    this.deleting = null;
+    this.emit('score-delete', { id: score.id });
+  }
+
+  private renderDeleteDialog() {
+    const score = this.deleting;
+    return html`
+      <div class="modal ${score ? 'modal-open' : ''}" role="dialog" aria-modal="true">
+        <div class="modal-box">
+          <h3 class="font-bold text-lg">${t('library.delete')}</h3>
+          <p class="py-4">${t('library.deleteConfirm', { title: score?.title ?? '' })}</p>
+          <div class="modal-action">
+            <button class="btn" @click=${() => this.deleting = null}>${t('dialog.cancel')}</button>
+            <button class="btn btn-error" @click=${() => score && this.deleteScore(score)}>${t('dialog.delete')}</button>
+          </div>
+        </div>
+        <div class="modal-backdrop" @click=${() => this.deleting = null}></div>
+      </div>
+    `;
+  }
+
+  private renderTitle(score: LibraryScore) {
+    if (this.renamingId === score.id) {
+      return html`
+        <input
+          type="text"
+          class="input input-bordered input-xs w-full"
+          .value=${score.title}
+          @keydown=${(e: KeyboardEvent) => {
+            if (e.key === 'Enter') this.finishRename(score, e.target as HTMLInputElement);
+            if (e.key === 'Escape') this.renamingId = '';
+          }}
+          @blur=${(e: FocusEvent) => this.finishRename(score, e.target as HTMLInputElement)} />
+      `;
+    }
+    return html`
+      <button class="link link-hover font-semibold text-left" @click=${() => this.emit('score-open', { id: score.id })}>
+        ${score.title}
+      </button>
+      ${score.builtIn ? html`<span class="badge badge-ghost badge-xs ml-1">${t('library.builtIn')}</span>` : ''}
+      ${score.composer ? html`<div class="text-xs text-base-content/60">${score.composer}</div>` : ''}
+    `;
+  }
+
+  private renderDifficulty(score: LibraryScore) {
+    return html`
+      <div class="rating rating-xs" title=${t('library.sort.difficulty')}>
+        ${Array.from({ length: MAX_DIFFICULTY }, (_, i) => html`
+          <input
+            type="radio"
+            name="difficulty-${score.id}"
+            class="mask mask-star-2 bg-warning"
+            aria-label=${t('library.difficultyLevel', { level: i + 1 })}
+            .checked=${score.difficulty === i + 1}
+            @click=${() => this.emit('score-update', {
+              id: score.id,
+              // Clicking the current rating clears it
+              changes: { difficulty: score.difficulty === i + 1 ? 0 : i + 1 }
+            })} />
+        `)}
+      </div>
+    `;
+  }
+
+  render() {
+    const scores = searchScores(this.scores, this.query, this.sort);
+
+    return html`
+      <div class="bg-base-200 rounded-lg p-4 mb-4">
+        <div class="flex flex-wrap gap-2 mb-3">
+          <input
+            type="search"
+            class="input input-bordered input-sm flex-1 min-w-48"
+            placeholder=${t('library.search')}
+            .value=${this.query}
+            @input=${(e: Event) => this.query = (e.target as HTMLInputElement).value} />
+          <select
+            class="select select-bordered select-sm"
+            @change=${(e: Event) => this.sort = (e.target as HTMLSelectElement).value as LibrarySort}>
+            ${LIBRARY_SORTS.map(sort => html`
+              <option value=${sort} ?selected=${this.sort === sort}>${t(`library.sort.${sort}`)}</option>
+            `)}
+          </select>
+        </div>
+
+        ${scores.length === 0 ? html`
+          <p class="text-sm text-base-content/60 text-center py-4">${t('library.noMatch')}</p>
+        ` : html`
+          <div class="overflow-x-auto max-h-96">
+            <table class="table table-sm">
+              <thead>
+                <tr>
+                  <th>${t('library.sort.title')}</th>
+                  <th>${t('library.sort.difficulty')}</th>
+                  <th>${t('library.tags')}</th>
+                  <th>${t('library.sort.lastPracticed')}</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                ${scores.map(score => html`
+                  <tr class=${score.id === this.currentId ? 'bg-primary/10' : ''}>
+                    <td class="min-w-48">${this.renderTitle(score)}</td>
+                    <td>${this.renderDifficulty(score)}</td>
+                    <td>
+                      <input
+                        type="text"
+                        class="input input-ghost input-xs w-36"
+                        placeholder=${t('library.addTags')}
+                        .value=${score.tags.join(', ')}
+                        @change=${(e: Event) => this.emit('score-update', {
+                          id: score.id,
+                          changes: { tags: parseTags((e.target as HTMLInputElement).value) }
+                        })} />
+                    </td>
+                    <td class="text-xs whitespace-nowrap">
+                      ${score.lastPracticedAt
+                        ? new Date(score.lastPracticedAt).toLocaleDateString(locale.settings.language)
+                        : t('library.never')}
+                    </td>
+                    <td class="whitespace-nowrap">
+                      ${score.builtIn ? '' : html`
+                        <button class="btn btn-ghost btn-xs" title=${t('library.rename')} @click=${() => this.renamingId = score.id}>
+                          <span class="icon-[mdi--pencil]"></span>
+                        </button>
+                        <button class="btn btn-ghost btn-xs text-error" title=${t('dialog.delete')} @click=${() => this.deleting = score}>
+                          <span class="icon-[mdi--delete]"></span>
+                        </button>
+                      `}
+                    </td>
+                  </tr>
+                `)}
+              </tbody>
+            </table>
+          </div>
+        `}
+        ${this.renderDeleteDialog()}
+      </div>
+    `;
+  }
+}
+
+customElements.define('score-library-panel', ScoreLibraryPanel);
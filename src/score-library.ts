@@ -0,0 +1,115 @@
+// Local score library kept in IndexedDB: imported MusicXML with its metadata, plus the
+// built-in sample scores as read-only entries.
+
+import { SCORES_STORE, objectStore, request } from './database';
+
+export interface LibraryScore {
+  id: string; // Built-in: its path; imported: hash of its content (same id bookmarks use)
+  title: string;
+  composer: string;
+  builtIn: boolean; // Built-in scores can't be renamed or deleted
+  path?: string; // Built-in scores are fetched from here
+  xml?: string; // Imported scores are stored whole
+  difficulty: number; // 0 = not set, otherwise 1 (easiest) to 5
+  tags: string[];
+  addedAt: number; // ms since epoch
+  lastPracticedAt?: number;
+}
+
+export type LibrarySort = 'title' | 'composer' | 'difficulty' | 'lastPracticed' | 'added';
+
+// Named library.sort.<sort> in the locale catalog
+export const LIBRARY_SORTS: LibrarySort[] = ['title', 'composer', 'difficulty', 'lastPracticed', 'added'];
+
+export const MAX_DIFFICULTY = 5;
+
+const BUILT_IN_SCORES: Pick<LibraryScore, 'title' | 'path'>[] = [
+  { title: 'Twinkle Twinkle Little Star', path: '/scores/twinkle-twinkle.xml' },
+  { title: 'Mary Had a Little Lamb', path: '/scores/mary-lamb.xml' }
+];
+
+export const DEFAULT_SCORE_ID = BUILT_IN_SCORES[0]!.path!;
+
+async function scoreStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return objectStore(SCORES_STORE, mode);
+}
+
+/** All scores, with any built-in score missing from the database added first. */
+export async function listScores(): Promise<LibraryScore[]> {
+  const scores = await request((await scoreStore('readonly')).getAll() as IDBRequest<LibraryScore[]>);
+  const missing = BUILT_IN_SCORES.filter(builtIn => !scores.some(score => score.id === builtIn.path));
+  if (missing.length > 0) {
+    const store = await scoreStore('readwrite');
+    const seeded = missing.map(({ title, path }): LibraryScore => ({
+      id: path!, title, composer: '', builtIn: true, path, difficulty: 0, tags: [], addedAt: 0
+    }));
+    await Promise.all(seeded.map(score => request(store.put(score))));
+    scores.push(...seeded);
+  }
+  return scores;
+}
+
+export async function getScore(id: string): Promise<LibraryScore | undefined> {
+  return request((await scoreStore('readonly')).get(id) as IDBRequest<LibraryScore | undefined>);
+}
+
+/**
+ * Save an imported score. Importing a score that is already in the library keeps its
+ * title, difficulty and tags.
+ */
+export async function addImportedScore(id: string, xml: string, title: string, composer: string): Promise<LibraryScore> {
+  const existing = await getScore(id);
+  const score: LibraryScore = existing ?? {
+    id, title, composer, builtIn: false, xml, difficulty: 0, tags: [], addedAt: Date.now()
+  };
+  await request((await scoreStore('readwrite')).put(score));
+  return score;
+}
+
+/** Update metadata. Built-in scores keep their title. */
+export async function updateScore(
+  id: string,
+  changes: Partial<Pick<LibraryScore, 'title' | 'composer' | 'difficulty' | 'tags' | 'lastPracticedAt'>>
+): Promise<void> {
+  const score = await getScore(id);
+  if (!score) return;
+  const updated = { ...score, ...changes };
+  if (score.builtIn) {
+    updated.title = score.title;
+  }
+  updated.title = updated.title.trim() || score.title;
+  await request((await scoreStore('readwrite')).put(updated));
+}
+
+/** Remove an imported score; returns false for built-in or unknown scores, which stay. */
+export async function deleteScore(id: string): Promise<boolean> {
+  const score = await getScore(id);
+  if (!score || score.builtIn) return false;
+  await request((await scoreStore('readwrite')).delete(id));
+  return true;
+}
+
+/** Tags typed as a comma-separated list. */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/** Scores matching every word of the query in their title, composer or tags, sorted. */
+export function searchScores(scores: LibraryScore[], query: string, sort: LibrarySort): LibraryScore[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = scores.filter(score => {
+    const text = [score.title, score.composer, ...score.tags].join(' ').toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+
+  const byTitle = (a: LibraryScore, b: LibraryScore) => a.title.localeCompare(b.title);
+  const compare: Record<LibrarySort, (a: LibraryScore, b: LibraryScore) => number> = {
+    title: byTitle,
+    composer: (a, b) => a.composer.localeCompare(b.composer) || byTitle(a, b),
+    // Scores without a difficulty go last
+    difficulty: (a, b) => (a.difficulty || Infinity) - (b.difficulty || Infinity) || byTitle(a, b),
+    lastPracticed: (a, b) => (b.lastPracticedAt ?? 0) - (a.lastPracticedAt ?? 0) || byTitle(a, b),
+    added: (a, b) => b.addedAt - a.addedAt || byTitle(a, b)
+  };
+  return matches.sort(compare[sort]);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ScoreEvent, buildPracticeSteps, defaultPartIndex, spellPitch } from './score-notes';
+
+describe('spellPitch', () => {
+  it('keeps the written spelling', () => {
+    expect(spellPitch('B', -1, 4)).toBe('Bb4');
+    expect(spellPitch('E', 1, 4)).toBe('E#4');
+    expect(spellPitch('F', 2, 4)).toBe('F##4');
+    expect(spellPitch('C', -2, 5)).toBe('Cbb5');
+  });
+
+  it('rounds microtones and respells what has no name', () => {
+    expect(spellPitch('A', 0.5, 4)).toBe('A#4');
+    expect(spellPitch('C', 3, 4)).toBe('D#4');
+    expect(spellPitch('H', 0, 4)).toBe('');
+  });
+});
+
+describe('defaultPartIndex', () => {
+  it('picks the violin part, not the cello', () => {
+    expect(defaultPartIndex(['Piano', 'Violoncello', 'Violin I'])).toBe(2);
+    expect(defaultPartIndex(['Flûte', 'Violon'])).toBe(1);
+    expect(defaultPartIndex(['Piano', 'Cello'])).toBe(0);
+  });
+});
+
+type Note = { pitch: string; length?: number; tie?: object; tieContinues?: boolean };
+
+function event(startBeat: number, notes: Note[]): ScoreEvent<string> {
+  return {
+    measureIndex: Math.floor(startBeat / 4),
+    measureNumber: Math.floor(startBeat / 4) + 1,
+    measureBeat: 1 + startBeat % 4,
+    startBeat,
+    notes: notes.map(note => ({
+      pitch: note.pitch,
+      length: note.length ?? 1,
+      tie: note.tie ?? null,
+      tieContinues: note.tieContinues ?? false,
+      source: note.pitch
+    }))
+  };
+}
+
+describe('buildPracticeSteps', () => {
+  it('makes one step of notes starting together, lowest first', () => {
+    const steps = buildPracticeSteps([event(0, [{ pitch: 'A4' }, { pitch: 'D4' }]), event(1, [{ pitch: 'E4' }])]);
+    expect(steps.map(step => step.pitches)).toEqual([['D4', 'A4'], ['E4']]);
+    expect(steps[0]?.sources).toEqual(['A4', 'D4']);
+  });
+
+  it('lengthens the step a tie starts from instead of adding one', () => {
+    const tie = {};
+    const steps = buildPracticeSteps([
+      event(0, [{ pitch: 'G4', length: 2, tie }]),
+      event(2, [{ pitch: 'G4', length: 1, tie, tieContinues: true }]),
+      event(3, [{ pitch: 'A4' }])
+    ]);
+    expect(steps.map(step => [step.pitches, step.duration, step.eventIndex])).toEqual([[['G4'], 3, 0], [['A4'], 1, 2]]);
+  });
+
+  it('plays a tied note whose start wasn\'t played on this pass, e.g. after a volta', () => {
+    const tie = {};
+    const steps = buildPracticeSteps([event(0, [{ pitch: 'G4', tie, tieContinues: true }])]);
+    expect(steps.map(step => step.pitches)).toEqual([['G4']]);
+  });
+
+  it('skips events without a playable note', () => {
+    const steps = buildPracticeSteps([event(0, [{ pitch: '' }]), event(1, [{ pitch: 'B3' }])]);
+    expect(steps.map(step => [step.pitches, step.eventIndex, step.measureBeat])).toEqual([[['B3'], 1, 2]]);
+  });
+});
@@ -0,0 +1,232 @@
+// Turning the notes of a score into the practice sequence. Shared by the sheet display, which
+// reads scores through OSMD, and the command-line analyzer, which reads MusicXML directly.
+
+import { noteToMidi, midiToNote } from './tuning';
+
+// Part names that pick the violin part of an ensemble score
+export const VIOLIN_PART = /violin|vln|geige|violon(?!c)/i;
+
+/** The part practiced by default: the violin part, or the first part if there is none. */
+export function defaultPartIndex(partNames: string[]): number {
+  return Math.max(0, partNames.findIndex(name => VIOLIN_PART.test(name)));
+}
+
+/**
+ * Name of a pitch as written, e.g. "Bb4" or "E#4", or '' if the step is not a note letter.
+ * Microtonal alterations are rounded, and anything beyond a double sharp or flat is respelled.
+ */
+export function spellPitch(step: string, alter: number, octave: number): string {
+  const natural = /^[A-G]$/.test(step) ? noteToMidi(step + octave) : null;
+  if (natural === null) return '';
+  const semitones = Math.round(alter);
+  if (Math.abs(semitones) > 2) return midiToNote(natural + semitones);
+  return step + (semitones > 0 ? '#'.repeat(semitones) : 'b'.repeat(-semitones)) + octave;
+}
+
+export interface ScorePosition {
+  measureIndex: number; // Index of the measure as written, counting from 0
+  measureNumber: number; // Measure number as written in the score
+  measureBeat: number; // 1-based beat within the measure, in beats of the time signature
+  startBeat: number; // Onset from the start of the performance (repeats unrolled), in quarter notes
+}
+
+export interface ScoreEventNote<Source> {
+  pitch: string; // '' for notes that can't be named
+  length: number; // Written length in quarter notes
+  tie: object | null; // Identifies the tie the note belongs to
+  tieContinues: boolean; // Whether the note continues a tie rather than starting it
+  source: Source;
+}
+
+/** The notes of the practiced part starting at one moment of the performance. */
+export interface ScoreEvent<Source> extends ScorePosition {
+  notes: ScoreEventNote<Source>[];
+}
+
+/** Repeat and jump marks of a measure, as far as they decide the order measures are played in. */
+export interface RepeatMarks {
+  repeatStart: boolean;
+  repeatTimes: number; // Times the section ending here is played, 0 without a backward repeat
+  endings: number[]; // Volta numbers the measure belongs to, empty outside a volta
+  segno: boolean;
+  coda: boolean;
+  daCapo: boolean;
+  dalSegno: boolean;
+  fine: boolean;
+  toCoda: boolean;
+}
+
+// Whether no later volta of the same group has a higher number, i.e. this is the final ending
+function isLastEnding(measures: RepeatMarks[], index: number): boolean {
+  const highest = Math.max(...(measures[index]?.endings ?? []));
+  for (let i = index + 1; measures[i]?.endings.length; i++) {
+    if (Math.max(...(measures[i]?.endings ?? [])) > highest) return false;
+  }
+  return true;
+}
+
+/**
+ * Indices of the measures in the order they are played. Repeats are played as often as written;
+ * after a D.C. or D.S. they are not repeated again and only the last volta is played.
+ */
+export function performanceOrder(measures: RepeatMarks[]): number[] {
+  const order: number[] = [];
+  const repeatsTaken = new Map<number, number>(); // Back jumps made from each repeat end
+  let sectionStart = 0;
+  let pass = 1;
+  let completedAt: number | null = null; // Last repeat end whose repeats are all played
+  let jumped = false; // Whether a D.C. or D.S. has been followed
+  let i = 0;
+
+  // Malformed jumps could otherwise loop forever
+  while (i < measures.length && order.length < measures.length * 16) {
+    const measure = measures[i];
+    if (!measure) break;
+
+    if (measure.repeatStart && i !== sectionStart) {
+      sectionStart = i;
+      pass = 1;
+    }
+    if (completedAt !== null && i > completedAt && measure.endings.length === 0) {
+      completedAt = null;
+      pass = 1;
+    }
+    const skip = measure.endings.length > 0 &&
+      (jumped ? !isLastEnding(measures, i) : !measure.endings.includes(pass));
+    if (skip) {
+      i++;
+      continue;
+    }
+
+    order.push(i);
+    if (jumped && measure.fine) break;
+    if (jumped && measure.toCoda) {
+      const coda = measures.findIndex((candidate, j) => j > i && candidate.coda);
+      if (coda >= 0) {
+        i = coda;
+        continue;
+      }
+    }
+    if (measure.repeatTimes > 0 && !jumped) {
+      const taken = repeatsTaken.get(i) ?? 0;
+      if (taken + 1 < measure.repeatTimes) {
+        repeatsTaken.set(i, taken + 1);
+        pass = taken + 2;
+        i = sectionStart;
+        continue;
+      }
+      completedAt = i;
+      sectionStart = i + 1;
+    }
+    if (!jumped && (measure.daCapo || measure.dalSegno)) {
+      jumped = true;
+      completedAt = null;
+      pass = 1;
+      i = sectionStart = measure.daCapo ? 0 : Math.max(0, measures.findIndex(candidate => candidate.segno));
+      continue;
+    }
+    i++;
+  }
+  return order;
+}
+
+/** An event of the performance, and where it is in the score as written. */
+export interface PlayedEvent<Source> extends ScoreEvent<Source> {
+  writtenIndex: number; // Index of the event among the events of the score as written
+}
+
+/**
+ * The events of a score as written, rearranged in the order they are played: the events of each
+ * measure in `order`, with start beats counted through the performance. `lengths` are the
+ * written measure lengths in quarter notes. Every pass gets ties of its own, so a tie is only
+ * held from a note played on the same pass.
+ */
+export function unrollEvents<Source>(written: ScoreEvent<Source>[], order: number[], lengths: number[]): PlayedEvent<Source>[] {
+  const starts: number[] = [];
+  lengths.reduce((start, length, i) => (starts[i] = start) + length, 0);
+
+  const byMeasure = new Map<number, number[]>();
+  written.forEach((event, writtenIndex) => {
+    const events = byMeasure.get(event.measureIndex) ?? [];
+    events.push(writtenIndex);
+    byMeasure.set(event.measureIndex, events);
+  });
+
+  const played: PlayedEvent<Source>[] = [];
+  // Tie of the current pass for each written tie
+  const ties = new Map<object, object>();
+  let measureStart = 0;
+  for (const measureIndex of order) {
+    for (const writtenIndex of byMeasure.get(measureIndex) ?? []) {
+      const event = written[writtenIndex]!;
+      played.push({
+        ...event,
+        writtenIndex,
+        startBeat: measureStart + event.startBeat - (starts[measureIndex] ?? 0),
+        notes: event.notes.map(note => {
+          if (!note.tie) return note;
+          const tie = (note.tieContinues && ties.get(note.tie)) || {};
+          ties.set(note.tie, tie);
+          return { ...note, tie };
+        })
+      });
+    }
+    measureStart += lengths[measureIndex] ?? 0;
+  }
+  return played;
+}
+
+export interface PracticeStep<Source> extends ScorePosition {
+  pitches: string[]; // e.g. ["C4"], or ["D4", "A4"] for a double stop, lowest first
+  sources: Source[]; // Notes this step was built from; repeated passes share them
+  eventIndex: number; // Index of the event the step starts at
+  duration: number; // Written length including tied notes, in quarter notes
+}
+
+/**
+ * Build the practice sequence from the events of a performance, in the order they are played.
+ * Notes starting together (chords, double stops) make one step. A tied note is only held, so
+ * it lengthens the step its tie starts from instead of becoming a step of its own.
+ */
+export function buildPracticeSteps<Source>(events: Iterable<ScoreEvent<Source>>): PracticeStep<Source>[] {
+  const steps: PracticeStep<Source>[] = [];
+  // Step each tie started from on the current pass
+  const tieStarts = new Map<object, PracticeStep<Source>>();
+  let eventIndex = 0;
+
+  for (const event of events) {
+    const step: PracticeStep<Source> = {
+      pitches: [],
+      sources: [],
+      eventIndex,
+      measureIndex: event.measureIndex,
+      measureNumber: event.measureNumber,
+      measureBeat: event.measureBeat,
+      startBeat: event.startBeat,
+      duration: 0
+    };
+    for (const note of event.notes) {
+      const held = note.tie && note.tieContinues ? tieStarts.get(note.tie) : undefined;
+      if (held) {
+        held.duration = Math.max(held.duration, event.startBeat + note.length - held.startBeat);
+        continue;
+      }
+
+      if (note.pitch.length < 2) continue; // Valid pitch like "C4"
+      if (!step.pitches.includes(note.pitch)) {
+        step.pitches.push(note.pitch);
+      }
+      step.sources.push(note.source);
+      step.duration = Math.max(step.duration, note.length);
+      if (note.tie) {
+        tieStarts.set(note.tie, step);
+      }
+    }
+    if (step.pitches.length > 0) {
+      step.pitches.sort((a, b) => (noteToMidi(a) ?? 0) - (noteToMidi(b) ?? 0));
+      steps.push(step);
+    }
+    eventIndex++;
+  }
+  return steps;
+}
@@ -0,0 +1,33 @@
+// A–B section looping: repeat a range of measures, optionally speeding up after clean passes.
+
+export interface LoopSettings {
+  startMeasure: number; // Measure numbers as written in the score, inclusive
+  endMeasure: number;
+  repeats: number; // Passes to play before the loop ends
+  startTempoPercent: number; // Tempo of the first pass, as a share of the written tempo
+  rampPercent: number; // Tempo increase after each clean pass, 0 to keep the tempo
+}
+
+export interface LoopPass {
+  pass: number; // 1-based
+  tempoBpm: number;
+  mistakes: number; // Wrong notes played during the pass
+  clean: boolean;
+  durationMs: number;
+}
+
+export const DEFAULT_LOOP: Omit<LoopSettings, 'startMeasure' | 'endMeasure'> = {
+  repeats: 5,
+  startTempoPercent: 100,
+  rampPercent: 0
+};
+
+/** Tempo for the next pass: raised after a clean pass, but never beyond the written tempo. */
+export function nextLoopTempo(current: number, pass: LoopPass, settings: LoopSettings, writtenTempo: number): number {
+  if (!pass.clean || settings.rampPercent <= 0) return current;
+  return Math.min(writtenTempo, Math.round(current * (1 + settings.rampPercent / 100)));
+}
+
+export function cleanPassCount(passes: LoopPass[]): number {
+  return passes.filter(pass => pass.clean).length;
+}
@@ -0,0 +1,125 @@
+import { LitElement, html } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import './tuner-gauge';
+import { TuningSettings, DEFAULT_TUNING } from './tuning';
+import { LocaleController, t, formatNote } from './locale';
+import {
+  OPEN_STRINGS,
+  StringReading,
+  StringTuningProgress,
+  detectOpenString,
+  tuningAdvice
+} from './open-strings';
+
+export class StringTuner extends LitElement {
+  @property({ attribute: false })
+  tuning: TuningSettings = DEFAULT_TUNING;
+
+  @state()
+  private reading: StringReading | null = null;
+
+  @state()
+  private now = 0;
+
+  private progress = new StringTuningProgress();
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  /** Feed one detected pitch, or null while nothing clear is sounding. */
+  processPitch(frequency: number | null, time: number) {
+    this.reading = frequency ? detectOpenString(frequency, this.tuning) : null;
+    this.now = time;
+
+    if (this.progress.update(this.reading, time)) {
+      this.dispatchEvent(new CustomEvent('string-tuned', {
+        detail: { string: this.reading?.string },
+        bubbles: true,
+        composed: true
+      }));
+    }
+  }
+
+  reset() {
+    this.progress.reset();
+    this.reading = null;
+  }
+
+  private renderAdvice() {
+    if (!this.reading) {
+      return html`<p class="text-lg text-base-content/70">${t('strings.prompt')}</p>`;
+    }
+
+    const label = formatNote(this.reading.string, false);
+    const advice = tuningAdvice(this.reading.cents);
+    if (advice.inTune) {
+      return html`<p class="text-lg text-success font-bold">${t('strings.inTune', { string: label })}</p>`;
+    }
+
+    const tool = advice.tool === 'peg' ? t('strings.peg') : t('strings.fineTuner');
+    const direction = advice.direction === 'tighten' ? t('strings.tighten') : t('strings.loosen');
+    return html`
+      <p class="text-lg font-bold">${t('strings.advice', { string: label, direction })}</p>
+      <p class="text-base-content/70">${tool}</p>
+    `;
+  }
+
+  render() {
+    const allDone = OPEN_STRINGS.every(string => this.progress.isDone(string));
+
+    return html`
+      <div class="bg-base-200 rounded-2xl p-6">
+        <div class="flex justify-between items-center mb-4">
+          <h2 class="text-2xl font-bold text-base-content/80">${t('strings.title')}</h2>
+          <button class="btn btn-sm btn-ghost" @click=${this.reset}>
+            <span class="icon-[mdi--restore]"></span>
+            ${t('strings.startOver')}
+          </button>
+        </div>
+
+        <div class="grid grid-cols-4 gap-3 mb-6">
+          ${OPEN_STRINGS.map(string => {
+            const done = this.progress.isDone(string);
+            const active = this.reading?.string === string;
+            return html`
+              <div class="rounded-xl p-3 text-center border-2 ${
+                active ? 'border-primary bg-primary/10' : 'border-base-300 bg-base-100'
+              }">
+                <div class="text-3xl font-bold ${done ? 'text-success' : ''}">
+                  ${formatNote(string, false)}
+                  ${done ? html`<span class="icon-[mdi--check-circle] text-2xl"></span>` : ''}
+                </div>
+                <div class="text-xs text-base-content/60">${formatNote(string)}</div>
+                <progress
+                  class="progress ${done ? 'progress-success' : 'progress-primary'} w-full mt-2"
+                  value=${Math.round(this.progress.holdProgress(string, this.now) * 100)}
+                  max="100">
+                </progress>
+              </div>
+            `;
+          })}
+        </div>
+
+        <tuner-gauge .cents=${this.reading?.cents ?? 0} ?active=${this.reading !== null}></tuner-gauge>
+
+        <div class="text-center mt-4">
+          ${allDone ? html`
+            <p class="text-xl text-success font-bold">
+              <span class="icon-[mdi--party-popper]"></span>
+              ${t('strings.allDone')}
+            </p>
+          ` : this.renderAdvice()}
+        </div>
+      </div>
+    `;
+  }
+}
+
+customElements.define('string-tuner', StringTuner);
@@ -0,0 +1,167 @@
+// Web Audio synthesis: reference tones, a sustained drone and score playback.
+// One output AudioContext is shared by the whole app and created on the first sound,
+// so it always starts from a user gesture.
+
+export interface ScheduledNote {
+  frequencies: number[]; // More than one for a chord or double stop
+  start: number; // Seconds from the start of playback
+  duration: number; // Seconds
+}
+
+// Gap left at the end of each played note so repeated pitches are heard separately
+const NOTE_GAP_SECONDS = 0.04;
+// Delay before the first scheduled note so the first one isn't clipped
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+
+export class Synthesizer extends EventTarget {
+  private context?: AudioContext;
+  private output?: GainNode;
+  private drone?: { oscillator: OscillatorNode; gain: GainNode; frequency: number };
+  private sequenceVoices: OscillatorNode[] = [];
+  private sequenceTimers: number[] = [];
+  // Tones and sequence notes scheduled or sounding, not counting the drone
+  private activeVoices = 0;
+
+  /** Frequency of the sounding drone, or null when it is off. */
+  get droneFrequency(): number | null {
+    return this.drone?.frequency ?? null;
+  }
+
+  /** Whether a tone or played note is sounding (or about to), so the microphone may hear it. The drone doesn't count. */
+  get sounding(): boolean {
+    return this.activeVoices > 0;
+  }
+
+  /** Shared output context, created and resumed on demand. */
+  async getContext(): Promise<AudioContext> {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.output = this.context.createGain();
+      this.output.gain.value = 0.8;
+      this.output.connect(this.context.destination);
+    }
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+    return this.context;
+  }
+
+  /** Node other sound sources (e.g. the metronome) should connect to. */
+  async getOutput(): Promise<GainNode> {
+    await this.getContext();
+    return this.output!;
+  }
+
+  /** Play a single bowed-string-like tone. */
+  async playTone(frequency: number, duration = 1.5): Promise<void> {
+    const context = await this.getContext();
+    this.scheduleVoice(frequency, context.currentTime + 0.02, duration);
+  }
+
+  /**
+   * Start (or retune) a sustained drone. It is a pure sine so that a single notch filter on the
+   * microphone input removes it without cutting into the harmonics of the violin.
+   */
+  async startDrone(frequency: number): Promise<void> {
+    const context = await this.getContext();
+    if (this.drone) {
+      this.drone.oscillator.frequency.setTargetAtTime(frequency, context.currentTime, 0.05);
+      this.drone.frequency = frequency;
+    } else {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, context.currentTime);
+      gain.gain.linearRampToValueAtTime(0.25, context.currentTime + 0.5);
+      oscillator.connect(gain);
+      gain.connect(this.output!);
+      oscillator.start();
+      this.drone = { oscillator, gain, frequency };
+    }
+    this.dispatchEvent(new Event('drone-change'));
+  }
+
+  stopDrone(): void {
+    if (!this.drone || !this.context) return;
+    const { oscillator, gain } = this.drone;
+    const now = this.context.currentTime;
+    gain.gain.cancelScheduledValues(now);
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, now + 0.3);
+    oscillator.stop(now + 0.35);
+    this.drone = undefined;
+    this.dispatchEvent(new Event('drone-change'));
+  }
+
+  /**
+   * Schedule a sequence of notes on the audio clock.
+   * @param onNote called (on the main thread, close to when it sounds) with the index of each note
+   * @param onEnd called after the last note has finished
+   */
+  async playSequence(notes: ScheduledNote[], onNote: (index: number) => void, onEnd: () => void): Promise<void> {
+    this.stopSequence();
+    const context = await this.getContext();
+    const origin = context.currentTime + SCHEDULE_AHEAD_SECONDS;
+
+    notes.forEach((note, index) => {
+      const duration = Math.max(0.05, note.duration - NOTE_GAP_SECONDS);
+      for (const frequency of note.frequencies) {
+        this.sequenceVoices.push(this.scheduleVoice(frequency, origin + note.start, duration));
+      }
+      this.sequenceTimers.push(window.setTimeout(() => onNote(index), (SCHEDULE_AHEAD_SECONDS + note.start) * 1000));
+    });
+
+    const end = notes.reduce((latest, note) => Math.max(latest, note.start + note.duration), 0);
+    this.sequenceTimers.push(window.setTimeout(() => {
+      this.sequenceVoices = [];
+      this.sequenceTimers = [];
+      onEnd();
+    }, (SCHEDULE_AHEAD_SECONDS + end) * 1000));
+  }
+
+  stopSequence(): void {
+    this.sequenceTimers.forEach(timer => clearTimeout(timer));
+    this.sequenceTimers = [];
+    for (const voice of this.sequenceVoices) {
+      try {
+        voice.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+    this.sequenceVoices = [];
+  }
+
+  // Sawtooth through a low-pass filter with a soft bow-like attack and release
+  private scheduleVoice(frequency: number, start: number, duration: number): OscillatorNode {
+    const context = this.context!;
+    const oscillator = context.createOscillator();
+    const filter = context.createBiquadFilter();
+    const gain = context.createGain();
+
+    oscillator.type = 'sawtooth';
+    oscillator.frequency.value = frequency;
+    filter.type = 'lowpass';
+    filter.frequency.value = Math.min(4000, frequency * 6);
+
+    const attack = Math.min(0.08, duration / 3);
+    const release = Math.min(0.1, duration / 3);
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(0.2, start + attack);
+    gain.gain.setValueAtTime(0.2, start + duration - release);
+    gain.gain.linearRampToValueAtTime(0, start + duration);
+
+    oscillator.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.output!);
+    oscillator.start(start);
+    oscillator.stop(start + duration + 0.01);
+    this.activeVoices++;
+    oscillator.addEventListener('ended', () => this.activeVoices--);
+    return oscillator;
+  }
+}
+
+// Shared instance so every component plays through the same output
+export const synthesizer = new Synthesizer();
@@ -0,0 +1,89 @@
+import { LitElement, html, svg } from 'lit';
+import { property } from 'lit/decorators.js';
+import { IN_TUNE_CENTS } from './intonation';
+import { LocaleController, t } from './locale';
+
+// The needle covers -50..+50 cents (a quarter tone either way) over a 120° arc
+const RANGE_CENTS = 50;
+const ARC_DEGREES = 60;
+
+export class TunerGauge extends LitElement {
+  // Signed deviation from the target note, positive is sharp
+  @property({ type: Number })
+  cents = 0;
+
+  // False while no clear pitch is detected; the needle rests in the middle and dims
+  @property({ type: Boolean })
+  active = false;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
+  // Disable shadow DOM for Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  private angleFor(cents: number): number {
+    const clamped = Math.max(-RANGE_CENTS, Math.min(RANGE_CENTS, cents));
+    return clamped / RANGE_CENTS * ARC_DEGREES;
+  }
+
+  // Point on the gauge arc for a given angle, 0° pointing straight up
+  private arcPoint(angle: number, radius: number): [number, number] {
+    const radians = (angle - 90) * Math.PI / 180;
+    return [100 + radius * Math.cos(radians), 110 + radius * Math.sin(radians)];
+  }
+
+  private arcPath(fromAngle: number, toAngle: number, radius: number): string {
+    const [x1, y1] = this.arcPoint(fromAngle, radius);
+    const [x2, y2] = this.arcPoint(toAngle, radius);
+    return `M ${x1} ${y1} A ${radius} ${radius} 0 0 1 ${x2} ${y2}`;
+  }
+
+  private hint(): string {
+    if (!this.active) return t('gauge.idle');
+    if (Math.abs(this.cents) < IN_TUNE_CENTS) return t('gauge.inTune');
+    const amount = Math.abs(this.cents) < 25 ? 'little' : 'lot';
+    return this.cents > 0 ? t(`gauge.sharp.${amount}`) : t(`gauge.flat.${amount}`);
+  }
+
+  render() {
+    const inTune = this.active && Math.abs(this.cents) < IN_TUNE_CENTS;
+    const needleAngle = this.active ? this.angleFor(this.cents) : 0;
+    const bandAngle = this.angleFor(IN_TUNE_CENTS);
+    const ticks = [-50, -40, -30, -20, -10, 0, 10, 20, 30, 40, 50];
+
+    return html`
+      <div class="flex flex-col items-center">
+        <svg viewBox="0 0 200 125" class="w-full max-w-sm">
+          <path d=${this.arcPath(-ARC_DEGREES, ARC_DEGREES, 90)} fill="none" stroke="currentColor"
+            stroke-opacity="0.15" stroke-width="14" />
+          <path d=${this.arcPath(-bandAngle, bandAngle, 90)} fill="none" stroke="#16a34a"
+            stroke-opacity="0.6" stroke-width="14" />
+          ${ticks.map(tick => {
+            const angle = this.angleFor(tick);
+            const [x1, y1] = this.arcPoint(angle, tick % 50 === 0 ? 74 : 78);
+            const [x2, y2] = this.arcPoint(angle, 83);
+            return svg`<line x1=${x1} y1=${y1} x2=${x2} y2=${y2} stroke="currentColor" stroke-opacity="0.5" />`;
+          })}
+          <text x="22" y="122" font-size="10" fill="currentColor" fill-opacity="0.6">${t('gauge.flat')}</text>
+          <text x="150" y="122" font-size="10" fill="currentColor" fill-opacity="0.6">${t('gauge.sharp')}</text>
+          <g style="transform: rotate(${needleAngle}deg); transform-origin: 100px 110px; transition: transform 120ms linear">
+            <line x1="100" y1="110" x2="100" y2="26" stroke-width="3" stroke-linecap="round"
+              stroke=${inTune ? '#16a34a' : this.active ? '#4f46e5' : '#9ca3af'} />
+          </g>
+          <circle cx="100" cy="110" r="6" fill="currentColor" />
+        </svg>
+        <div class="text-3xl font-bold ${inTune ? 'text-success' : 'text-base-content'}">
+          ${this.active ? `${this.cents > 0 ? '+' : ''}${Math.round(this.cents)}¢` : '--'}
+        </div>
+        <div class="text-base-content/70">${this.hint()}</div>
+      </div>
+    `;
+  }
+}
+
+customElements.define('tuner-gauge', TunerGauge);
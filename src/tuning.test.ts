@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TUNING,
+  TuningSettings,
+  centsBetween,
+  frequencyToNote,
+  midiToNote,
+  noteToFrequency,
+  noteToMidi,
+  normalizeTuning,
+  parseNote,
+  samePitch
+} from './tuning';
+
+const tuning = (changes: Partial<TuningSettings>): TuningSettings => ({ ...DEFAULT_TUNING, ...changes });
+
+describe('note names', () => {
+  it('parses accidentals, including double ones', () => {
+    expect(parseNote('C#5')).toEqual({ letter: 'C', alter: 1, octave: 5 });
+    expect(parseNote('Bb4')).toEqual({ letter: 'B', alter: -1, octave: 4 });
+    expect(parseNote('F##4')).toEqual({ letter: 'F', alter: 2, octave: 4 });
+    expect(parseNote('H4')).toBeNull();
+  });
+
+  it('converts between names and MIDI numbers', () => {
+    expect(noteToMidi('A4')).toBe(69);
+    expect(noteToMidi('G3')).toBe(55);
+    expect(noteToMidi('Cb5')).toBe(71);
+    expect(midiToNote(61)).toBe('C#4');
+  });
+
+  it('compares pitches however they are spelled', () => {
+    expect(samePitch('A#4', 'Bb4')).toBe(true);
+    expect(samePitch('E#4', 'F4')).toBe(true);
+    expect(samePitch('A4', 'A5')).toBe(false);
+    expect(samePitch('--', '--')).toBe(false);
+  });
+});
+
+describe('frequencies', () => {
+  it('follows the reference pitch', () => {
+    expect(noteToFrequency('A4')).toBe(440);
+    expect(noteToFrequency('A4', tuning({ referenceA: 442 }))).toBe(442);
+    expect(noteToFrequency('A3')).toBeCloseTo(220);
+  });
+
+  it('names the closest note', () => {
+    expect(frequencyToNote(196)).toBe('G3');
+    expect(frequencyToNote(445)).toBe('A4');
+    expect(frequencyToNote(0)).toBe('--');
+  });
+
+  it('keeps A at the reference in every temperament', () => {
+    for (const temperament of ['pythagorean', 'just'] as const) {
+      expect(noteToFrequency('A4', tuning({ temperament, key: 'D' }))).toBeCloseTo(440, 6);
+    }
+  });
+
+  it('tunes fifths pure in pythagorean temperament', () => {
+    const settings = tuning({ temperament: 'pythagorean', key: 'G' });
+    const d = noteToFrequency('D4', settings);
+    expect(noteToFrequency('A4', settings) / d).toBeCloseTo(3 / 2, 6);
+    expect(d / noteToFrequency('G3', settings)).toBeCloseTo(3 / 2, 6);
+  });
+
+  it('lowers the major third by about 14 cents in just intonation', () => {
+    const settings = tuning({ temperament: 'just', key: 'D' });
+    // F# against D: a pure 5/4 instead of four tempered semitones
+    const third = centsBetween(noteToFrequency('F#4', settings), noteToFrequency('D4', settings));
+    expect(third).toBeCloseTo(1200 * Math.log2(5 / 4), 6);
+    expect(third - 400).toBeCloseTo(-13.7, 1);
+  });
+
+  it('names tempered notes after their own pitch, not their equal-tempered neighbour', () => {
+    const settings = tuning({ temperament: 'just', key: 'D' });
+    expect(frequencyToNote(noteToFrequency('F#4', settings), settings)).toBe('F#4');
+  });
+});
+
+describe('normalizeTuning', () => {
+  it('clamps the reference pitch and drops unknown values', () => {
+    expect(normalizeTuning({ referenceA: 500, temperament: 'mean' as never, key: 'H' })).toEqual({
+      referenceA: 466,
+      temperament: 'equal',
+      key: 'C'
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// Reference pitch and temperament used for note naming, tuning and practice-mode matching.
+
+export type Temperament = 'equal' | 'pythagorean' | 'just';
+
+export interface TuningSettings {
+  referenceA: number; // Frequency of A4 in Hz
+  temperament: Temperament;
+  key: string; // Tonic the pythagorean and just temperaments are built on, e.g. "D"
+}
+
+export const MIN_REFERENCE_A = 415;
+export const MAX_REFERENCE_A = 466;
+
+export const DEFAULT_TUNING: TuningSettings = {
+  referenceA: 440,
+  temperament: 'equal',
+  key: 'C'
+};
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
+
+// Named temperament.<name> in the locale catalog
+export const TEMPERAMENTS: Temperament[] = ['equal', 'pythagorean', 'just'];
+
+// Frequency ratios above the tonic, indexed by semitones above it
+const TEMPERAMENT_RATIOS: { [key in Exclude<Temperament, 'equal'>]: number[] } = {
+  pythagorean: [1, 256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128],
+  just: [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8]
+};
+
+const STORAGE_KEY = 'violin-companion-tuning';
+
+export function loadTuningSettings(): TuningSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return { ...DEFAULT_TUNING };
+    const parsed = JSON.parse(saved) as Partial<TuningSettings>;
+    return normalizeTuning({ ...DEFAULT_TUNING, ...parsed });
+  } catch (error) {
+    console.warn('Ignoring invalid tuning settings:', error);
+    return { ...DEFAULT_TUNING };
+  }
+}
+
+export function saveTuningSettings(settings: TuningSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(normalizeTuning(settings)));
+}
+
+export function normalizeTuning(settings: TuningSettings): TuningSettings {
+  const referenceA = Number(settings.referenceA);
+  return {
+    referenceA: Number.isFinite(referenceA)
+      ? Math.min(MAX_REFERENCE_A, Math.max(MIN_REFERENCE_A, referenceA))
+      : DEFAULT_TUNING.referenceA,
+    temperament: TEMPERAMENTS.includes(settings.temperament) ? settings.temperament : DEFAULT_TUNING.temperament,
+    key: (NOTE_NAMES as readonly string[]).includes(settings.key) ? settings.key : DEFAULT_TUNING.key
+  };
+}
+
+export interface ParsedNote {
+  letter: string; // "A" through "G"
+  alter: number; // -1 for flat, 0 for natural, 1 for sharp, ±2 for double flats and sharps
+  octave: number;
+}
+
+const LETTER_SEMITONES: { [letter: string]: number } = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Split a note name like "C#5", "Bb4" or "F##4" into letter, accidental and octave
+export function parseNote(note: string): ParsedNote | null {
+  const match = /^([A-G])(#{1,2}|b{1,2})?(-?\d+)$/.exec(note);
+  if (!match || !match[1] || !match[3]) return null;
+  const accidental = match[2] ?? '';
+  return {
+    letter: match[1],
+    alter: accidental.startsWith('#') ? accidental.length : -accidental.length,
+    octave: parseInt(match[3], 10)
+  };
+}
+
+// MIDI number of a note name like "A4", "C#5" or "Bb4", or null if it can't be parsed
+export function noteToMidi(note: string): number | null {
+  const parsed = parseNote(note);
+  const semitone = parsed ? LETTER_SEMITONES[parsed.letter] : undefined;
+  if (!parsed || semitone === undefined) return null;
+  return (parsed.octave + 1) * 12 + semitone + parsed.alter;
+}
+
+/** Whether two note names are the same pitch, however they are spelled, e.g. "A#4" and "Bb4". */
+export function samePitch(a: string, b: string): boolean {
+  const midi = noteToMidi(a);
+  return midi !== null && midi === noteToMidi(b);
+}
+
+export function midiToNote(midi: number): string {
+  const name = NOTE_NAMES[((midi % 12) + 12) % 12];
+  return `${name}${Math.floor(midi / 12) - 1}`;
+}
+
+export function centsBetween(frequency: number, reference: number): number {
+  return 1200 * Math.log2(frequency / reference);
+}
+
+// Deviation of a pitch class from equal temperament in cents, for the chosen temperament and key
+function temperamentOffset(pitchClass: number, settings: TuningSettings): number {
+  if (settings.temperament === 'equal') return 0;
+  const tonic = (NOTE_NAMES as readonly string[]).indexOf(settings.key);
+  const interval = ((pitchClass - tonic) % 12 + 12) % 12;
+  const ratio = TEMPERAMENT_RATIOS[settings.temperament][interval] ?? 1;
+  return 1200 * Math.log2(ratio) - interval * 100;
+}
+
+export function midiToFrequency(midi: number, settings: TuningSettings = DEFAULT_TUNING): number {
+  // A4 stays at the reference pitch; the other notes are placed relative to it
+  const pitchClass = ((midi % 12) + 12) % 12;
+  const offset = temperamentOffset(pitchClass, settings) - temperamentOffset(9, settings);
+  return settings.referenceA * Math.pow(2, (midi - 69) / 12 + offset / 1200);
+}
+
+export function noteToFrequency(note: string, settings: TuningSettings = DEFAULT_TUNING): number {
+  const midi = noteToMidi(note);
+  return midi === null ? 0 : midiToFrequency(midi, settings);
+}
+
+/** Name of the note closest to a frequency, e.g. "A4", or '--' if there is none. */
+export function frequencyToNote(frequency: number, settings: TuningSettings = DEFAULT_TUNING): string {
+  if (!(frequency > 0)) return '--';
+  const estimate = Math.round(69 + 12 * Math.log2(frequency / settings.referenceA));
+
+  // Tempered notes can sit up to ~20 cents from equal temperament, so check the neighbours too
+  let best = estimate;
+  let bestCents = Infinity;
+  for (const midi of [estimate - 1, estimate, estimate + 1]) {
+    const cents = Math.abs(centsBetween(frequency, midiToFrequency(midi, settings)));
+    if (cents < bestCents) {
+      best = midi;
+      bestCents = cents;
+    }
+  }
+  return midiToNote(best);
+}
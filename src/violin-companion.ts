@@ -1,56 +1,96 @@
-import { LitElement, html } from 'lit';
+import { LitElement, html, PropertyValues } from 'lit';
 import { property, state, query } from 'lit/decorators.js';
-import { PitchDetector } from 'pitchy';
 import './music-sheet-display';
+import './tuner-gauge';
+import './pitch-history-graph';
+import './string-tuner';
+import './ear-trainer';
+import './note-staff';
+import './metronome-panel';
+import './recording-analyzer';
+import './practice-dashboard';
+import './fingering-hint';
 import { MusicSheetDisplay } from './music-sheet-display';
+import { PitchHistoryGraph } from './pitch-history-graph';
+import { StringTuner } from './string-tuner';
+import { EarTrainer } from './ear-trainer';
+import { PitchPipeline, FRAME_SIZE } from './pitch-pipeline';
+import { RecordingAnalysis } from './audio-analysis';
+import { FollowResult, followScore } from './score-following';
+import { synthesizer } from './synth';
+import { TimeSignature } from './rhythm';
+import { checkTuning } from './intonation';
+import { PracticeSession, SessionRecorder, saveSession, listSessions, clearHistory } from './practice-history';
+import {
+  TuningSettings,
+  Temperament,
+  TEMPERAMENTS,
+  NOTE_NAMES,
+  MIN_REFERENCE_A,
+  MAX_REFERENCE_A,
+  loadTuningSettings,
+  saveTuningSettings,
+  normalizeTuning,
+  noteToFrequency,
+  noteToMidi,
+  midiToNote,
+  frequencyToNote,
+  samePitch
+} from './tuning';
+import {
+  Language,
+  NoteNaming,
+  MessageKey,
+  LANGUAGE_LABELS,
+  NAMING_LABELS,
+  LocaleController,
+  locale,
+  t,
+  formatNote
+} from './locale';
+import {
+  DetectionSettings,
+  NoteSmoothing,
+  DEFAULT_DETECTION,
+  INPUT_GAIN_RANGE,
+  MIN_VOLUME_RANGE,
+  CLARITY_RANGE,
+  SMOOTHING_FRAMES_RANGE,
+  SMOOTHINGS,
+  CALIBRATION_MS,
+  loadDetectionSettings,
+  saveDetectionSettings,
+  normalizeDetection,
+  calibrateNoiseFloor
+} from './detection';
+import {
+  MicrophoneError,
+  classifyMicrophoneError,
+  listInputDevices,
+  openMicrophone,
+  loadInputDeviceId,
+  saveInputDeviceId
+} from './microphone';
 
-// Note frequencies for violin strings and common notes (chromatic scale)
-const noteFrequencies = {
-  'G3': 196.00,
-  'G#3': 207.65,
-  'A3': 220.00,
-  'A#3': 233.08,
-  'B3': 246.94,
-  'C4': 261.63,
-  'C#4': 277.18,
-  'D4': 293.66,
-  'D#4': 311.13,
-  'E4': 329.63,
-  'F4': 349.23,
-  'F#4': 369.99,
-  'G4': 392.00,
-  'G#4': 415.30,
-  'A4': 440.00,
-  'A#4': 466.16,
-  'B4': 493.88,
-  'C5': 523.25,
-  'C#5': 554.37,
-  'D5': 587.33,
-  'D#5': 622.25,
-  'E5': 659.25,
-  'F5': 698.46,
-  'F#5': 739.99,
-  'G5': 783.99,
-  'G#5': 830.61,
-  'A5': 880.00
-} as const;
-
-// Type definitions derived from the noteFrequencies
-type NoteName = keyof typeof noteFrequencies;
-
-// Map notes to staff positions (0-100, where 0 is top)
-// Sharps are positioned slightly between their adjacent natural notes
-const notePositions: { [key in NoteName]: number } = {
-  // Octave 5
-  'A5': 5, 'G#5': 8, 'G5': 10, 'F#5': 14, 'F5': 17,
-  'E5': 25, 'D#5': 29, 'D5': 33, 'C#5': 36, 'C5': 40,
-  // Octave 4
-  'B4': 48, 'A#4': 52, 'A4': 56, 'G#4': 60, 'G4': 64,
-  'F#4': 68, 'F4': 72, 'E4': 80, 'D#4': 84, 'D4': 88,
-  // Octave 3-4
-  'C#4': 91, 'C4': 95, 'B3': 100, 'A#3': 102, 'A3': 105,
-  'G#3': 107, 'G3': 110
-};
+// Range of the input level meter
+const METER_FLOOR_DB = -80;
+
+// Notes offered as tuner targets: the full violin compass from the open G string up to E7
+const LOWEST_NOTE = 'G3';
+const HIGHEST_NOTE = 'E7';
+const tunerNotes: string[] = [];
+for (let midi = noteToMidi(LOWEST_NOTE) ?? 55; midi <= (noteToMidi(HIGHEST_NOTE) ?? 100); midi++) {
+  tunerNotes.push(midiToNote(midi));
+}
+
+type AppMode = 'tuner' | 'strings' | 'practice' | 'ear';
+
+const modes: { mode: AppMode; label: MessageKey; icon: string }[] = [
+  { mode: 'tuner', label: 'mode.tuner', icon: 'icon-[mdi--tune]' },
+  { mode: 'strings', label: 'mode.strings', icon: 'icon-[mdi--violin]' },
+  { mode: 'practice', label: 'mode.practice', icon: 'icon-[mdi--music-note]' },
+  { mode: 'ear', label: 'mode.ear', icon: 'icon-[mdi--ear-hearing]' }
+];
 
 export class ViolinCompanion extends LitElement {
   // Public reactive properties
@@ -67,17 +107,86 @@ export class ViolinCompanion extends LitElement {
   clarity = 0;
 
   @property({ type: String })
-  targetNote: NoteName = 'A4';
+  targetNote = 'A4';
 
   @state()
   inTune = false;
 
+  // Signed deviation of the detected pitch from targetNote, positive is sharp
+  @state()
+  cents = 0;
+
+  @state()
+  mode: AppMode = 'tuner';
+
+  @state()
+  tuning: TuningSettings = loadTuningSettings();
+
+  @state()
+  detection: DetectionSettings = loadDetectionSettings();
+
+  // Measuring the noise floor while the room is quiet
+  @state()
+  private calibrating = false;
+
+  // Whether the current thresholds come from a calibration
+  @state()
+  private calibrated = false;
+
+  @state()
+  private inputDevices: MediaDeviceInfo[] = [];
+
+  // Chosen input device, '' for the system default
+  @state()
+  private inputDeviceId = loadInputDeviceId();
+
+  // Level of the latest microphone frame, in dB
+  @state()
+  private inputLevel = -Infinity;
+
+  @state()
+  private micError: MicrophoneError | null = null;
+
+  // How an analyzed recording followed the score loaded in practice mode
+  @state()
+  private recordingFollow: FollowResult | null = null;
+
+  // Recorded listening sessions, oldest first
   @state()
-  sheetMode = false;
+  private history: PracticeSession[] = [];
+
+  // Note the drone plays on, or null when it is off
+  @state()
+  droneNote: string | null = null;
+
+  // Pitch picked in the drone selector, kept while the drone is off
+  @state()
+  private droneChoice = 'D4';
+
+  // Tempo and meter of the score loaded in practice mode, used as metronome defaults
+  @state()
+  private scoreTempo?: number;
+
+  @state()
+  private scoreTimeSignature?: TimeSignature;
 
   @query('music-sheet-display')
   private sheetDisplay?: MusicSheetDisplay;
 
+  @query('pitch-history-graph')
+  private pitchGraph?: PitchHistoryGraph;
+
+  @query('string-tuner')
+  private stringTuner?: StringTuner;
+
+  @query('ear-trainer')
+  private earTrainer?: EarTrainer;
+
+  constructor() {
+    super();
+    new LocaleController(this);
+  }
+
   // Disable shadow DOM to allow Tailwind classes to work
   // Note: This removes style encapsulation and may cause CSS conflicts with parent elements
   createRenderRoot() {
@@ -86,60 +195,163 @@ export class ViolinCompanion extends LitElement {
 
   // Private properties with explicit types
   private audioContext?: AudioContext;
+  private stream?: MediaStream;
   private analyser?: AnalyserNode;
-  private detector?: PitchDetector<Float32Array>;
   private animationId?: number;
-  private lastMatchedNote: string = '';
-  private lastMatchTime: number = 0;
+  private pipeline = new PitchPipeline(this.detection, this.tuning);
+  // Notch on the microphone input that removes the drone before pitch detection
+  private droneFilter?: BiquadFilterNode;
+  private inputGain?: GainNode;
+  private calibrationLevels: number[] = [];
+  private calibrationEnd = 0;
+  private sessionRecorder = new SessionRecorder();
+  // Start in progress, shared by callers racing it, e.g. a click and a device being plugged in
+  private starting?: Promise<void>;
+  private readonly handleDroneChange = () => this.updateDroneFilter();
+  private readonly handleDeviceChange = () => this.recoverInput();
+  private readonly handleTrackEnded = () => {
+    this.stopListening();
+    this.micError = 'device-lost';
+  };
+  // The page may never come back, so save the session so far and carry on with a new one
+  private readonly handlePageHide = () => {
+    if (!this.sessionRecorder.active) return;
+    this.finishSession();
+    this.sessionRecorder.start(this.mode);
+  };
+
+  connectedCallback() {
+    super.connectedCallback();
+    synthesizer.addEventListener('drone-change', this.handleDroneChange);
+    navigator.mediaDevices?.addEventListener('devicechange', this.handleDeviceChange);
+    window.addEventListener('pagehide', this.handlePageHide);
+    this.refreshInputDevices();
+    this.loadHistory();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    synthesizer.removeEventListener('drone-change', this.handleDroneChange);
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    synthesizer.stopDrone();
+    this.stopListening();
+  }
+
+  private async refreshInputDevices(): Promise<void> {
+    try {
+      this.inputDevices = await listInputDevices();
+    } catch (error) {
+      console.warn('Could not list input devices:', error);
+    }
+  }
+
+  // A microphone was plugged in or out: restart listening if it was cut off
+  private async recoverInput(): Promise<void> {
+    await this.refreshInputDevices();
+    if ((this.micError === 'device-lost' || this.micError === 'no-device') && this.inputDevices.length > 0) {
+      await this.startListening();
+    }
+  }
+
+  private async selectInputDevice(deviceId: string): Promise<void> {
+    this.inputDeviceId = deviceId;
+    saveInputDeviceId(deviceId);
+    if (this.isListening) {
+      this.stopListening();
+      await this.startListening();
+    }
+  }
 
   async startListening(): Promise<void> {
+    if (this.isListening) return;
+    if (!this.starting) {
+      this.starting = this.openInput().finally(() => this.starting = undefined);
+    }
+    return this.starting;
+  }
+
+  private async openInput(): Promise<void> {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await openMicrophone(this.inputDeviceId);
+      this.stream = stream;
+      this.micError = null;
+      stream.getAudioTracks().forEach(track => track.addEventListener('ended', this.handleTrackEnded));
+      // Device labels only become readable once permission is granted
+      this.refreshInputDevices();
 
       this.audioContext = new AudioContext();
+      // Contexts created outside a user gesture (e.g. when recovering a device) start suspended
+      if (this.audioContext.state === 'suspended') {
+        await this.audioContext.resume();
+      }
       this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = 2048;
+      this.analyser.fftSize = FRAME_SIZE;
 
       const source = this.audioContext.createMediaStreamSource(stream);
-      source.connect(this.analyser);
-
-      const bufferLength = this.analyser.fftSize;
-      const buffer = new Float32Array(bufferLength);
+      this.inputGain = this.audioContext.createGain();
+      this.droneFilter = this.audioContext.createBiquadFilter();
+      this.updateDroneFilter();
+      source.connect(this.inputGain);
+      this.inputGain.connect(this.droneFilter);
+      this.droneFilter.connect(this.analyser);
 
-      this.detector = PitchDetector.forFloat32Array(bufferLength);
-      this.detector.minVolumeDecibels = -30;
+      const buffer = new Float32Array(FRAME_SIZE);
 
+      this.applyDetectionSettings();
+      this.pipeline.reset();
       this.isListening = true;
+      this.sessionRecorder.start(this.mode);
 
       const updatePitch = (): void => {
-        if (!this.analyser || !this.detector || !this.audioContext) {
+        if (!this.analyser || !this.audioContext) {
           return;
         }
 
         this.analyser.getFloatTimeDomainData(buffer);
+        const now = performance.now();
+        const { level, frequency, clarity, isClear, note, onset } = this.pipeline.process(buffer, this.audioContext.sampleRate, now);
+        this.inputLevel = level;
 
-        const [frequency, clarity] = this.detector.findPitch(buffer, this.audioContext.sampleRate);
+        if (this.calibrating) {
+          this.calibrationLevels.push(level);
+          if (now >= this.calibrationEnd) {
+            this.finishCalibration();
+          }
+        }
 
-        if (frequency && clarity > 0.9) {
+        if (isClear) {
           this.currentFrequency = frequency;
           this.clarity = clarity;
-          this.currentNote = this.frequencyToNote(frequency);
+          if (note) {
+            this.currentNote = note;
+          }
           this.checkTuning(frequency);
-          
-          // Check if in sheet mode and if note matches
-          if (this.sheetMode && this.sheetDisplay) {
-            const now = Date.now();
-            // Require note to be held for 500ms to advance
-            if (this.currentNote === this.lastMatchedNote) {
-              if (now - this.lastMatchTime > 500) {
-                this.sheetDisplay.checkNote(this.currentNote);
-                this.lastMatchedNote = '';
-                this.lastMatchTime = 0;
-              }
-            } else {
-              this.lastMatchedNote = this.currentNote;
-              this.lastMatchTime = now;
-            }
+          // The synth playing a tone or the score would be recorded as the child's intonation
+          if (note && !synthesizer.sounding) {
+            this.sessionRecorder.addPitch(note, checkTuning(frequency, note, this.tuning)?.cents ?? 0);
+          }
+        }
+
+        this.pitchGraph?.addSample(now, isClear ? this.cents : null);
+        this.stringTuner?.processPitch(isClear ? frequency : null, now);
+
+        if (this.mode === 'practice' && this.sheetDisplay) {
+          const expected = this.sheetDisplay.getCurrentNote();
+          if (onset && this.sheetDisplay.checkNote(onset.note, onset.time) && expected) {
+            this.sessionRecorder.addCompletedNote(this.sheetDisplay.getScoreInfo(), expected.index);
+          }
+          if (isClear) {
+            this.sheetDisplay.recordPitch(frequency);
+          }
+        }
+
+        if (this.mode === 'ear' && this.earTrainer) {
+          if (onset) {
+            this.earTrainer.checkNote(onset.note);
+          }
+          if (isClear) {
+            this.earTrainer.recordPitch(frequency);
           }
         }
 
@@ -151,11 +363,13 @@ export class ViolinCompanion extends LitElement {
       updatePitch();
     } catch (error) {
       console.error('Error accessing microphone:', error);
-      alert('Unable to access microphone. Please grant microphone permissions.');
+      this.stopListening();
+      this.micError = classifyMicrophoneError(error);
     }
   }
 
   stopListening(): void {
+    this.finishSession();
     this.isListening = false;
 
     if (this.animationId) {
@@ -167,40 +381,522 @@ export class ViolinCompanion extends LitElement {
       this.audioContext.close();
       this.audioContext = undefined;
     }
+    // Stopping the tracks releases the microphone and turns off the browser's indicator
+    if (this.stream) {
+      for (const track of this.stream.getTracks()) {
+        track.removeEventListener('ended', this.handleTrackEnded);
+        track.stop();
+      }
+      this.stream = undefined;
+    }
+    this.droneFilter = undefined;
+    this.inputGain = undefined;
+    this.calibrating = false;
 
     this.currentNote = '--';
     this.currentFrequency = 0;
+    this.inputLevel = -Infinity;
     this.clarity = 0;
     this.inTune = false;
+    this.cents = 0;
   }
 
-  private frequencyToNote(frequency: number): string {
-    const A4 = 440;
-    const semitone = 69 + 12 * Math.log2(frequency / A4);
-    const noteIndex = ((Math.round(semitone) % 12) + 12) % 12;
-    const octave = Math.floor(Math.round(semitone) / 12) - 1;
-    const notes = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
-    const note = notes[noteIndex];
-    return (noteIndex >= 0 && noteIndex < notes.length && note) ? note + octave : '--';
+  // The drone is a pure sine, so one narrow notch at its frequency is enough to hide it
+  private updateDroneFilter(): void {
+    if (!this.droneFilter) return;
+    const frequency = synthesizer.droneFrequency;
+    if (frequency) {
+      this.droneFilter.type = 'notch';
+      this.droneFilter.frequency.value = frequency;
+      this.droneFilter.Q.value = 30;
+    } else {
+      this.droneFilter.type = 'allpass';
+    }
+  }
+
+  async toggleDrone(): Promise<void> {
+    if (this.droneNote) {
+      synthesizer.stopDrone();
+      this.droneNote = null;
+    } else {
+      await synthesizer.startDrone(noteToFrequency(this.droneChoice, this.tuning));
+      this.droneNote = this.droneChoice;
+    }
+  }
+
+  private async setDroneChoice(note: string): Promise<void> {
+    this.droneChoice = note;
+    if (this.droneNote) {
+      await synthesizer.startDrone(noteToFrequency(note, this.tuning));
+      this.droneNote = note;
+    }
+  }
+
+  // Follow an analyzed recording through the practice score, like live practice would
+  private handleRecordingAnalyzed(e: CustomEvent<{ analysis: RecordingAnalysis }>): void {
+    const steps = this.mode === 'practice' ? this.sheetDisplay?.getPracticeSteps() : undefined;
+    this.recordingFollow = steps && steps.length > 0
+      ? followScore(steps, e.detail.analysis.notes.map(note => ({ time: note.start, note: note.note })))
+      : null;
+  }
+
+  // A new mode starts a new session, so every session has one mode
+  willUpdate(changed: PropertyValues<this>) {
+    if (changed.has('mode') && changed.get('mode') !== undefined && this.sessionRecorder.active) {
+      this.finishSession();
+      this.sessionRecorder.start(this.mode);
+    }
+  }
+
+  private async loadHistory(): Promise<void> {
+    try {
+      this.history = await listSessions();
+    } catch (error) {
+      console.warn('Could not load the practice history:', error);
+    }
+  }
+
+  // Save the listening session that just ended; the sheet is still showing where it stopped
+  private finishSession(): void {
+    const current = this.sheetDisplay?.getCurrentNote();
+    if (current) {
+      this.sessionRecorder.setStoppedAt(current.measureNumber, current.measureBeat);
+    }
+    const session = this.sessionRecorder.finish();
+    if (!session) return;
+    saveSession(session)
+      .then(() => this.loadHistory())
+      .catch(error => console.error('Could not save the practice session:', error));
+  }
+
+  private async handleHistoryClear(): Promise<void> {
+    try {
+      await clearHistory();
+      this.history = [];
+    } catch (error) {
+      console.error('Could not clear the practice history:', error);
+    }
+  }
+
+  private handleScoreTiming(e: CustomEvent<{ tempoBpm: number; timeSignature: TimeSignature }>): void {
+    this.scoreTempo = e.detail.tempoBpm;
+    this.scoreTimeSignature = e.detail.timeSignature;
+  }
+
+  playTargetNote(): void {
+    synthesizer.playTone(noteToFrequency(this.targetNote, this.tuning));
   }
 
   private checkTuning(frequency: number): void {
-    const targetFreq = noteFrequencies[this.targetNote];
-    if (targetFreq) {
-      const cents = 1200 * Math.log2(frequency / targetFreq);
-      this.inTune = Math.abs(cents) < 10; // Within 10 cents is considered in tune
+    const check = checkTuning(frequency, this.targetNote, this.tuning);
+    if (check) {
+      this.cents = check.cents;
+      this.inTune = check.inTune;
     }
   }
 
-  setTargetNote(note: NoteName): void {
+  // The detected note, spelled the way the score writes it when it is the expected note
+  // (Bb4 rather than A#4 in F major)
+  private writtenNote(): string {
+    const expected = this.mode === 'practice' ? this.sheetDisplay?.getCurrentNote() : undefined;
+    return expected?.pitches.find(pitch => samePitch(pitch, this.currentNote)) ?? this.currentNote;
+  }
+
+  setTargetNote(note: string): void {
     this.targetNote = note;
+    this.pitchGraph?.clear();
+    if (this.currentFrequency > 0) {
+      this.checkTuning(this.currentFrequency);
+    }
+  }
+
+  updateTuning(changes: Partial<TuningSettings>): void {
+    this.tuning = normalizeTuning({ ...this.tuning, ...changes });
+    saveTuningSettings(this.tuning);
+    this.pipeline.configure(this.detection, this.tuning);
+    if (this.droneNote) {
+      synthesizer.startDrone(noteToFrequency(this.droneNote, this.tuning));
+    }
     if (this.currentFrequency > 0) {
+      this.currentNote = frequencyToNote(this.currentFrequency, this.tuning);
       this.checkTuning(this.currentFrequency);
     }
   }
 
-  private getNotePosition(note: string): number {
-    return notePositions[note as NoteName] || 50;
+  // Push the detection settings into the audio graph, the pitch detector and the filters
+  private applyDetectionSettings(): void {
+    if (this.inputGain) {
+      this.inputGain.gain.value = Math.pow(10, this.detection.inputGainDb / 20);
+    }
+    this.pipeline.configure(this.detection, this.tuning);
+  }
+
+  updateDetection(changes: Partial<DetectionSettings>): void {
+    this.detection = normalizeDetection({ ...this.detection, ...changes });
+    saveDetectionSettings(this.detection);
+    this.applyDetectionSettings();
+  }
+
+  async startCalibration(): Promise<void> {
+    if (!this.isListening) {
+      await this.startListening();
+      if (!this.isListening) return;
+    }
+    this.calibrationLevels = [];
+    this.calibrationEnd = performance.now() + CALIBRATION_MS;
+    this.calibrated = false;
+    this.calibrating = true;
+  }
+
+  private finishCalibration(): void {
+    this.calibrating = false;
+    this.updateDetection(calibrateNoiseFloor(this.detection, this.calibrationLevels));
+    this.calibrated = true;
+  }
+
+  private renderDetectionSettings() {
+    const detection = this.detection;
+    const numberFrom = (e: Event) => Number((e.target as HTMLInputElement).value);
+
+    return html`
+      <div class="collapse collapse-arrow bg-base-200 rounded-2xl mb-6">
+        <input type="checkbox" />
+        <div class="collapse-title font-semibold">
+          <span class="icon-[mdi--microphone-settings]"></span>
+          ${t('detection.summary', { volume: detection.minVolumeDb, clarity: Math.round(detection.minClarity * 100) })}
+          ${detection.smoothing !== 'off' ? html`· ${t(`smoothing.${detection.smoothing}`)}` : ''}
+        </div>
+        <div class="collapse-content">
+          <div class="flex flex-wrap items-end gap-6 mb-4">
+            <button
+              class="btn btn-sm btn-secondary"
+              @click=${this.startCalibration}
+              ?disabled=${this.calibrating}>
+              <span class="icon-[mdi--volume-off]"></span>
+              ${this.calibrating ? t('detection.stayQuiet') : t('detection.calibrate')}
+            </button>
+            <span class="text-sm text-base-content/70">
+              ${this.calibrating
+                ? t('detection.calibrating', { seconds: CALIBRATION_MS / 1000 })
+                : this.calibrated
+                  ? t('detection.calibrated', { floor: detection.noiseFloorDb.toFixed(0), volume: detection.minVolumeDb.toFixed(0) })
+                  : t('detection.noiseFloor', { floor: detection.noiseFloorDb.toFixed(0) })}
+            </span>
+          </div>
+
+          <div class="flex flex-wrap items-end gap-6">
+            <label class="form-control">
+              <span class="label-text mb-1">${t('detection.inputGain', { value: detection.inputGainDb })}</span>
+              <input
+                type="range"
+                class="range range-sm range-primary w-40"
+                min=${INPUT_GAIN_RANGE.min}
+                max=${INPUT_GAIN_RANGE.max}
+                step="1"
+                .value=${String(detection.inputGainDb)}
+                @input=${(e: Event) => this.updateDetection({ inputGainDb: numberFrom(e) })} />
+            </label>
+
+            <label class="form-control">
+              <span class="label-text mb-1">${t('detection.volume', { value: detection.minVolumeDb })}</span>
+              <input
+                type="range"
+                class="range range-sm range-primary w-40"
+                min=${MIN_VOLUME_RANGE.min}
+                max=${MIN_VOLUME_RANGE.max}
+                step="1"
+                .value=${String(detection.minVolumeDb)}
+                @input=${(e: Event) => this.updateDetection({ minVolumeDb: numberFrom(e) })} />
+            </label>
+
+            <label class="form-control">
+              <span class="label-text mb-1">${t('detection.clarity', { value: Math.round(detection.minClarity * 100) })}</span>
+              <input
+                type="range"
+                class="range range-sm range-primary w-40"
+                min=${CLARITY_RANGE.min}
+                max=${CLARITY_RANGE.max}
+                step="0.01"
+                .value=${String(detection.minClarity)}
+                @input=${(e: Event) => this.updateDetection({ minClarity: numberFrom(e) })} />
+            </label>
+
+            <label class="form-control">
+              <span class="label-text mb-1">${t('detection.smoothing')}</span>
+              <div class="flex items-center gap-2">
+                <select
+                  class="select select-bordered select-sm"
+                  @change=${(e: Event) => this.updateDetection({ smoothing: (e.target as HTMLSelectElement).value as NoteSmoothing })}>
+                  ${SMOOTHINGS.map(smoothing => html`
+                    <option value=${smoothing} ?selected=${detection.smoothing === smoothing}>
+                      ${t(`smoothing.${smoothing}`)}
+                    </option>
+                  `)}
+                </select>
+                <input
+                  type="number"
+                  class="input input-bordered input-sm w-16"
+                  title=${t('detection.frames')}
+                  min=${SMOOTHING_FRAMES_RANGE.min}
+                  max=${SMOOTHING_FRAMES_RANGE.max}
+                  ?disabled=${detection.smoothing === 'off'}
+                  .value=${String(detection.smoothingFrames)}
+                  @change=${(e: Event) => this.updateDetection({ smoothingFrames: numberFrom(e) })} />
+              </div>
+            </label>
+
+            <label class="label cursor-pointer gap-2">
+              <input
+                type="checkbox"
+                class="checkbox checkbox-sm"
+                .checked=${detection.octaveCorrection}
+                @change=${(e: Event) => this.updateDetection({ octaveCorrection: (e.target as HTMLInputElement).checked })} />
+              <span class="label-text">${t('detection.octaveCorrection')}</span>
+            </label>
+
+            <button class="btn btn-sm btn-ghost" @click=${() => this.updateDetection(DEFAULT_DETECTION)}>
+              ${t('detection.reset')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderInputControls() {
+    // Share of the meter lit, and where the detection threshold falls on it
+    const meterPercent = (db: number) =>
+      Math.min(100, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB * 100));
+    const aboveThreshold = this.inputLevel >= this.detection.minVolumeDb;
+
+    return html`
+      <div class="flex flex-wrap justify-center items-center gap-4 mb-4">
+        <select
+          class="select select-bordered select-sm max-w-xs"
+          title=${t('input.device')}
+          @change=${(e: Event) => this.selectInputDevice((e.target as HTMLSelectElement).value)}>
+          <option value="" ?selected=${this.inputDeviceId === ''}>${t('input.default')}</option>
+          ${this.inputDevices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, index) => html`
+            <option value=${device.deviceId} ?selected=${device.deviceId === this.inputDeviceId}>
+              ${device.label || t('input.numbered', { number: index + 1 })}
+            </option>
+          `)}
+        </select>
+
+        <div class="relative w-48 h-3 rounded-full bg-base-300 overflow-hidden" title=${t('input.level')}>
+          <div
+            class="h-full transition-[width] duration-75 ${aboveThreshold ? 'bg-success' : 'bg-base-content/40'}"
+            style="width: ${this.isListening ? meterPercent(this.inputLevel) : 0}%"></div>
+          <div
+            class="absolute top-0 h-full w-0.5 bg-warning"
+            title=${t('input.threshold')}
+            style="left: ${meterPercent(this.detection.minVolumeDb)}%"></div>
+        </div>
+      </div>
+
+      ${this.micError ? html`
+        <div class="alert ${this.micError === 'denied' ? 'alert-error' : 'alert-warning'} mb-4">
+          <span class="icon-[mdi--microphone-off]"></span>
+          <span>${t(`microphone.${this.micError}`)}</span>
+          <button class="btn btn-sm" @click=${this.startListening}>${t('input.retry')}</button>
+        </div>
+      ` : ''}
+    `;
+  }
+
+  private renderLocaleSettings() {
+    const { language, naming } = locale.settings;
+    return html`
+      <div class="flex flex-wrap justify-center items-center gap-2 mb-4">
+        <span class="icon-[mdi--translate] text-xl text-base-content/70"></span>
+        <select
+          class="select select-bordered select-sm"
+          title=${t('settings.language')}
+          @change=${(e: Event) => locale.update({ language: (e.target as HTMLSelectElement).value as Language })}>
+          ${(Object.keys(LANGUAGE_LABELS) as Language[]).map(option => html`
+            <option value=${option} ?selected=${language === option}>${LANGUAGE_LABELS[option]}</option>
+          `)}
+        </select>
+        <select
+          class="select select-bordered select-sm"
+          title=${t('settings.naming')}
+          @change=${(e: Event) => locale.update({ naming: (e.target as HTMLSelectElement).value as NoteNaming })}>
+          ${(Object.keys(NAMING_LABELS) as NoteNaming[]).map(option => html`
+            <option value=${option} ?selected=${naming === option}>${t(NAMING_LABELS[option])}</option>
+          `)}
+        </select>
+      </div>
+    `;
+  }
+
+  private renderTuningSettings() {
+    return html`
+      <div class="collapse collapse-arrow bg-base-200 rounded-2xl mb-6">
+        <input type="checkbox" />
+        <div class="collapse-title font-semibold">
+          <span class="icon-[mdi--tune-vertical]"></span>
+          ${t('tuning.summary', { frequency: this.tuning.referenceA, temperament: t(`temperament.${this.tuning.temperament}`) })}
+          ${this.tuning.temperament !== 'equal' ? t('tuning.inKey', { key: formatNote(`${this.tuning.key}4`, false) }) : ''}
+        </div>
+        <div class="collapse-content">
+          <div class="flex flex-wrap items-end gap-6">
+            <label class="form-control">
+              <span class="label-text mb-1">${t('tuning.reference')}</span>
+              <div class="flex items-center gap-2">
+                <input
+                  type="range"
+                  class="range range-sm range-primary w-48"
+                  min=${MIN_REFERENCE_A}
+                  max=${MAX_REFERENCE_A}
+                  step="1"
+                  .value=${String(this.tuning.referenceA)}
+                  @input=${(e: Event) => this.updateTuning({ referenceA: Number((e.target as HTMLInputElement).value) })} />
+                <input
+                  type="number"
+                  class="input input-bordered input-sm w-24"
+                  min=${MIN_REFERENCE_A}
+                  max=${MAX_REFERENCE_A}
+                  step="0.5"
+                  .value=${String(this.tuning.referenceA)}
+                  @change=${(e: Event) => this.updateTuning({ referenceA: Number((e.target as HTMLInputElement).value) })} />
+              </div>
+            </label>
+
+            <label class="form-control">
+              <span class="label-text mb-1">${t('tuning.temperament')}</span>
+              <select
+                class="select select-bordered select-sm"
+                @change=${(e: Event) => this.updateTuning({ temperament: (e.target as HTMLSelectElement).value as Temperament })}>
+                ${TEMPERAMENTS.map(temperament => html`
+                  <option value=${temperament} ?selected=${this.tuning.temperament === temperament}>
+                    ${t(`temperament.${temperament}`)}
+                  </option>
+                `)}
+              </select>
+            </label>
+
+            <label class="form-control">
+              <span class="label-text mb-1">${t('tuning.key')}</span>
+              <select
+                class="select select-bordered select-sm"
+                ?disabled=${this.tuning.temperament === 'equal'}
+                @change=${(e: Event) => this.updateTuning({ key: (e.target as HTMLSelectElement).value })}>
+                ${NOTE_NAMES.map(key => html`
+                  <option value=${key} ?selected=${this.tuning.key === key}>${formatNote(`${key}4`, false)}</option>
+                `)}
+              </select>
+            </label>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderDroneControls() {
+    return html`
+      <div class="flex flex-wrap justify-center items-center gap-2 mb-6">
+        <span class="icon-[mdi--waveform] text-xl text-base-content/70"></span>
+        <span class="text-base-content/70">${t('drone.label')}</span>
+        <select
+          class="select select-bordered select-sm"
+          @change=${(e: Event) => this.setDroneChoice((e.target as HTMLSelectElement).value)}>
+          ${tunerNotes.map(note => html`
+            <option value=${note} ?selected=${this.droneChoice === note}>${formatNote(note)}</option>
+          `)}
+        </select>
+        <button
+          class="btn btn-sm ${this.droneNote ? 'btn-warning' : 'btn-outline'}"
+          @click=${this.toggleDrone}>
+          <span class="${this.droneNote ? 'icon-[mdi--volume-off]' : 'icon-[mdi--volume-high]'}"></span>
+          ${this.droneNote ? t('drone.stop') : t('drone.start')}
+        </button>
+      </div>
+    `;
+  }
+
+  private renderModeContent() {
+    switch (this.mode) {
+      case 'practice':
+        return html`
+          <!-- Music Sheet Display -->
+          <div class="mt-8">
+            <music-sheet-display
+              .tuning=${this.tuning}
+              @score-loaded=${this.handleScoreTiming}
+              @tempo-change=${this.handleScoreTiming}>
+            </music-sheet-display>
+          </div>
+        `;
+      case 'strings':
+        return html`
+          <!-- String Tuning Mode -->
+          <div class="mt-8">
+            <string-tuner .tuning=${this.tuning}></string-tuner>
+          </div>
+        `;
+      case 'ear':
+        return html`
+          <!-- Ear Training Mode -->
+          <div class="mt-8">
+            <ear-trainer .tuning=${this.tuning} ?listening=${this.isListening}></ear-trainer>
+          </div>
+        `;
+      case 'tuner':
+        return html`
+          <!-- Tuner Mode -->
+          <div class="mt-8 bg-base-200 rounded-2xl p-6">
+            <h2 class="text-2xl font-bold text-base-content/80 mb-4">
+              ${t('tuner.target', { note: formatNote(this.targetNote) })}
+              <span class="text-lg font-normal text-base-content/60">
+                (${noteToFrequency(this.targetNote, this.tuning).toFixed(2)} Hz)
+              </span>
+              <button class="btn btn-sm btn-circle btn-ghost" title=${t('tuner.hear')} @click=${this.playTargetNote}>
+                <span class="icon-[mdi--volume-high] text-xl"></span>
+              </button>
+            </h2>
+
+            <fingering-hint class="block mb-4" .notes=${[{ pitch: this.targetNote }]}></fingering-hint>
+            
+            <div class="flex flex-wrap justify-center gap-2 mb-8">
+              ${tunerNotes.map(note => html`
+                <button 
+                  class="btn btn-sm ${this.targetNote === note ? 'btn-primary' : 'btn-ghost'}"
+                  @click=${() => this.setTargetNote(note)}>
+                  ${formatNote(note)}
+                </button>
+              `)}
+            </div>
+
+            <tuner-gauge
+              .cents=${this.cents}
+              ?active=${this.isListening && this.currentFrequency > 0}>
+            </tuner-gauge>
+
+            <div class="mt-6">
+              <pitch-history-graph></pitch-history-graph>
+            </div>
+
+            <div class="my-8">
+              <note-staff note=${this.writtenNote()} ?in-tune=${this.inTune}></note-staff>
+            </div>
+          </div>
+
+          <div class="alert alert-info mt-6">
+            <span class="icon-[mdi--information-outline] text-2xl"></span>
+            <div>
+              <h3 class="font-bold">${t('help.title')}</h3>
+              <ol class="list-decimal list-inside mt-2">
+                <li>${t('help.start', { button: t('listen.start') })}</li>
+                <li>${t('help.target')}</li>
+                <li>${t('help.play')}</li>
+                <li>${t('help.result')}</li>
+                <li>${t('help.gauge')}</li>
+                <li>${t('help.hear')}</li>
+              </ol>
+            </div>
+          </div>
+        `;
+    }
   }
 
   render() {
@@ -212,118 +908,113 @@ export class ViolinCompanion extends LitElement {
               <span class="icon-[mdi--violin] text-5xl"></span>
               Violin Companion
             </h1>
+
+            ${this.renderLocaleSettings()}
             
             <!-- Mode Toggle -->
             <div class="flex justify-center mb-6">
               <div class="btn-group">
-                <button 
-                  class="btn ${!this.sheetMode ? 'btn-active btn-primary' : 'btn-ghost'}"
-                  @click=${() => this.sheetMode = false}>
-                  <span class="icon-[mdi--tune]"></span>
-                  Tuner Mode
-                </button>
-                <button 
-                  class="btn ${this.sheetMode ? 'btn-active btn-primary' : 'btn-ghost'}"
-                  @click=${() => this.sheetMode = true}>
-                  <span class="icon-[mdi--music-note]"></span>
-                  Practice Mode
-                </button>
+                ${modes.map(({ mode, label, icon }) => html`
+                  <button 
+                    class="btn ${this.mode === mode ? 'btn-active btn-primary' : 'btn-ghost'}"
+                    @click=${() => this.mode = mode}>
+                    <span class="${icon}"></span>
+                    ${t(label)}
+                  </button>
+                `)}
               </div>
             </div>
 
+            ${this.renderTuningSettings()}
+
+            ${this.renderDetectionSettings()}
+
+            ${this.renderDroneControls()}
+
+            <metronome-panel
+              .scoreTempo=${this.scoreTempo}
+              .scoreTimeSignature=${this.scoreTimeSignature}>
+            </metronome-panel>
+
             <div class="flex justify-center gap-4 my-6">
               <button 
                 class="btn btn-primary btn-lg"
                 @click=${this.startListening} 
                 ?disabled=${this.isListening}>
                 <span class="icon-[mdi--microphone] text-xl"></span>
-                Start Listening
+                ${t('listen.start')}
               </button>
               <button 
                 class="btn btn-error btn-lg"
                 @click=${this.stopListening} 
                 ?disabled=${!this.isListening}>
                 <span class="icon-[mdi--stop] text-xl"></span>
-                Stop
+                ${t('listen.stop')}
               </button>
             </div>
 
+            ${this.renderInputControls()}
+
             <div class="text-center text-lg text-base-content/70 mb-4">
               ${this.isListening ? html`
                 <span class="icon-[mdi--microphone] text-2xl text-success"></span>
-                <span>Listening...</span>
+                <span>${t('listen.on')}</span>
               ` : html`
                 <span class="icon-[mdi--microphone-off] text-2xl text-error"></span>
-                <span>Not listening</span>
+                <span>${t('listen.off')}</span>
               `}
             </div>
 
             <div class="bg-gradient-to-br from-base-200 to-base-300 rounded-2xl p-8 min-h-[200px] flex flex-col justify-center items-center">
               <div class="text-7xl font-bold ${this.inTune ? 'text-success' : 'text-primary'} mb-2">
-                ${this.currentNote}
+                ${formatNote(this.writtenNote())}
               </div>
               ${this.currentFrequency > 0 ? html`
                 <div class="text-2xl text-base-content/70 mb-1">
                   ${this.currentFrequency.toFixed(2)} Hz
                 </div>
                 <div class="text-lg text-base-content/60">
-                  Clarity: ${(this.clarity * 100).toFixed(0)}%
+                  ${t('listen.clarity', { value: (this.clarity * 100).toFixed(0) })}
                 </div>
               ` : html`
                 <div class="text-xl text-base-content/60">
-                  Play a note on your violin
+                  ${t('listen.prompt')}
                 </div>
               `}
             </div>
 
-            ${this.sheetMode ? html`
-              <!-- Music Sheet Display -->
-              <div class="mt-8">
-                <music-sheet-display></music-sheet-display>
-              </div>
-            ` : html`
-              <!-- Tuner Mode -->
-              <div class="mt-8 bg-base-200 rounded-2xl p-6">
-                <h2 class="text-2xl font-bold text-base-content/80 mb-4">
-                  Target Note: ${this.targetNote}
-                </h2>
-                
-                <div class="flex flex-wrap justify-center gap-2 mb-8">
-                  ${Object.keys(noteFrequencies).map(note => html`
-                    <button 
-                      class="btn btn-sm ${this.targetNote === note ? 'btn-primary' : 'btn-ghost'}"
-                      @click=${() => this.setTargetNote(note as NoteName)}>
-                      ${note}
-                    </button>
-                  `)}
-                </div>
+            ${this.renderModeContent()}
 
-                <div class="relative h-40 my-8">
-                  ${[0, 1, 2, 3, 4].map(i => html`
-                    <div class="absolute w-full h-0.5 bg-slate-700 left-0" style="top: ${20 + i * 26}px"></div>
-                  `)}
-                  ${this.currentNote !== '--' ? html`
-                    <div 
-                      class="absolute w-10 h-10 ${this.inTune ? 'bg-success shadow-success/50' : 'bg-primary'} rounded-full left-1/2 -translate-x-1/2 transition-all duration-300 shadow-lg"
-                      style="top: ${this.getNotePosition(this.currentNote)}px">
-                    </div>
-                  ` : ''}
-                </div>
+            <div class="collapse collapse-arrow bg-base-200 rounded-2xl mt-6">
+              <input type="checkbox" />
+              <div class="collapse-title font-semibold">
+                <span class="icon-[mdi--waveform]"></span>
+                ${t('section.recording')}
+                ${this.mode === 'practice' ? html`<span class="text-sm font-normal text-base-content/70">· ${t('section.followsScore')}</span>` : ''}
+              </div>
+              <div class="collapse-content">
+                <recording-analyzer
+                  .detection=${this.detection}
+                  .tuning=${this.tuning}
+                  .following=${this.recordingFollow}
+                  @recording-analyzed=${this.handleRecordingAnalyzed}>
+                </recording-analyzer>
               </div>
+            </div>
 
-              <div class="alert alert-info mt-6">
-                <span class="icon-[mdi--information-outline] text-2xl"></span>
-                <div>
-                  <h3 class="font-bold">How to use:</h3>
-                  <ol class="list-decimal list-inside mt-2">
-                    <li>Click "Start Listening" to allow microphone access</li>
-                    <li>Select a target note you want to practice</li>
-                    <li>Play that note on your violin</li>
-                    <li>The app will show you the detected pitch and if you're in tune (green = in tune)</li>
-                  </ol>
-                </div>
+            <div class="collapse collapse-arrow bg-base-200 rounded-2xl mt-6">
+              <input type="checkbox" />
+              <div class="collapse-title font-semibold">
+                <span class="icon-[mdi--chart-bar]"></span>
+                ${t('section.history')}
+              </div>
+              <div class="collapse-content">
+                <practice-dashboard
+                  .sessions=${this.history}
+                  @history-clear=${this.handleHistoryClear}>
+                </practice-dashboard>
               </div>
-            `}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWav } from './wav';
+
+// A WAV file with the given format chunk fields and sample bytes, plus an unknown chunk of odd length
+function wav(format: number, channels: number, bits: number, samples: number[], write: (view: DataView, offset: number, sample: number) => void): Uint8Array {
+  const bytesPerSample = bits / 8;
+  const dataLength = samples.length * bytesPerSample;
+  const bytes = new Uint8Array(12 + 24 + 10 + 8 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => [...text].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  tag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, 8000, true);
+  view.setUint32(28, 8000 * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, bits, true);
+  tag(36, 'LIST');
+  view.setUint32(40, 1, true); // Padded to 2 bytes
+  tag(46, 'data');
+  view.setUint32(50, dataLength, true);
+  samples.forEach((sample, i) => write(view, 54 + i * bytesPerSample, sample));
+  return bytes;
+}
+
+describe('decodeWav', () => {
+  it('decodes 16-bit PCM, channel by channel', () => {
+    const audio = decodeWav(wav(1, 2, 16, [0x4000, -0x8000, 0, 0x2000], (view, offset, sample) => view.setInt16(offset, sample, true)));
+    expect(audio.sampleRate).toBe(8000);
+    expect(audio.numberOfChannels).toBe(2);
+    expect(audio.length).toBe(2);
+    expect(audio.duration).toBe(2 / 8000);
+    expect([...audio.getChannelData(0)]).toEqual([0.5, 0]);
+    expect([...audio.getChannelData(1)]).toEqual([-1, 0.25]);
+  });
+
+  it('decodes 8-bit and 24-bit PCM', () => {
+    expect([...decodeWav(wav(1, 1, 8, [192, 64], (view, offset, sample) => view.setUint8(offset, sample))).getChannelData(0)])
+      .toEqual([0.5, -0.5]);
+    const audio = decodeWav(wav(1, 1, 24, [0x400000, -0x400000], (view, offset, sample) => {
+      view.setUint8(offset, sample & 0xff);
+      view.setUint8(offset + 1, (sample >> 8) & 0xff);
+      view.setUint8(offset + 2, (sample >> 16) & 0xff);
+    }));
+    expect([...audio.getChannelData(0)]).toEqual([0.5, -0.5]);
+  });
+
+  it('decodes 32-bit float', () => {
+    const audio = decodeWav(wav(3, 1, 32, [0.25, -0.75], (view, offset, sample) => view.setFloat32(offset, sample, true)));
+    expect([...audio.getChannelData(0)]).toEqual([0.25, -0.75]);
+  });
+
+  it('clamps a data chunk longer than the file', () => {
+    const bytes = wav(1, 1, 16, [0x4000, 0x4000], (view, offset, sample) => view.setInt16(offset, sample, true));
+    new DataView(bytes.buffer).setUint32(50, 0xffffffff, true);
+    expect(decodeWav(bytes).length).toBe(2);
+  });
+
+  it('rejects other files and encodings', () => {
+    expect(() => decodeWav(new TextEncoder().encode('<score-partwise/>'))).toThrow('Not a WAV file');
+    expect(() => decodeWav(wav(2, 1, 16, [0], () => {}))).toThrow('Unsupported WAV encoding (format 2, 16 bit)');
+  });
+});
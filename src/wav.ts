@@ -0,0 +1,88 @@
+// Decoding WAV files without Web Audio, for analyzing recordings outside the browser.
+// Supports PCM (8, 16, 24 and 32 bit) and 32/64-bit float samples.
+
+import { AudioSamples } from './audio-analysis';
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+}
+
+export function decodeWav(bytes: Uint8Array): AudioSamples {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: { offset: number; length: number } | null = null;
+
+  // Chunks are word aligned; the data chunk length may be wrong in streamed files, so clamp it
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const tag = readTag(view, offset);
+    const length = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === FORMAT_EXTENSIBLE && length >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (tag === 'data') {
+      data = { offset: body, length: Math.min(length, bytes.length - body) };
+    }
+    offset = body + length + (length % 2);
+  }
+
+  if (!data || channels === 0 || sampleRate === 0) {
+    throw new Error('The WAV file has no audio data');
+  }
+  const read = sampleReader(view, format, bitsPerSample);
+  if (!read) {
+    throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample} bit)`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const length = Math.floor(data.length / (bytesPerSample * channels));
+  const channelData = Array.from({ length: channels }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const samples = channelData[channel];
+      if (samples) {
+        samples[i] = read(data.offset + (i * channels + channel) * bytesPerSample);
+      }
+    }
+  }
+
+  return {
+    sampleRate,
+    length,
+    numberOfChannels: channels,
+    duration: length / sampleRate,
+    getChannelData: (channel: number) => channelData[channel] ?? new Float32Array(length)
+  };
+}
+
+// Reads one sample at a byte offset, scaled to -1..1
+function sampleReader(view: DataView, format: number, bits: number): ((offset: number) => number) | null {
+  if (format === FORMAT_FLOAT && bits === 32) return offset => view.getFloat32(offset, true);
+  if (format === FORMAT_FLOAT && bits === 64) return offset => view.getFloat64(offset, true);
+  if (format !== FORMAT_PCM) return null;
+  switch (bits) {
+    case 8: return offset => (view.getUint8(offset) - 128) / 128;
+    case 16: return offset => view.getInt16(offset, true) / 0x8000;
+    case 24: return offset => ((view.getUint8(offset + 2) << 24 | view.getUint8(offset + 1) << 16 | view.getUint8(offset) << 8) >> 8) / 0x800000;
+    case 32: return offset => view.getInt32(offset, true) / 0x80000000;
+    default: return null;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { XmlParseError, childElements, childText, findElement, parseXml } from './xml';
+
+describe('parseXml', () => {
+  it('reads elements, attributes and text', () => {
+    const root = parseXml(`<?xml version="1.0"?>
+      <!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+      <score-partwise version='4.0'>
+        <!-- a comment with <tags> -->
+        <part id="P1"><measure number="1"/><measure number="2"/></part>
+      </score-partwise>`);
+    expect(root.name).toBe('score-partwise');
+    expect(root.attributes).toEqual({ version: '4.0' });
+    const part = findElement(root, 'part');
+    expect(childElements(part!, 'measure').map(measure => measure.attributes['number'])).toEqual(['1', '2']);
+  });
+
+  it('decodes entities and keeps CDATA as is', () => {
+    const root = parseXml('<work><work-title>Bach &amp; Sons &#x2014; &lt;Minuet&gt; &#233;</work-title><rights><![CDATA[a < b & c]]></rights></work>');
+    expect(childText(root, 'work-title')).toBe('Bach & Sons — <Minuet> é');
+    expect(childText(root, 'rights')).toBe('a < b & c');
+  });
+
+  it('skips a doctype with an internal subset', () => {
+    expect(parseXml('<!DOCTYPE a [<!ENTITY x "y">]><a/>').name).toBe('a');
+  });
+
+  it.each([
+    ['<a><b></a>', 'Unexpected </a>'],
+    ['<a>', 'is never closed'],
+    ['<a/><b/>', 'More than one root element'],
+    ['text<a/>', 'Text outside the root element'],
+    ['  ', 'The document is empty'],
+    ['<a><!-- never ends</a>', 'Unterminated markup']
+  ])('rejects %j', (source, message) => {
+    expect(() => parseXml(source)).toThrow(XmlParseError);
+    expect(() => parseXml(source)).toThrow(message);
+  });
+});
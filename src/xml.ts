@@ -0,0 +1,142 @@
+// A small XML reader for MusicXML, so scores can be read without a DOM (e.g. from Node).
+// It keeps elements, attributes and text; comments, processing instructions and the
+// doctype are skipped.
+
+export interface XmlElement {
+  name: string;
+  attributes: { [name: string]: string };
+  children: XmlElement[];
+  text: string; // Text directly inside the element, entities decoded
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): { [name: string]: string } {
+  const attributes: { [name: string]: string } = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1] ?? ''] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/** Parse a document and return its root element. Throws XmlParseError for malformed XML. */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end < 0) throw new XmlParseError(`Unterminated markup at offset ${position}`);
+    position = end + terminator.length;
+  };
+
+  while (position < source.length) {
+    const open = source.indexOf('<', position);
+    const text = source.slice(position, open < 0 ? source.length : open);
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.text += decodeEntities(text);
+    } else if (text.trim()) {
+      throw new XmlParseError('Text outside the root element');
+    }
+    if (open < 0) break;
+    position = open;
+
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position);
+      if (end < 0 || !parent) throw new XmlParseError('Misplaced CDATA section');
+      parent.text += source.slice(position + 9, end);
+      position = end + 3;
+    } else if (source.startsWith('<?', position)) {
+      skipPast('?>');
+    } else if (source.startsWith('<!', position)) {
+      // The doctype may carry an internal subset in brackets
+      const bracket = source.indexOf('[', position);
+      const close = source.indexOf('>', position);
+      if (bracket >= 0 && bracket < close) {
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (source.startsWith('</', position)) {
+      const end = source.indexOf('>', position);
+      if (end < 0) throw new XmlParseError(`Unterminated tag at offset ${position}`);
+      const name = source.slice(position + 2, end).trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw new XmlParseError(`Unexpected </${name}> at offset ${position}`);
+      }
+      position = end + 1;
+    } else {
+      const end = source.indexOf('>', position);
+      if (end < 0) throw new XmlParseError(`Unterminated tag at offset ${position}`);
+      const selfClosing = source[end - 1] === '/';
+      const body = source.slice(position + 1, selfClosing ? end - 1 : end);
+      const name = /^[^\s/>]+/.exec(body)?.[0];
+      if (!name) throw new XmlParseError(`Missing element name at offset ${position}`);
+
+      const element: XmlElement = { name, attributes: parseAttributes(body.slice(name.length)), children: [], text: '' };
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw new XmlParseError('More than one root element');
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end + 1;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`<${stack[stack.length - 1]?.name}> is never closed`);
+  }
+  if (!root) {
+    throw new XmlParseError('The document is empty');
+  }
+  return root;
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+// Trimmed text of a child element, '' if there is none
+export function childText(element: XmlElement, name: string): string {
+  return childElement(element, name)?.text.trim() ?? '';
+}
+
+// First element with the given name anywhere below (depth first)
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}